@@ -1,14 +1,26 @@
+import { useState } from 'react'
 import { ClickButton } from './components/ClickButton'
 import { UpgradeList } from './components/UpgradeList'
 import { GeneratorList } from './components/GeneratorList'
 import { PrestigeButton } from './components/PrestigeButton'
 import { StrategyPointsGauge } from './components/StrategyPointsGauge'
+import { PrestigeUpgradeShop } from './components/PrestigeUpgradeShop'
+import { MetaPrestigePanel } from './components/MetaPrestigePanel'
+import { AutomationPanel } from './components/AutomationPanel'
 import { BaseClickToggle } from './components/GameModeToggle'
+import { BuyAmountSelector } from './components/BuyAmountSelector'
 import { DimensionShiftButton } from './components/DimensionShiftButton'
-import { useCurrency, useViews, useEngagement, usePrestigePoints, useViewsPerSecond, useTotalClicksPerSecond, useGameActions, useGameState } from './stores/gameStore'
+import { OfflineProgressModal } from './components/OfflineProgressModal'
+import { SaveRestoreNotice } from './components/SaveRestoreNotice'
+import { AchievementsPage } from './components/AchievementsPage'
+import { SaveSlotsPage } from './components/SaveSlotsPage'
+import { InfluenceGauge } from './components/InfluenceGauge'
+import { InfluenceGeneratorList } from './components/InfluenceGeneratorList'
+import { InfluenceUpgradeList } from './components/InfluenceUpgradeList'
+import { useCurrency, useViews, useEngagement, usePrestigePoints, useViewsPerSecond, useTotalClicksPerSecond, useAutomation, useGameState } from './stores/gameStore'
 import { formatNumber, formatInteger } from './utils/numberFormatter'
 import { getRateColorClass, formatRate } from './utils/rateColors'
-import { gameEngine } from './engine/gameEngine'
+import { gameEngine } from './engine/gameEngineInstance'
 import './App.css'
 
 function App() {
@@ -19,7 +31,9 @@ function App() {
   const viewsPerSecond = useViewsPerSecond()
   const totalClicksPerSecond = useTotalClicksPerSecond()
   const gameState = useGameState()
-  const { resetGame } = useGameActions()
+  const automationSystems = useAutomation()
+  const [showAchievements, setShowAchievements] = useState(false)
+  const [showSaves, setShowSaves] = useState(false)
   
   // Calculate engagement upgrade cost
   const engagementCost = gameEngine.getEngagementCost(engagement)
@@ -30,20 +44,22 @@ function App() {
   }
 
   const handleReset = () => {
-    if (window.confirm('Are you sure you want to reset all game data? This cannot be undone.')) {
-      // Use the game store's reset function
-      resetGame()
-      // Also clear localStorage to ensure clean reset
-      localStorage.removeItem('idle-clicker-game-storage')
-      // Reload to reinitialize everything
-      window.location.reload()
+    if (window.confirm('Are you sure you want to reset all game data?\n\nA backup is kept under Saves.')) {
+      gameEngine.resetGame()
     }
   }
 
   return (
     <div className="app">
       <div className="top-buttons">
+        <BuyAmountSelector />
         <BaseClickToggle />
+        <button className="mode-toggle-button" onClick={() => setShowAchievements(true)}>
+          Achievements
+        </button>
+        <button className="mode-toggle-button" onClick={() => setShowSaves(true)}>
+          Saves
+        </button>
         <button className="reset-button" onClick={handleReset}>
           Reset
         </button>
@@ -61,6 +77,7 @@ function App() {
           
           <div className="metrics-row">
             {prestigePoints.greaterThan(0) && <StrategyPointsGauge />}
+            {gameState.totalPrestiges > 0 && <PrestigeUpgradeShop />}
             
             <div className="metric-card">
               <div className="card-header">Engagement</div>
@@ -81,13 +98,19 @@ function App() {
               </div>
             </div>
             
-            <div className="metric-card">
-              <div className="card-header">Views</div>
-              <div className="card-value">{formatInteger(views.floor())}</div>
-              <div className={`card-footer ${getRateColorClass(viewsPerSecond)}`}>
-                {formatRate(viewsPerSecond, formatNumber)}
+            {gameState.currentDimension === 2 ? (
+              <InfluenceGauge />
+            ) : (
+              <div className="metric-card">
+                <div className="card-header">Views</div>
+                <div className="card-value">{formatInteger(views.floor())}</div>
+                <div className={`card-footer ${getRateColorClass(viewsPerSecond)}`}>
+                  {formatRate(viewsPerSecond, formatNumber)}
+                </div>
               </div>
-            </div>
+            )}
+            
+            {automationSystems.some(automation => automation.unlocked) && <AutomationPanel />}
             
             <div className="click-section">
               <ClickButton />
@@ -95,6 +118,8 @@ function App() {
             
             <PrestigeButton />
             
+            {(gameState.totalPrestiges > 0 || gameState.totalMetaPrestiges > 0) && <MetaPrestigePanel />}
+            
             <DimensionShiftButton />
           </div>
         </div>
@@ -112,15 +137,23 @@ function App() {
             </div>
           </>
         ) : (
-          <div className="dimension-placeholder">
-            <h2>Dimension 2: Influence</h2>
-            <p>Corporate optimization and algorithmic growth</p>
-            <p style={{ marginTop: '2rem', color: '#888' }}>
-              Coming soon... For now, return to Dimension 1 to continue playing.
-            </p>
-          </div>
+          <>
+            <div className="middle-panel">
+              <InfluenceUpgradeList />
+            </div>
+            
+            <div className="right-panel">
+              <InfluenceGeneratorList />
+            </div>
+          </>
         )}
       </main>
+      
+      <OfflineProgressModal />
+      <SaveRestoreNotice />
+      
+      {showAchievements && <AchievementsPage onClose={() => setShowAchievements(false)} />}
+      {showSaves && <SaveSlotsPage onClose={() => setShowSaves(false)} />}
     </div>
   )
 }
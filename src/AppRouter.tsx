@@ -1,10 +1,13 @@
 import { useState } from 'react'
 import App from './App'
 import { BotPage } from './pages/BotPage'
+import { TabTakeoverScreen } from './components/TabTakeoverScreen'
+import { useTabRole } from './hooks/useTabRole'
 import './AppRouter.css'
 
 export function AppRouter() {
   const [currentPage, setCurrentPage] = useState<'game' | 'bot'>('game')
+  const tabRole = useTabRole()
 
   return (
     <div className="app-router">
@@ -24,7 +27,13 @@ export function AppRouter() {
       </nav>
       
       <div className="page-content">
-        {currentPage === 'game' ? <App /> : <BotPage />}
+        {tabRole !== 'leader' ? (
+          <TabTakeoverScreen role={tabRole} />
+        ) : currentPage === 'game' ? (
+          <App />
+        ) : (
+          <BotPage />
+        )}
       </div>
     </div>
   )
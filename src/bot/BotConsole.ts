@@ -1,4 +1,5 @@
 import { GameBot, type BotConfig } from './GameBot'
+import { gameEngine } from '../engine/gameEngineInstance'
 import type { BotSession } from './BotLogger'
 
 /**
@@ -10,7 +11,7 @@ export class BotConsole {
   private lastSession: BotSession | null = null
 
   constructor() {
-    this.bot = new GameBot()
+    this.bot = new GameBot(gameEngine)
     this.printWelcome()
   }
 
@@ -1,6 +1,8 @@
 import Decimal from 'decimal.js'
 import type { GameState, IdleGenerator, Upgrade } from '../types/gameTypes'
 import { decimal } from '../utils/decimal'
+import { getBulkCost } from '../utils/cost'
+import { getDerivedStat } from '../managers/ModifierPipeline'
 
 /**
  * Purchase decision with efficiency score
@@ -114,11 +116,14 @@ export class BotStrategy {
   private evaluateGenerator(generator: IdleGenerator, gameState: GameState): PurchaseDecision {
     const cost = this.calculateGeneratorCost(generator)
     
-    // Calculate production gain (views per second)
-    let productionGain = decimal(generator.baseProduction)
-    
-    // Apply multipliers to get actual production value
-    productionGain = productionGain.times(gameState.idleMultiplier)
+    // Production gain (views per second) with every multiplier applied
+    // Compares whole production, so milestones reached and synergies fed by the extra generator count too
+    const withGenerator = {
+      ...gameState,
+      idleGenerators: gameState.idleGenerators.map(g => g.id === generator.id ? { ...g, owned: g.owned + 1 } : g),
+    }
+    const productionGain = getDerivedStat(withGenerator, 'viewsPerSecond').value
+      .minus(getDerivedStat(gameState, 'viewsPerSecond').value)
     
     // Convert views/sec to clicks/sec (assuming 1 view = 1 click for now)
     const clicksPerSecondGain = productionGain.toNumber()
@@ -164,19 +169,20 @@ export class BotStrategy {
     // Estimate value based on upgrade type
     let valueEstimate = 0
     
-    if (upgrade.effect.type === 'clickMultiplier') {
-      // Click multipliers increase clicks per click
-      const multiplierGain = decimal(upgrade.effect.value).toNumber()
-      const currentClickValue = gameState.baseClickValue.times(gameState.clickMultiplier).toNumber()
-      
-      // Extra clicks per click
-      const extraValuePerClick = currentClickValue * (multiplierGain - 1)
-      
+    if (upgrade.effect.modifiers && upgrade.effect.modifiers.length > 0) {
+      // Stat modifiers, generator-targeted ones included: compare derived click value and production with one more purchase
+      const purchased = {
+        ...gameState,
+        upgrades: gameState.upgrades.map(u => u.id === upgrade.id ? { ...u, currentPurchases: u.currentPurchases + 1 } : u),
+      }
+      const clickValueIncrease = getDerivedStat(purchased, 'clickValue').value
+        .minus(getDerivedStat(gameState, 'clickValue').value).toNumber()
+      const idleProductionIncrease = getDerivedStat(purchased, 'viewsPerSecond').value
+        .minus(getDerivedStat(gameState, 'viewsPerSecond').value).toNumber()
+
       // Use actual clicks per second based on observed rate
       const clicksPerSecond = this.getClicksPerSecond()
-      
-      // Gain in clicks/sec (this is what we'll earn extra)
-      valueEstimate = extraValuePerClick * clicksPerSecond
+      valueEstimate = clickValueIncrease * clicksPerSecond + idleProductionIncrease
     } else if (upgrade.effect.type === 'idleMultiplier') {
       // Idle multipliers scale with current idle production
       const multiplierGain = decimal(upgrade.effect.value).toNumber()
@@ -184,28 +190,11 @@ export class BotStrategy {
       valueEstimate = currentIdleProduction * multiplierGain
     } else if (upgrade.effect.type === 'special') {
       // Special upgrades need custom evaluation
-      if (upgrade.id === 'base-value-1') {
-        // Better Content: +1 base click value + 10% idle multiplier
-        // Value = click value increase + idle production increase
-        
-        // Click value increase: +1 per click
-        const clickValueIncrease = 1 * gameState.clickMultiplier.toNumber()
-        
-        // Idle multiplier increase: 10% of current idle production
-        const currentIdleProduction = this.estimateIdleProduction(gameState)
-        const idleProductionIncrease = currentIdleProduction * 0.1
-        
-        // Combined value (weighted by usage)
-        // Use actual clicks per second based on observed rate
-        const clicksPerSecond = this.getClicksPerSecond()
-        const clickValuePerSecond = clickValueIncrease * clicksPerSecond
-        
-        valueEstimate = clickValuePerSecond + idleProductionIncrease
-      } else if (upgrade.id === 'click-power-3') {
+      if (upgrade.id === 'click-power-3') {
         // Viral Moment: 5x click multiplier for 10 seconds (temporary)
         // This is a one-time boost, so we need to amortize it
         
-        const currentClickValue = gameState.baseClickValue.times(gameState.clickMultiplier).toNumber()
+        const currentClickValue = getDerivedStat(gameState, 'clickValue').value.toNumber()
         const boostMultiplier = 5
         const boostDuration = 10 // seconds
         const clicksPerSecond = this.getClicksPerSecond()
@@ -218,14 +207,6 @@ export class BotStrategy {
         const amortizationPeriod = 60 // seconds
         valueEstimate = extraClicksGained / amortizationPeriod
       }
-    } else if (upgrade.effect.target) {
-      // Targeted effects (e.g., generator boosts)
-      const targetGenerator = gameState.idleGenerators.find(g => g.id === upgrade.effect.target)
-      if (targetGenerator && targetGenerator.owned > 0) {
-        const multiplierGain = decimal(upgrade.effect.value).toNumber()
-        const generatorProduction = decimal(targetGenerator.baseProduction).times(targetGenerator.owned).toNumber()
-        valueEstimate = generatorProduction * multiplierGain
-      }
     }
 
     // Efficiency: gain per second / cost = 1 / payback_time
@@ -255,30 +236,21 @@ export class BotStrategy {
    * Calculate generator cost
    */
   private calculateGeneratorCost(generator: IdleGenerator): Decimal {
-    const multiplier = decimal(generator.costMultiplier).pow(generator.owned)
-    return decimal(generator.baseCost).times(multiplier).ceil()
+    return getBulkCost(generator, generator.owned)
   }
 
   /**
    * Calculate upgrade cost
    */
   private calculateUpgradeCost(upgrade: Upgrade): Decimal {
-    const multiplier = decimal(upgrade.costMultiplier).pow(upgrade.currentPurchases)
-    return decimal(upgrade.baseCost).times(multiplier).ceil()
+    return getBulkCost(upgrade, upgrade.currentPurchases)
   }
 
   /**
    * Estimate current idle production
    */
   private estimateIdleProduction(gameState: GameState): number {
-    let total = 0
-    for (const generator of gameState.idleGenerators) {
-      if (generator.owned > 0) {
-        let production = decimal(generator.baseProduction).times(generator.owned)
-        total += production.toNumber()
-      }
-    }
-    return total * gameState.idleMultiplier.toNumber()
+    return getDerivedStat(gameState, 'viewsPerSecond').value.toNumber()
   }
 
   /**
@@ -316,7 +288,7 @@ export class BotStrategy {
     // If we can afford something valuable, use clicks
     const decision = this.decideNextPurchase(gameState)
     if (decision.type !== 'none' && decision.cost) {
-      const clickValue = gameState.baseClickValue.times(gameState.clickMultiplier)
+      const clickValue = getDerivedStat(gameState, 'clickValue').value
       const clicksNeeded = decision.cost.dividedBy(clickValue).ceil().toNumber()
       
       // Use up to available clicks to reach the purchase
@@ -1,9 +1,11 @@
-import { gameEngine } from '../engine/gameEngine'
+import Decimal from 'decimal.js'
+import type { GameEngine } from '../engine/gameEngine'
+import { systemClock, intervalScheduler } from '../engine/scheduler'
 import { BotLogger, type BotSession } from './BotLogger'
 import { BotStrategy } from './BotStrategy'
 import { calculateStrategyPointsMultiplier } from '../utils/decimal'
-import type { GameState } from '../types/gameTypes'
-import { useGameStore } from '../stores/gameStore'
+import { getDerivedStat } from '../managers/ModifierPipeline'
+import type { DerivedStat, GameState, Clock, Scheduler } from '../types/gameTypes'
 
 export interface BotConfig {
   mode: 'active' | 'passive'
@@ -28,7 +30,10 @@ export class GameBot {
   private lastCompletedSession: BotSession | null = null // Store last completed session
   
   // Timing
-  private updateInterval: number | null = null
+  private engine: GameEngine
+  private clock: Clock
+  private scheduler: Scheduler
+  private updateInterval: unknown = null
   private lastUpdateTime: number = 0
   private prestigeStartTime: number = 0
   
@@ -45,7 +50,10 @@ export class GameBot {
   private clickRateWindow: number[] = [] // Recent click counts per update
   private clickRateWindowSize: number = 10 // Track last 10 updates
 
-  constructor() {
+  constructor(engine: GameEngine, clock: Clock = systemClock, scheduler: Scheduler = intervalScheduler) {
+    this.engine = engine
+    this.clock = clock
+    this.scheduler = scheduler
     this.logger = new BotLogger()
     this.strategy = new BotStrategy()
   }
@@ -58,34 +66,35 @@ export class GameBot {
       return
     }
 
+    // The bot plays on the live game, so keep a copy to come back to
+    this.engine.backupGame('bot-start')
+
     this.config = config
     this.status = 'running'
     this.currentPrestigeNumber = 0
-    this.prestigeStartTime = Date.now()
+    this.prestigeStartTime = this.clock.now()
     
     // Set simulation speed in game state using the store
     const simulationSpeed = config.speed === 'simulated' && config.simulationSpeed ? config.simulationSpeed : 1
-    const currentState = gameEngine.getGameState()
-    currentState.simulationSpeed = simulationSpeed
-    useGameStore.getState().setGameState(currentState)
+    this.engine.setSimulationSpeed(simulationSpeed)
     
     // Start logging session
     this.logger.startSession(config.mode, config.speed, config.simulationSpeed)
     
     // Start first prestige log
-    const gameState = gameEngine.getGameState()
+    const gameState = this.engine.getGameState()
     this.logger.startPrestige(this.currentPrestigeNumber, gameState.prestigePoints)
     
     // Initialize timing
-    this.lastUpdateTime = Date.now()
-    this.lastPassiveClickTime = Date.now()
+    this.lastUpdateTime = this.clock.now()
+    this.lastPassiveClickTime = this.clock.now()
     this.passiveClickBank = 0
     this.manualClicksThisPrestige = 0
     this.totalClicksThisPrestige = 0
     
     // Start update loop
     const updateRate = config.speed === 'realtime' ? 100 : 50 // ms (slower for simulated to reduce load)
-    this.updateInterval = window.setInterval(() => this.update(), updateRate)
+    this.updateInterval = this.scheduler.setInterval(() => this.update(), updateRate)
   }
 
   /**
@@ -99,13 +108,11 @@ export class GameBot {
     this.status = 'completed'
     
     // Reset simulation speed to normal
-    const currentState = gameEngine.getGameState()
-    currentState.simulationSpeed = 1
-    useGameStore.getState().setGameState(currentState)
+    this.engine.setSimulationSpeed(1)
     
     // Stop update loop
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval)
+    if (this.updateInterval !== null) {
+      this.scheduler.clearInterval(this.updateInterval)
       this.updateInterval = null
     }
 
@@ -113,7 +120,7 @@ export class GameBot {
     this.endPrestigeLog()
     
     // End session and get report
-    const gameState = gameEngine.getGameState()
+    const gameState = this.engine.getGameState()
     const session = this.logger.endSession(this.exportGameState(gameState))
     
     // Store the completed session
@@ -128,8 +135,8 @@ export class GameBot {
   pause(): void {
     if (this.status === 'running') {
       this.status = 'paused'
-      if (this.updateInterval) {
-        clearInterval(this.updateInterval)
+      if (this.updateInterval !== null) {
+        this.scheduler.clearInterval(this.updateInterval)
         this.updateInterval = null
       }
     }
@@ -142,7 +149,7 @@ export class GameBot {
     if (this.status === 'paused' && this.config) {
       this.status = 'running'
       const updateRate = this.config.speed === 'realtime' ? 100 : 50
-      this.updateInterval = window.setInterval(() => this.update(), updateRate)
+      this.updateInterval = this.scheduler.setInterval(() => this.update(), updateRate)
     }
   }
 
@@ -154,7 +161,7 @@ export class GameBot {
       return
     }
 
-    const now = Date.now()
+    const now = this.clock.now()
     let deltaTime = (now - this.lastUpdateTime) / 1000 // seconds
     
     // Apply simulation speed multiplier
@@ -176,8 +183,13 @@ export class GameBot {
       this.updatePassiveClicks(deltaTime)
     }
 
+    // Head to Dimension 2 when the run is aiming for influence
+    this.checkDimensionShift()
+
     // Perform actions
-    if (this.config.mode === 'active') {
+    if (this.engine.getGameState().currentDimension === 2) {
+      this.performInfluenceActions(deltaTime)
+    } else if (this.config.mode === 'active') {
       this.performActiveActions(deltaTime)
     } else {
       this.performPassiveActions(deltaTime)
@@ -202,13 +214,13 @@ export class GameBot {
    * Perform actions in active mode
    */
   private performActiveActions(deltaTime: number): void {
-    const gameState = gameEngine.getGameState()
+    const gameState = this.engine.getGameState()
     
     // Click continuously (assume 10 clicks per second in active mode)
     // But cap at 100 clicks per update to prevent overwhelming the system
     const clicksToPerform = Math.min(Math.floor(10 * deltaTime), 100)
     for (let i = 0; i < clicksToPerform; i++) {
-      gameEngine.performClick()
+      this.engine.performClick()
       this.manualClicksThisPrestige++
       this.totalClicksThisPrestige++
     }
@@ -224,7 +236,7 @@ export class GameBot {
    * Perform actions in passive mode
    */
   private performPassiveActions(deltaTime: number): void {
-    const gameState = gameEngine.getGameState()
+    const gameState = this.engine.getGameState()
     
     // Decide if we should use clicks
     const availableClicks = Math.floor(this.passiveClickBank)
@@ -235,7 +247,7 @@ export class GameBot {
       
       if (clicksToUse > 0) {
         for (let i = 0; i < clicksToUse; i++) {
-          gameEngine.performClick()
+          this.engine.performClick()
           this.manualClicksThisPrestige++
           this.totalClicksThisPrestige++
         }
@@ -251,6 +263,96 @@ export class GameBot {
     this.makePurchases(gameState)
   }
   
+  /**
+   * Perform actions in Dimension 2: click for Reach, then spend it
+   */
+  private performInfluenceActions(deltaTime: number): void {
+    // Same click budget as Dimension 1: 10 per second when active, the click bank when passive
+    let clicksToPerform = Math.min(Math.floor(10 * deltaTime), 100)
+    if (this.config?.mode === 'passive') {
+      clicksToPerform = Math.floor(this.passiveClickBank)
+      this.passiveClickBank -= clicksToPerform
+    }
+
+    for (let i = 0; i < clicksToPerform; i++) {
+      this.engine.performClick()
+      this.manualClicksThisPrestige++
+      this.totalClicksThisPrestige++
+    }
+
+    this.updateClickRate(clicksToPerform, deltaTime)
+    this.makeInfluencePurchases()
+  }
+
+  /**
+   * Buy Influence when affordable, otherwise the cheapest affordable Dimension 2 generator or upgrade
+   */
+  private makeInfluencePurchases(): void {
+    const simulationSpeed = this.config?.simulationSpeed || 1
+    const maxPurchasesPerUpdate = simulationSpeed <= 10 ? 1 : 10
+
+    for (let purchasesMade = 0; purchasesMade < maxPurchasesPerUpdate; purchasesMade++) {
+      if (this.engine.canPurchaseInfluence()) {
+        const cost = this.engine.getInfluenceCost()
+        this.engine.purchaseInfluence()
+        this.logger.logPurchase('influence', 'influence', 'Influence', 1, cost, 'Influence affordable')
+        continue
+      }
+
+      const gameState = this.engine.getGameState()
+      const options = [
+        ...gameState.influenceGenerators
+          .filter(generator => this.engine.canAffordInfluenceGenerator(generator))
+          .map(generator => ({
+            type: 'generator' as const,
+            id: generator.id,
+            name: generator.name,
+            cost: this.engine.getInfluenceGeneratorCost(generator),
+            purchase: () => this.engine.purchaseInfluenceGenerator(generator.id),
+          })),
+        ...gameState.influenceUpgrades
+          .filter(upgrade => this.engine.canAffordInfluenceUpgrade(upgrade))
+          .map(upgrade => ({
+            type: 'upgrade' as const,
+            id: upgrade.id,
+            name: upgrade.name,
+            cost: this.engine.getInfluenceUpgradeCost(upgrade),
+            purchase: () => this.engine.purchaseInfluenceUpgrade(upgrade.id),
+          })),
+      ]
+
+      if (options.length === 0) {
+        break
+      }
+
+      const cheapest = options.reduce((best, option) => (option.cost.lessThan(best.cost) ? option : best))
+      if (!cheapest.purchase()) {
+        break
+      }
+
+      this.logger.logPurchase(cheapest.type, cheapest.id, cheapest.name, 1, cheapest.cost, 'Cheapest Dimension 2 purchase')
+    }
+  }
+
+  /**
+   * Shift to Dimension 2 once it opens up, if the run stops on influence
+   */
+  private checkDimensionShift(): void {
+    if (!this.config?.maxInfluence || !this.engine.canShiftToDimension2()) {
+      return
+    }
+
+    this.endPrestigeLog()
+    this.engine.shiftToDimension2()
+
+    // Log Dimension 2 as a new run segment
+    this.currentPrestigeNumber++
+    this.prestigeStartTime = this.clock.now()
+    this.manualClicksThisPrestige = 0
+    this.totalClicksThisPrestige = 0
+    this.logger.startPrestige(this.currentPrestigeNumber, this.engine.getGameState().prestigePoints)
+  }
+
   /**
    * Update click rate tracking for strategy calculations
    */
@@ -285,7 +387,7 @@ export class GameBot {
     
     while (purchasesMade < maxPurchasesPerUpdate) {
       // Refresh game state to get latest unlock status
-      gameState = gameEngine.getGameState()
+      gameState = this.engine.getGameState()
       
       const decision = this.strategy.decideNextPurchase(gameState)
       
@@ -296,9 +398,9 @@ export class GameBot {
       let success = false
       
       if (decision.type === 'generator' && decision.id) {
-        success = gameEngine.purchaseGenerator(decision.id, decision.amount || 1)
+        success = this.engine.purchaseGenerator(decision.id, decision.amount || 1)
       } else if (decision.type === 'upgrade' && decision.id) {
-        success = gameEngine.purchaseUpgrade(decision.id)
+        success = this.engine.purchaseUpgrade(decision.id)
       }
 
       if (success && decision.cost && decision.name) {
@@ -321,10 +423,10 @@ export class GameBot {
    * Check if we should prestige
    */
   private checkPrestige(): void {
-    const gameState = gameEngine.getGameState()
-    const currentDuration = Date.now() - this.prestigeStartTime
+    const gameState = this.engine.getGameState()
+    const currentDuration = this.clock.now() - this.prestigeStartTime
     
-    if (gameEngine.canPrestige() && this.strategy.shouldPrestige(gameState, currentDuration)) {
+    if (this.engine.canPrestige() && this.strategy.shouldPrestige(gameState, currentDuration)) {
       this.performPrestige()
     }
   }
@@ -333,22 +435,22 @@ export class GameBot {
    * Perform prestige
    */
   private performPrestige(): void {
-    const gameState = gameEngine.getGameState()
-    const gainedSP = gameEngine.calculatePrestigeGain()
+    const gameState = this.engine.getGameState()
+    const gainedSP = this.engine.calculatePrestigeGain()
     
     // End current prestige log
     this.endPrestigeLog()
     
     // Perform prestige
-    gameEngine.performPrestige()
+    this.engine.performPrestige()
     
     // Start new prestige
     this.currentPrestigeNumber++
-    this.prestigeStartTime = Date.now()
+    this.prestigeStartTime = this.clock.now()
     this.manualClicksThisPrestige = 0
     this.totalClicksThisPrestige = 0
     
-    const newGameState = gameEngine.getGameState()
+    const newGameState = this.engine.getGameState()
     this.logger.startPrestige(this.currentPrestigeNumber, newGameState.prestigePoints)
   }
 
@@ -356,8 +458,8 @@ export class GameBot {
    * End prestige logging
    */
   private endPrestigeLog(): void {
-    const gameState = gameEngine.getGameState()
-    const gainedSP = gameEngine.calculatePrestigeGain()
+    const gameState = this.engine.getGameState()
+    const gainedSP = this.engine.calculatePrestigeGain()
     const strategyBonus = calculateStrategyPointsMultiplier(gameState.prestigePoints)
     
     this.logger.endPrestige(
@@ -366,8 +468,8 @@ export class GameBot {
       this.totalClicksThisPrestige,
       this.manualClicksThisPrestige,
       {
-        clickMultiplier: gameState.clickMultiplier,
-        idleMultiplier: gameState.idleMultiplier,
+        clickMultiplier: this.combinedMultiplier(getDerivedStat(gameState, 'clickValue')),
+        idleMultiplier: this.combinedMultiplier(getDerivedStat(gameState, 'viewsPerSecond')),
         strategyBonus,
         engagement: gameState.engagement
       },
@@ -376,13 +478,22 @@ export class GameBot {
     )
   }
 
+  /**
+   * Product of a stat's multipliers, leaving out strategy and engagement which are logged on their own
+   */
+  private combinedMultiplier(stat: DerivedStat): Decimal {
+    return stat.breakdown
+      .filter(modifier => modifier.operation === 'multiply' && modifier.source !== 'strategy' && modifier.source !== 'engagement')
+      .reduce((total, modifier) => total.times(modifier.value), new Decimal(1))
+  }
+
   /**
    * Check stop conditions
    */
   private checkStopConditions(): void {
     if (!this.config) return
 
-    const gameState = gameEngine.getGameState()
+    const gameState = this.engine.getGameState()
     const session = this.logger.getCurrentSession()
     
     if (!session) return
@@ -395,7 +506,7 @@ export class GameBot {
 
     // Check max duration
     if (this.config.maxDuration) {
-      const elapsed = Date.now() - session.startTime
+      const elapsed = this.clock.now() - session.startTime
       if (elapsed >= this.config.maxDuration) {
         this.stop()
         return
@@ -0,0 +1,91 @@
+import type { Achievement, AchievementReward } from '../types/gameTypes'
+import { useAchievements, useGameState } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { formatInteger, formatNumber } from '../utils/numberFormatter'
+import './AchievementsPage.css'
+
+const CATEGORY_LABELS: Record<Achievement['category'], string> = {
+  clicking: 'Clicking',
+  idle: 'Traffic',
+  prestige: 'Strategy',
+  meta: 'Legacy',
+  special: 'Special',
+}
+
+/**
+ * Reward text for an achievement card
+ */
+function describeReward(reward: AchievementReward): string {
+  switch (reward.type) {
+    case 'clickMultiplier':
+      return `x${formatNumber(reward.value)} clicks per click`
+    case 'idleMultiplier':
+      return `x${formatNumber(reward.value)} views per second`
+    case 'currency':
+      return `+${formatInteger(reward.value)} clicks`
+    default:
+      return 'Special reward'
+  }
+}
+
+interface AchievementsPageProps {
+  onClose: () => void
+}
+
+export function AchievementsPage({ onClose }: AchievementsPageProps) {
+  const achievements = useAchievements()
+  // Subscribe to the whole state so progress bars follow the game
+  useGameState()
+
+  const unlockedCount = achievements.filter(a => a.unlocked).length
+  const categories = Object.keys(CATEGORY_LABELS) as Achievement['category'][]
+
+  return (
+    <div className="achievements-backdrop" onClick={onClose}>
+      <div
+        className="achievements-page"
+        role="dialog"
+        aria-labelledby="achievements-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="achievements-header">
+          <h2 id="achievements-title">Achievements</h2>
+          <span className="achievements-count">{unlockedCount}/{achievements.length}</span>
+          <button className="mode-toggle-button" onClick={onClose}>Close</button>
+        </div>
+
+        {categories.map(category => {
+          const inCategory = achievements.filter(a => a.category === category)
+          if (inCategory.length === 0) return null
+
+          return (
+            <section key={category} className="achievements-category">
+              <h3>{CATEGORY_LABELS[category]}</h3>
+              <div className="achievements-grid">
+                {inCategory.map(achievement => {
+                  const progress = gameEngine.getAchievementProgress(achievement)
+
+                  return (
+                    <div
+                      key={achievement.id}
+                      className={`achievement-card ${achievement.unlocked ? 'unlocked' : 'locked'}`}
+                    >
+                      <div className="achievement-name">{achievement.name}</div>
+                      <p className="achievement-description">{achievement.description}</p>
+                      {achievement.reward && (
+                        <div className="achievement-reward">{describeReward(achievement.reward)}</div>
+                      )}
+                      <div className="achievement-progress">
+                        <div className="achievement-progress-fill" style={{ width: `${Math.round(progress * 100)}%` }} />
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { useState } from 'react'
+import { useAutomation, useBuyAmount, useGameState } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { getDerivedStat } from '../managers/ModifierPipeline'
+import { decimal } from '../utils/decimal'
+import { getBuyAmount } from '../utils/cost'
+import { formatInteger, formatNumber } from '../utils/numberFormatter'
+import './PrestigeUpgradeShop.css'
+
+export function AutomationPanel() {
+  const [open, setOpen] = useState(false)
+  const automationSystems = useAutomation()
+  const gameState = useGameState()
+  const buyAmount = useBuyAmount()
+
+  // Automated clicks per second, each worth a manual click
+  const clicksPerSecond = getDerivedStat(gameState, 'automationClicksPerSecond').value
+
+  const visibleSystems = automationSystems.filter(automation => automation.unlocked)
+
+  return (
+    <div className="metric-card prestige-shop">
+      <div className="card-header">Automation</div>
+      <div className="card-value">{formatNumber(clicksPerSecond)}/sec</div>
+      <div className="card-footer">
+        <button className="buy-button-small can-afford" onClick={() => setOpen(!open)}>
+          {open ? 'Close' : 'Auto-clickers'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="prestige-shop-panel">
+          {visibleSystems.map(automation => {
+            const amount = getBuyAmount(buyAmount, automation, automation.owned, gameState.currency)
+            const cost = gameEngine.getAutomationCost(automation, amount)
+            const canAfford = gameEngine.canAffordAutomation(automation, amount)
+            const clicksEach = decimal(automation.clicksPerSecond).times(automation.efficiency)
+
+            return (
+              <div key={automation.id} className="prestige-shop-item">
+                <div className="prestige-shop-item-header">
+                  <span className="prestige-shop-item-name">{automation.name}</span>
+                  <span className="prestige-shop-item-level">Owned: {formatInteger(automation.owned)}</span>
+                </div>
+                <p className="prestige-shop-item-description">
+                  {automation.description} ({formatNumber(clicksEach)} clicks/sec each)
+                </p>
+                <div className="prestige-shop-item-footer">
+                  <span className="rate-positive">
+                    {formatNumber(clicksEach.times(automation.owned))}/sec
+                  </span>
+                  <button
+                    className={`buy-button-small ${canAfford ? 'can-afford' : 'cannot-afford'}`}
+                    onClick={() => gameEngine.purchaseAutomation(automation.id, amount)}
+                    disabled={!canAfford}
+                  >
+                    Buy {formatInteger(amount)} for {formatInteger(cost)} clicks → {formatInteger(automation.owned + amount)}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
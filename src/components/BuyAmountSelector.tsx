@@ -0,0 +1,59 @@
+import { useEffect } from 'react'
+import type { BuyAmountMode } from '../types/gameTypes'
+import { useBuyAmount } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { BUY_AMOUNT_MODES } from '../utils/cost'
+
+const LABELS: Record<BuyAmountMode, string> = {
+  x1: 'x1',
+  x10: 'x10',
+  x100: 'x100',
+  milestone: 'Next',
+  max: 'Max',
+}
+
+const DESCRIPTIONS: Record<BuyAmountMode, string> = {
+  x1: 'Buy one at a time',
+  x10: 'Buy 10 at a time',
+  x100: 'Buy 100 at a time',
+  milestone: 'Buy up to the next milestone',
+  max: 'Buy as many as you can afford',
+}
+
+/**
+ * Shared buy amount for the generator, upgrade and automation shops
+ * Keys 1-5 pick a mode, in the order shown
+ */
+export function BuyAmountSelector() {
+  const buyAmount = useBuyAmount()
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return
+      if (event.target instanceof HTMLElement && event.target.closest('input, textarea, select, [contenteditable="true"]')) return
+
+      const mode = BUY_AMOUNT_MODES[Number(event.key) - 1]
+      if (mode) {
+        gameEngine.updateSettings({ buyAmount: mode })
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  return (
+    <div className="buy-amount-selector">
+      {BUY_AMOUNT_MODES.map((mode, index) => (
+        <button
+          key={mode}
+          className={`mode-toggle-button ${mode === buyAmount ? 'selected' : ''}`}
+          onClick={() => gameEngine.updateSettings({ buyAmount: mode })}
+          title={`${DESCRIPTIONS[mode]} (${index + 1})`}
+        >
+          {LABELS[mode]}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -1,8 +1,10 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react'
-import { gameEngine } from '../engine/gameEngine'
-import { useCurrency, useTotalClicksPerSecond } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { useCurrency, useReach, useTotalClicksPerSecond, useGameState } from '../stores/gameStore'
 import { useClickMultiplierEffects } from '../hooks/useTemporaryEffects'
 import { TemporaryEffectProgressBar } from './TemporaryEffectProgressBar'
+import { TEMPORARY_EFFECTS } from '../data/temporaryEffects'
+import { getDerivedStat } from '../managers/ModifierPipeline'
 import { formatNumber, formatInteger } from '../utils/numberFormatter'
 import { getRateColorClass, formatRate } from '../utils/rateColors'
 import { decimal } from '../utils/decimal'
@@ -30,7 +32,9 @@ export const ClickButton: React.FC<ClickButtonProps> = ({
   showFloatingNumbers = true,
 }) => {
   const currency = useCurrency()
+  const reach = useReach()
   const totalClicksPerSecond = useTotalClicksPerSecond()
+  const { currentDimension } = useGameState()
   const activeClickEffects = useClickMultiplierEffects()
   const [isPressed, setIsPressed] = useState(false)
   const [floatingNumbers, setFloatingNumbers] = useState<FloatingNumber[]>([])
@@ -40,14 +44,21 @@ export const ClickButton: React.FC<ClickButtonProps> = ({
 
   const hasActiveEffect = activeClickEffects.length > 0
 
+  // In Dimension 2 the card earns and shows Reach instead of Clicks
+  const isReach = currentDimension === 2
+  const resourceName = isReach ? 'Reach' : 'Clicks'
+  const balance = isReach ? reach : currency
+  const ratePerSecond = isReach ? gameEngine.getReachPerSecond() : totalClicksPerSecond
+
   // Update click value when game state changes
   useEffect(() => {
-    const state = gameEngine.getGameState()
-    const baseValue = decimal(state.baseClickValue)
-    const multiplier = decimal(state.clickMultiplier)
-    const currentClickValue = baseValue.times(multiplier)
-    setClickValue(currentClickValue)
-  }, [currency])
+    if (currentDimension === 2) {
+      setClickValue(gameEngine.getReachPerClick())
+      return
+    }
+    
+    setClickValue(getDerivedStat(gameEngine.getGameState(), 'clickValue').value)
+  }, [currency, reach, currentDimension, activeClickEffects.length])
 
   // Clean up old floating numbers
   useEffect(() => {
@@ -97,7 +108,7 @@ export const ClickButton: React.FC<ClickButtonProps> = ({
         onClick={handleClick}
         role="button"
         tabIndex={0}
-        aria-label={`Click to earn ${formatNumber(clickValue)} clicks`}
+        aria-label={`Click to earn ${formatNumber(clickValue)} ${resourceName.toLowerCase()}`}
         onKeyDown={(e) => {
           if (e.key === 'Enter' || e.key === ' ') {
             e.preventDefault()
@@ -105,10 +116,10 @@ export const ClickButton: React.FC<ClickButtonProps> = ({
           }
         }}
       >
-        <div className="card-header">Clicks</div>
-        <div className="card-value">{formatInteger(currency.floor())}</div>
-        <div className={`card-footer ${getRateColorClass(totalClicksPerSecond)}`}>
-          {formatRate(totalClicksPerSecond, formatNumber)}
+        <div className="card-header">{resourceName}</div>
+        <div className="card-value">{formatInteger(balance.floor())}</div>
+        <div className={`card-footer ${getRateColorClass(ratePerSecond)}`}>
+          {formatRate(ratePerSecond, formatNumber)}
         </div>
       </div>
 
@@ -120,7 +131,7 @@ export const ClickButton: React.FC<ClickButtonProps> = ({
       {/* Effect text below the card */}
       {hasActiveEffect && (
         <div className="effect-text-below">
-          {activeClickEffects[0]?.name} ×{formatNumber(activeClickEffects[0]?.value || decimal(1))} ({Math.ceil(Math.max(0, (activeClickEffects[0]?.startTime + activeClickEffects[0]?.duration - Date.now()) / 1000))}s)
+          {TEMPORARY_EFFECTS[activeClickEffects[0].kind].name} ×{formatNumber(TEMPORARY_EFFECTS[activeClickEffects[0].kind].multiplier(activeClickEffects[0].params))} ({Math.ceil(Math.max(0, activeClickEffects[0].remaining) / 1000)}s)
         </div>
       )}
 
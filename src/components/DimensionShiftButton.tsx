@@ -1,4 +1,4 @@
-import { gameEngine } from '../engine/gameEngine'
+import { gameEngine } from '../engine/gameEngineInstance'
 import { useEngagement, useGameState } from '../stores/gameStore'
 import './DimensionShiftButton.css'
 
@@ -1,64 +1,38 @@
 import React from 'react'
-import { gameEngine } from '../engine/gameEngine'
 import { formatNumber } from '../utils/numberFormatter'
-import { calculateStrategyPointsMultiplier } from '../utils/decimal'
+import { useGameState } from '../stores/gameStore'
+import { getDerivedStat } from '../managers/ModifierPipeline'
 import Tooltip from './Tooltip'
+import StatBreakdown from './StatBreakdown'
 
 interface EngagementMultiplierTooltipProps {
   children: React.ReactNode
 }
 
 export const EngagementMultiplierTooltip: React.FC<EngagementMultiplierTooltipProps> = ({ children }) => {
-  const gameState = gameEngine.getGameState()
-  
-  // Calculate individual components
-  const baseClickValue = gameState.baseClickValue
-  const clickMultiplier = gameState.clickMultiplier
-  const strategyBonus = calculateStrategyPointsMultiplier(gameState.prestigePoints)
-  const engagementMultiplier = gameState.engagement
-  
-  // Calculate intermediate values
-  const baseMultiplier = baseClickValue.times(clickMultiplier)
-  const afterStrategy = baseMultiplier.times(strategyBonus)
-  const totalMultiplier = afterStrategy.times(engagementMultiplier)
+  const gameState = useGameState()
+  const clickValue = getDerivedStat(gameState, 'clickValue')
   
   const tooltipContent = (
     <div className="tooltip-content">
       <div className="tooltip-title">Click Multiplier Breakdown</div>
       
       <div className="tooltip-section">
-        <div className="tooltip-breakdown">
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Base Click Value:</span>
-            <span className="tooltip-breakdown-value">{formatNumber(baseClickValue)}</span>
-          </div>
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Upgrade Multiplier:</span>
-            <span className="tooltip-breakdown-value">x{formatNumber(clickMultiplier)}</span>
-          </div>
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Strategy Points Bonus:</span>
-            <span className="tooltip-breakdown-value">x{formatNumber(strategyBonus)}</span>
-          </div>
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Engagement Multiplier:</span>
-            <span className="tooltip-breakdown-value">x{formatNumber(engagementMultiplier)}</span>
-          </div>
-        </div>
+        <StatBreakdown stat={clickValue} baseLabel="Base Click Value" />
       </div>
       
       <div className="tooltip-section">
         <div className="tooltip-breakdown">
           <div className="tooltip-breakdown-item tooltip-total">
             <span className="tooltip-breakdown-label">Total per Click:</span>
-            <span className="tooltip-breakdown-value">{formatNumber(totalMultiplier)}</span>
+            <span className="tooltip-breakdown-value">{formatNumber(clickValue.value)}</span>
           </div>
         </div>
       </div>
       
       <div className="tooltip-section">
         <div className="tooltip-description">
-          Each click generates this many clicks based on your upgrades and strategy points.
+          Each click generates this many clicks based on your upgrades, strategy points, engagement and bonuses.
         </div>
       </div>
     </div>
@@ -1,11 +1,12 @@
 import { useState } from 'react'
-import { getBaseClickBoost, cycleBaseClickBoost, type BaseClickMode } from '../stores/gameStore'
+import type { BaseClickMode } from '../types/gameTypes'
+import { gameEngine } from '../engine/gameEngineInstance'
 
 export function BaseClickToggle() {
-  const [currentBoost, setCurrentBoost] = useState<BaseClickMode>(getBaseClickBoost())
+  const [currentBoost, setCurrentBoost] = useState<BaseClickMode>(gameEngine.getBaseClickBoost())
   
   const handleToggle = () => {
-    const newBoost = cycleBaseClickBoost()
+    const newBoost = gameEngine.cycleBaseClickBoost()
     setCurrentBoost(newBoost)
   }
   
@@ -1,41 +1,30 @@
-import { useGenerators, useGameActions, useViewsPerSecond, useClicksPerSecondFromViews } from '../stores/gameStore'
-import { gameEngine } from '../engine/gameEngine'
+import { useBuyAmount, useGameState, useGenerators, useGameActions, useViewsPerSecond, useClicksPerSecondFromViews } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { getGeneratorMultiplier, getGeneratorProduction } from '../managers/ModifierPipeline'
+import { getNextMilestone } from '../data/generatorBonuses'
+import { getBuyAmount } from '../utils/cost'
 import { formatNumber, formatInteger } from '../utils/numberFormatter'
-import { decimal, calculateStrategyPointsMultiplier } from '../utils/decimal'
 import TrafficSourcesTooltip from './TrafficSourcesTooltip'
 
 export function GeneratorList() {
+  const gameState = useGameState()
   const generators = useGenerators()
+  const buyAmount = useBuyAmount()
   const { setGameState } = useGameActions()
-  const baseViewsPerSecond = useViewsPerSecond()
-  const baseClicksPerSecondFromViews = useClicksPerSecondFromViews()
-  
-  // Apply strategy points bonus to the rates
-  const gameState = gameEngine.getGameState()
-  const strategyBonus = calculateStrategyPointsMultiplier(gameState.prestigePoints)
-  const viewsPerSecond = baseViewsPerSecond.times(strategyBonus)
-  const clicksPerSecondFromViews = baseClicksPerSecondFromViews.times(strategyBonus)
+  const viewsPerSecond = useViewsPerSecond()
+  const clicksPerSecondFromViews = useClicksPerSecondFromViews()
 
   // Filter to only show unlocked generators
   const visibleGenerators = generators.filter(generator => generator.unlocked)
 
-  const handlePurchase = (generatorId: string) => {
-    const success = gameEngine.purchaseGenerator(generatorId, 1)
+  const handlePurchase = (generatorId: string, amount: number) => {
+    const success = gameEngine.purchaseGenerator(generatorId, amount)
     if (success) {
       // Force a re-render by updating the game state
       setGameState(gameEngine.getGameState())
     }
   }
 
-  const handleMaxPurchase = (generatorId: string) => {
-    const purchased = gameEngine.purchaseMaxGenerators(generatorId)
-    if (purchased > 0) {
-      console.log(`Purchased ${purchased} generators`)
-      // Force a re-render by updating the game state
-      setGameState(gameEngine.getGameState())
-    }
-  }
-
   return (
     <div className="generator-list">
       {/* TODO: Section title will change dynamically through game progression */}
@@ -52,12 +41,15 @@ export function GeneratorList() {
       ) : (
         <div className="generator-grid">
           {visibleGenerators.map((generator) => {
-            const cost = gameEngine.getGeneratorCost(generator, 1)
-            const canAfford = gameEngine.canAffordGenerator(generator, 1)
-            const maxAffordable = gameEngine.getMaxAffordableGenerators(generator)
-            
-            // Calculate production per second
-            const productionPerSecond = decimal(generator.baseProduction).times(generator.owned || 0)
+            // Production per second with this generator's upgrades, milestones and synergies applied
+            const generatorMultiplier = getGeneratorMultiplier(gameState, generator)
+            const productionPerSecond = getGeneratorProduction(gameState, generator).value
+            const nextMilestone = getNextMilestone(generator.owned)
+
+            // Batch picked by the shared buy amount, priced as one bulk purchase
+            const amount = getBuyAmount(buyAmount, generator, generator.owned, gameState.currency, { milestone: nextMilestone?.owned })
+            const cost = gameEngine.getGeneratorCost(generator, amount)
+            const canAfford = gameEngine.canAffordGenerator(generator, amount)
 
             return (
               <div
@@ -70,20 +62,11 @@ export function GeneratorList() {
                     <div className="generator-buttons">
                       <button
                         className={`buy-button-small ${canAfford ? 'can-afford' : 'cannot-afford'}`}
-                        onClick={() => handlePurchase(generator.id)}
+                        onClick={() => handlePurchase(generator.id, amount)}
                         disabled={!canAfford}
                       >
-                        Buy for {formatInteger(cost)} clicks
+                        Buy {formatInteger(amount)} for {formatInteger(cost)} clicks → {formatInteger(generator.owned + amount)}
                       </button>
-                      {maxAffordable > 1 && (
-                        <button
-                          className={`buy-button-small max-buy ${maxAffordable > 0 ? 'can-afford' : 'cannot-afford'}`}
-                          onClick={() => handleMaxPurchase(generator.id)}
-                          disabled={maxAffordable === 0}
-                        >
-                          Max ({maxAffordable})
-                        </button>
-                      )}
                     </div>
                   </div>
                   <div className="generator-owned">
@@ -93,7 +76,7 @@ export function GeneratorList() {
                 
                 <div className="generator-details-row">
                   <p className="generator-description">
-                    {generator.description} ({formatNumber(generator.baseProduction)}/sec each)
+                    {generator.description} ({formatNumber(generator.baseProduction.times(generatorMultiplier))}/sec each)
                   </p>
                   <div className="generator-stats">
                     <div className="generator-production">
@@ -102,6 +85,24 @@ export function GeneratorList() {
                         {formatInteger(productionPerSecond)}/sec
                       </span>
                     </div>
+                    {generatorMultiplier.greaterThan(1) && (
+                      <div className="generator-multiplier">
+                        <span style={{ color: '#888888' }}>Multiplier: </span>
+                        <span style={{ color: '#4caf50' }}>x{formatNumber(generatorMultiplier)}</span>
+                      </div>
+                    )}
+                    {nextMilestone && (
+                      <div className="generator-milestone">
+                        <span style={{ color: '#888888' }}>Next milestone: </span>
+                        {formatInteger(generator.owned)}/{formatInteger(nextMilestone.owned)} (x{nextMilestone.multiplier})
+                        <div className="generator-milestone-bar">
+                          <div
+                            className="generator-milestone-fill"
+                            style={{ width: `${Math.min(100, (generator.owned / nextMilestone.owned) * 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,27 +1,18 @@
-import React, { useMemo } from 'react'
-import { useInfluence, usePrestigePoints } from '../stores/gameStore'
+import { useInfluence, useReach } from '../stores/gameStore'
 import { formatInteger } from '../utils/numberFormatter'
-import { decimal } from '../utils/decimal'
-import { gameEngine } from '../engine/gameEngine'
+import { gameEngine } from '../engine/gameEngineInstance'
 
 export function InfluenceGauge() {
   const influence = useInfluence()
-  const prestigePoints = usePrestigePoints()
+  // Re-render when Reach changes so the button tracks affordability
+  useReach()
   
-  const unlockInfo = useMemo(() => {
-    // Threshold for next influence: 100 × 2^current_influence
-    const currentInfluence = influence.toNumber()
-    const threshold = decimal(100).times(decimal(2).pow(currentInfluence))
-    const canUnlock = prestigePoints.greaterThanOrEqualTo(threshold)
-    
-    return {
-      threshold,
-      canUnlock
-    }
-  }, [influence, prestigePoints])
+  // Next point of influence costs more reach each time
+  const cost = gameEngine.getInfluenceCost()
+  const canPurchase = gameEngine.canPurchaseInfluence()
   
-  const handleUnlock = () => {
-    if (!unlockInfo.canUnlock) return
+  const handlePurchase = () => {
+    if (!canPurchase) return
     
     // Use game engine method for proper state management
     gameEngine.purchaseInfluence()
@@ -33,14 +24,14 @@ export function InfluenceGauge() {
       <div className="card-value">{formatInteger(influence.floor())}</div>
       <div className="card-footer">
         <button 
-          className={`buy-button-small ${unlockInfo.canUnlock ? 'can-afford' : 'cannot-afford'}`}
-          onClick={handleUnlock}
-          disabled={!unlockInfo.canUnlock}
+          className={`buy-button-small ${canPurchase ? 'can-afford' : 'cannot-afford'}`}
+          onClick={handlePurchase}
+          disabled={!canPurchase}
           style={{ fontSize: '0.6rem', padding: '0.2rem 0.4rem', minWidth: '60px' }}
         >
-          Unlock at {formatInteger(unlockInfo.threshold)} SP
+          Buy for {formatInteger(cost)} reach
         </button>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,68 @@
+import { useInfluenceGenerators, useReach } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { decimal } from '../utils/decimal'
+import { formatInteger, formatNumber } from '../utils/numberFormatter'
+
+/**
+ * Dimension 2 generators, bought with Reach
+ */
+export function InfluenceGeneratorList() {
+  const generators = useInfluenceGenerators()
+  // Re-render when Reach changes so affordability stays current
+  useReach()
+
+  const reachPerSecond = gameEngine.getReachPerSecond()
+  const visibleGenerators = generators.filter(generator => generator.unlocked)
+
+  return (
+    <div className="generator-list">
+      <h2>
+        Power Base
+        <span className="section-summary"> ({formatNumber(reachPerSecond)} reach/sec)</span>
+      </h2>
+      <div className="generator-grid">
+        {visibleGenerators.map(generator => {
+          const cost = gameEngine.getInfluenceGeneratorCost(generator)
+          const canAfford = gameEngine.canAffordInfluenceGenerator(generator)
+          const productionPerSecond = decimal(generator.baseProduction).times(generator.owned || 0)
+
+          return (
+            <div key={generator.id} className="generator-item">
+              <div className="generator-header">
+                <div className="generator-title-row">
+                  <h3 className="generator-name">{generator.name}</h3>
+                  <div className="generator-buttons">
+                    <button
+                      className={`buy-button-small ${canAfford ? 'can-afford' : 'cannot-afford'}`}
+                      onClick={() => gameEngine.purchaseInfluenceGenerator(generator.id)}
+                      disabled={!canAfford}
+                    >
+                      Buy for {formatInteger(cost)} reach
+                    </button>
+                  </div>
+                </div>
+                <div className="generator-owned">
+                  Owned: {formatInteger(generator.owned)}
+                </div>
+              </div>
+
+              <div className="generator-details-row">
+                <p className="generator-description">
+                  {generator.description} ({formatNumber(generator.baseProduction)}/sec each)
+                </p>
+                <div className="generator-stats">
+                  <div className="generator-production">
+                    <span style={{ color: '#888888' }}>Reach: </span>
+                    <span style={{ color: generator.owned > 0 ? '#4caf50' : '#888888' }}>
+                      {formatInteger(productionPerSecond)}/sec
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { useInfluenceUpgrades, useReach } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { decimal } from '../utils/decimal'
+import { formatInteger, formatNumber } from '../utils/numberFormatter'
+
+/**
+ * Dimension 2 upgrades, bought with Reach
+ */
+export function InfluenceUpgradeList() {
+  const upgrades = useInfluenceUpgrades()
+  // Re-render when Reach changes so affordability stays current
+  useReach()
+
+  const reachPerClick = gameEngine.getReachPerClick()
+  const visibleUpgrades = upgrades.filter(upgrade => upgrade.unlocked)
+
+  return (
+    <div className="upgrade-list">
+      <h2>
+        Policy Agenda
+        <span className="section-summary"> ({formatNumber(reachPerClick)} reach per click)</span>
+      </h2>
+      {visibleUpgrades.length === 0 ? (
+        <div className="upgrade-grid">
+          <p style={{ textAlign: 'center' }}>None available - Build your reach to unlock them!</p>
+        </div>
+      ) : (
+        <div className="upgrade-grid">
+          {visibleUpgrades.map(upgrade => {
+            const cost = gameEngine.getInfluenceUpgradeCost(upgrade)
+            const canAfford = gameEngine.canAffordInfluenceUpgrade(upgrade)
+            const isMaxed = upgrade.currentPurchases >= upgrade.maxPurchases
+            const level = decimal(upgrade.effect.value).pow(upgrade.currentPurchases)
+
+            return (
+              <div key={upgrade.id} className={`upgrade-item ${isMaxed ? 'maxed' : ''}`}>
+                <div className="upgrade-header">
+                  <div className="upgrade-title-row">
+                    <h3 className="upgrade-name">{upgrade.name}</h3>
+                    {isMaxed ? (
+                      <div className="upgrade-maxed-small">MAX</div>
+                    ) : (
+                      <div className="upgrade-buttons">
+                        <button
+                          className={`buy-button-small ${canAfford ? 'can-afford' : 'cannot-afford'}`}
+                          onClick={() => gameEngine.purchaseInfluenceUpgrade(upgrade.id)}
+                          disabled={!canAfford}
+                        >
+                          Buy for {formatInteger(cost)} reach
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="upgrade-level">
+                    {formatInteger(upgrade.currentPurchases)}/{formatInteger(upgrade.maxPurchases)}
+                  </div>
+                </div>
+
+                <div className="upgrade-details-row">
+                  <p className="upgrade-description">{upgrade.description}</p>
+                  <div className="upgrade-stats">
+                    <div className="upgrade-effect">
+                      <span style={{ color: '#888888' }}>Level: </span>
+                      <span style={{ color: upgrade.currentPurchases > 0 ? '#4caf50' : '#888888' }}>
+                        x{formatNumber(level)}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import type { MetaPrestigeUpgrade } from '../types/gameTypes'
+import { useGameState, useMetaPrestigeUpgrades } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { META_PRESTIGE_REQUIRED_PRESTIGES, META_PRESTIGE_REQUIRED_POINTS } from '../engine/gameEngine'
+import { decimal } from '../utils/decimal'
+import { formatInteger, formatNumber } from '../utils/numberFormatter'
+import './PrestigeUpgradeShop.css'
+
+export function MetaPrestigePanel() {
+  const [open, setOpen] = useState(false)
+  const gameState = useGameState()
+  const upgrades = useMetaPrestigeUpgrades()
+
+  const canMetaPrestige = gameEngine.canMetaPrestige()
+  const metaPrestigeGain = gameEngine.calculateMetaPrestigeGain()
+
+  const handleMetaPrestige = () => {
+    if (!canMetaPrestige) return
+
+    const confirmMessage = `Are you sure you want to Rebrand?\n\nThis resets everything, including Strategy Points and the SP shop, but grants you ${formatInteger(metaPrestigeGain)} legacy points.\n\nEngagement, achievements and legacy upgrades are kept.`
+
+    if (window.confirm(confirmMessage)) {
+      gameEngine.performMetaPrestige()
+    }
+  }
+
+  const describeLevel = (upgrade: MetaPrestigeUpgrade) =>
+    `x${formatNumber(decimal(upgrade.effect.value).pow(upgrade.currentPurchases))}`
+
+  return (
+    <div className="metric-card prestige-shop">
+      <div className="card-header">Legacy</div>
+      <div className="card-value">{formatInteger(gameState.metaPrestigePoints)}</div>
+      <div className="card-footer">
+        <button className="buy-button-small can-afford" onClick={() => setOpen(!open)}>
+          {open ? 'Close' : 'Rebrand'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="prestige-shop-panel">
+          <div className="prestige-shop-item">
+            <div className="prestige-shop-item-header">
+              <span className="prestige-shop-item-name">Rebrand</span>
+              <span className="prestige-shop-item-level">{formatInteger(gameState.totalMetaPrestiges)} so far</span>
+            </div>
+            <p className="prestige-shop-item-description">
+              Requires {META_PRESTIGE_REQUIRED_PRESTIGES} strategy shifts ({formatInteger(gameState.totalPrestiges)}/{META_PRESTIGE_REQUIRED_PRESTIGES})
+              and {formatInteger(META_PRESTIGE_REQUIRED_POINTS)} strategy points ({formatInteger(gameState.prestigePoints)}/{formatInteger(META_PRESTIGE_REQUIRED_POINTS)})
+            </p>
+            <div className="prestige-shop-item-footer">
+              <span className="rate-positive">+{formatInteger(metaPrestigeGain)} legacy</span>
+              <button
+                className={`buy-button-small ${canMetaPrestige ? 'can-afford' : 'cannot-afford'}`}
+                onClick={handleMetaPrestige}
+                disabled={!canMetaPrestige}
+              >
+                Rebrand
+              </button>
+            </div>
+          </div>
+
+          <div className="prestige-shop-balance">{formatInteger(gameState.metaPrestigePoints)} legacy points available</div>
+          {upgrades.map(upgrade => {
+            const isMaxed = upgrade.currentPurchases >= upgrade.maxPurchases
+            const canAfford = gameEngine.canAffordMetaPrestigeUpgrade(upgrade)
+            const cost = gameEngine.getMetaPrestigeUpgradeCost(upgrade)
+
+            return (
+              <div key={upgrade.id} className={`prestige-shop-item ${isMaxed ? 'maxed' : ''}`}>
+                <div className="prestige-shop-item-header">
+                  <span className="prestige-shop-item-name">{upgrade.name}</span>
+                  <span className="prestige-shop-item-level">
+                    {formatInteger(upgrade.currentPurchases)}/{formatInteger(upgrade.maxPurchases)}
+                  </span>
+                </div>
+                <p className="prestige-shop-item-description">{upgrade.description}</p>
+                <div className="prestige-shop-item-footer">
+                  <span className="rate-positive">{describeLevel(upgrade)}</span>
+                  {isMaxed ? (
+                    <span className="upgrade-maxed-small">MAX</span>
+                  ) : (
+                    <button
+                      className={`buy-button-small ${canAfford ? 'can-afford' : 'cannot-afford'}`}
+                      onClick={() => gameEngine.purchaseMetaPrestigeUpgrade(upgrade.id)}
+                      disabled={!canAfford}
+                    >
+                      Buy for {formatInteger(cost)} legacy
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
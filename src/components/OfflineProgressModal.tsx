@@ -0,0 +1,71 @@
+import { useSettings, useGameState } from '../stores/gameStore'
+import { useOfflineProgress } from '../hooks/useOfflineProgress'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { formatNumber, formatInteger, formatTime } from '../utils/numberFormatter'
+import './OfflineProgressModal.css'
+
+export function OfflineProgressModal() {
+  const settings = useSettings()
+  const gameState = useGameState()
+  const { progress, dismiss } = useOfflineProgress()
+
+  if (!progress || !settings.offlineProgressNotification) {
+    return null
+  }
+
+  // Nothing to report until offline progress has been unlocked and something was earned
+  if (progress.idleEarnings.lessThanOrEqualTo(0) && progress.currencyEarned.lessThanOrEqualTo(0)) {
+    return null
+  }
+
+  const handleDontShowAgain = () => {
+    gameEngine.updateSettings({ offlineProgressNotification: false })
+    dismiss()
+  }
+
+  return (
+    <div className="offline-modal-backdrop" onClick={dismiss}>
+      <div
+        className="offline-modal"
+        role="dialog"
+        aria-labelledby="offline-modal-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="offline-modal-title" className="offline-modal-title">While you were away</h3>
+
+        <div className="offline-modal-row">
+          <span>Time away</span>
+          <span>{formatTime(progress.timeOffline)}</span>
+        </div>
+        <div className="offline-modal-row">
+          <span>Views earned</span>
+          <span>{formatNumber(progress.idleEarnings)}</span>
+        </div>
+        <div className="offline-modal-row">
+          <span>Clicks earned</span>
+          <span>{formatInteger(progress.currencyEarned)}</span>
+        </div>
+
+        {progress.cappedByTime && (
+          <div className="offline-modal-note">
+            Only the first {formatTime(gameState.maxOfflineHours * 3600)} counted
+          </div>
+        )}
+        {progress.cappedByEfficiency && (
+          <div className="offline-modal-note">
+            Offline production runs at {Math.round(gameState.offlineProgressRate * 100)}% efficiency
+          </div>
+        )}
+
+        <div className="offline-modal-actions">
+          <button className="offline-modal-secondary" onClick={handleDontShowAgain}>
+            Don't show again
+          </button>
+          <button className="offline-modal-primary" onClick={dismiss}>
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
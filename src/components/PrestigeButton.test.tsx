@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, fireEvent } from '@testing-library/react'
 import { PrestigeButton } from './PrestigeButton'
 import { useGameStore } from '../stores/gameStore'
-import { gameEngine } from '../engine/gameEngine'
+import { gameEngine } from '../engine/gameEngineInstance'
 import { decimal } from '../utils/decimal'
 
 // Mock the game store
@@ -12,7 +12,7 @@ vi.mock('../stores/gameStore', () => ({
 }))
 
 // Mock the game engine
-vi.mock('../engine/gameEngine', () => ({
+vi.mock('../engine/gameEngineInstance', () => ({
   gameEngine: {
     canPrestige: vi.fn(),
     calculatePrestigeGain: vi.fn(),
@@ -1,6 +1,6 @@
 import { useMemo } from 'react'
 import { useGameStore } from '../stores/gameStore'
-import { gameEngine } from '../engine/gameEngine'
+import { gameEngine } from '../engine/gameEngineInstance'
 import { formatNumber, formatInteger, formatIntegerClean } from '../utils/numberFormatter'
 import { decimal } from '../utils/decimal'
 
@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import type { PrestigeUpgrade } from '../types/gameTypes'
+import { usePrestigeUpgrades, usePrestigePoints, useGameState } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { formatInteger } from '../utils/numberFormatter'
+import { decimal } from '../utils/decimal'
+import './PrestigeUpgradeShop.css'
+
+/**
+ * Current effect of a prestige upgrade, for the shop listing
+ */
+function describeLevel(upgrade: PrestigeUpgrade, offlineProgressRate: number, maxOfflineHours: number): string {
+  switch (upgrade.effect.type) {
+    case 'offlineRate':
+      return `${Math.round(offlineProgressRate * 100)}% offline`
+    case 'offlineTime':
+      return `${maxOfflineHours}h cap`
+    case 'globalMultiplier':
+      return `x${decimal(upgrade.effect.value).pow(upgrade.currentPurchases).toFixed(2)}`
+    default:
+      return `${upgrade.currentPurchases}`
+  }
+}
+
+export function PrestigeUpgradeShop() {
+  const [open, setOpen] = useState(false)
+  const upgrades = usePrestigeUpgrades()
+  const prestigePoints = usePrestigePoints()
+  const gameState = useGameState()
+
+  const owned = upgrades.reduce((total, upgrade) => total + upgrade.currentPurchases, 0)
+
+  return (
+    <div className="metric-card prestige-shop">
+      <div className="card-header">SP Shop</div>
+      <div className="card-value">{formatInteger(owned)}</div>
+      <div className="card-footer">
+        <button className="buy-button-small can-afford" onClick={() => setOpen(!open)}>
+          {open ? 'Close' : 'Open shop'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="prestige-shop-panel">
+          <div className="prestige-shop-balance">{formatInteger(prestigePoints)} SP available</div>
+          {upgrades.map(upgrade => {
+            const isMaxed = upgrade.currentPurchases >= upgrade.maxPurchases
+            const canAfford = gameEngine.canAffordPrestigeUpgrade(upgrade)
+            const cost = gameEngine.getPrestigeUpgradeCost(upgrade)
+
+            return (
+              <div key={upgrade.id} className={`prestige-shop-item ${isMaxed ? 'maxed' : ''}`}>
+                <div className="prestige-shop-item-header">
+                  <span className="prestige-shop-item-name">{upgrade.name}</span>
+                  <span className="prestige-shop-item-level">
+                    {formatInteger(upgrade.currentPurchases)}/{formatInteger(upgrade.maxPurchases)}
+                  </span>
+                </div>
+                <p className="prestige-shop-item-description">{upgrade.description}</p>
+                <div className="prestige-shop-item-footer">
+                  <span className="rate-positive">
+                    {describeLevel(upgrade, gameState.offlineProgressRate, gameState.maxOfflineHours)}
+                  </span>
+                  {isMaxed ? (
+                    <span className="upgrade-maxed-small">MAX</span>
+                  ) : (
+                    <button
+                      className={`buy-button-small ${canAfford ? 'can-afford' : 'cannot-afford'}`}
+                      onClick={() => gameEngine.purchasePrestigeUpgrade(upgrade.id)}
+                      disabled={!canAfford}
+                    >
+                      Buy for {formatInteger(cost)} SP
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { useGameStore, useRestoreError } from '../stores/gameStore'
+import './SaveRestoreNotice.css'
+
+/**
+ * Explains why the saved game was not loaded; nothing is saved until the player continues
+ */
+export function SaveRestoreNotice() {
+  const restoreError = useRestoreError()
+
+  if (!restoreError) {
+    return null
+  }
+
+  return (
+    <div className="save-restore-backdrop">
+      <div className="save-restore-notice" role="alertdialog" aria-labelledby="save-restore-title">
+        <h3 id="save-restore-title" className="save-restore-title">Saved game not loaded</h3>
+        <p className="save-restore-text">{restoreError}</p>
+        <p className="save-restore-text">
+          The save has been kept as it was, and nothing will be saved over it until you continue.
+          Continuing starts a new game; a copy of the old save stays in this browser.
+        </p>
+        <button className="save-restore-button" onClick={() => useGameStore.getState().dismissRestoreError()}>
+          Continue with a new game
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react'
+import type { SaveSlot } from '../types/gameTypes'
+import { gameEngine } from '../engine/gameEngineInstance'
+import { decimal } from '../utils/decimal'
+import { formatInteger, formatNumber } from '../utils/numberFormatter'
+import './SaveSlotsPage.css'
+
+interface SaveSlotsPageProps {
+  onClose: () => void
+}
+
+export function SaveSlotsPage({ onClose }: SaveSlotsPageProps) {
+  const [slots, setSlots] = useState<SaveSlot[]>(() => gameEngine.listSaveSlots())
+  const [name, setName] = useState('')
+  const [message, setMessage] = useState('')
+
+  const refresh = () => setSlots(gameEngine.listSaveSlots())
+
+  const handleSave = () => {
+    const slot = gameEngine.saveToSlot(name.trim() || `Save ${slots.filter(s => !s.backupReason).length + 1}`)
+    setName('')
+    setMessage(`Saved to "${slot.name}"`)
+    refresh()
+  }
+
+  const handleOverwrite = (slot: SaveSlot) => {
+    if (!window.confirm(`Overwrite "${slot.name}" with the current game?`)) return
+    gameEngine.saveToSlot(slot.name, slot.id)
+    setMessage(`Saved to "${slot.name}"`)
+    refresh()
+  }
+
+  const handleRestore = (slot: SaveSlot) => {
+    if (!window.confirm(`Restore "${slot.name}"?\n\nYour current game is backed up first.`)) return
+    const result = gameEngine.restoreSaveSlot(slot.id)
+    setMessage(result.status === 'ok' ? `Restored "${slot.name}"` : result.error)
+    refresh()
+  }
+
+  const handleDuplicate = (slot: SaveSlot) => {
+    gameEngine.duplicateSaveSlot(slot.id)
+    refresh()
+  }
+
+  const handleDelete = (slot: SaveSlot) => {
+    if (!window.confirm(`Delete "${slot.name}"? This cannot be undone.`)) return
+    gameEngine.deleteSaveSlot(slot.id)
+    refresh()
+  }
+
+  const renderSlot = (slot: SaveSlot) => (
+    <div key={slot.id} className={`save-slot ${slot.backupReason ? 'backup' : ''}`}>
+      <div className="save-slot-header">
+        <span className="save-slot-name">{slot.name}</span>
+        <span className="save-slot-time">{new Date(slot.savedAt).toLocaleString()}</span>
+      </div>
+      <div className="save-slot-stats">
+        Dimension {slot.stats.currentDimension}
+        {' · '}{formatNumber(decimal(slot.stats.currency))} clicks
+        {' · '}{formatNumber(decimal(slot.stats.totalEarned))} earned
+        {' · '}{formatInteger(decimal(slot.stats.prestigePoints))} SP
+        {' · '}{formatInteger(slot.stats.totalPrestiges)} shifts
+      </div>
+      <div className="save-slot-actions">
+        <button className="buy-button-small can-afford" onClick={() => handleRestore(slot)}>Restore</button>
+        {!slot.backupReason && (
+          <button className="buy-button-small can-afford" onClick={() => handleOverwrite(slot)}>Overwrite</button>
+        )}
+        <button className="buy-button-small can-afford" onClick={() => handleDuplicate(slot)}>Duplicate</button>
+        <button className="buy-button-small cannot-afford" onClick={() => handleDelete(slot)}>Delete</button>
+      </div>
+    </div>
+  )
+
+  const savedSlots = slots.filter(slot => !slot.backupReason)
+  const backups = slots.filter(slot => slot.backupReason)
+
+  return (
+    <div className="save-slots-backdrop" onClick={onClose}>
+      <div
+        className="save-slots-page"
+        role="dialog"
+        aria-labelledby="save-slots-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="save-slots-header">
+          <h2 id="save-slots-title">Saves</h2>
+          <span className="save-slots-message">{message}</span>
+          <button className="mode-toggle-button" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="save-slots-new">
+          <input
+            type="text"
+            placeholder="Slot name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          />
+          <button className="buy-button-small can-afford" onClick={handleSave}>Save current game</button>
+        </div>
+
+        <section className="save-slots-section">
+          <h3>Save slots</h3>
+          {savedSlots.length === 0 ? <p className="save-slots-empty">No saved slots yet</p> : savedSlots.map(renderSlot)}
+        </section>
+
+        <section className="save-slots-section">
+          <h3>Automatic backups</h3>
+          {backups.length === 0 ? <p className="save-slots-empty">Backups are taken before resets, shifts, imports and bot runs</p> : backups.map(renderSlot)}
+        </section>
+      </div>
+    </div>
+  )
+}
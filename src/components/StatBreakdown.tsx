@@ -0,0 +1,30 @@
+import React from 'react'
+import type { DerivedStat } from '../types/gameTypes'
+import { formatNumber } from '../utils/numberFormatter'
+
+interface StatBreakdownProps {
+  stat: DerivedStat
+  baseLabel: string
+}
+
+/**
+ * Tooltip rows for a derived stat: its base value, then every modifier in the order it applies
+ */
+export const StatBreakdown: React.FC<StatBreakdownProps> = ({ stat, baseLabel }) => (
+  <div className="tooltip-breakdown">
+    <div className="tooltip-breakdown-item">
+      <span className="tooltip-breakdown-label">{baseLabel}:</span>
+      <span className="tooltip-breakdown-value">{formatNumber(stat.base)}</span>
+    </div>
+    {stat.breakdown.map((modifier, index) => (
+      <div key={`${modifier.source}-${modifier.label}-${index}`} className="tooltip-breakdown-item">
+        <span className="tooltip-breakdown-label">{modifier.label}:</span>
+        <span className="tooltip-breakdown-value">
+          {modifier.operation === 'add' ? '+' : 'x'}{formatNumber(modifier.value)}
+        </span>
+      </div>
+    ))}
+  </div>
+)
+
+export default StatBreakdown
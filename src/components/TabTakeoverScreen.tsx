@@ -0,0 +1,30 @@
+import type { TabRole } from '../engine/tabLeader'
+import { tabLeader } from '../engine/gameEngineInstance'
+import './TabTakeoverScreen.css'
+
+interface TabTakeoverScreenProps {
+  role: Exclude<TabRole, 'leader'>
+}
+
+/**
+ * Shown instead of the game while another tab is running it
+ */
+export function TabTakeoverScreen({ role }: TabTakeoverScreenProps) {
+  return (
+    <div className="tab-takeover">
+      <div className="tab-takeover-panel" role="dialog" aria-labelledby="tab-takeover-title">
+        <h3 id="tab-takeover-title" className="tab-takeover-title">Game is open elsewhere</h3>
+        <p className="tab-takeover-text">
+          Asymptote is running in another tab or window. Only one can run at a time, so progress is never counted twice.
+        </p>
+        <button
+          className="tab-takeover-button"
+          onClick={() => tabLeader.takeOver()}
+          disabled={role === 'claiming'}
+        >
+          {role === 'claiming' ? 'Taking over...' : 'Take over here'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,18 +1,12 @@
-import React, { useState, useEffect, useRef } from 'react'
-import { formatNumber } from '../utils/numberFormatter'
+import React from 'react'
+import type { TemporaryEffect } from '../types/gameTypes'
 
 /**
  * Reusable progress bar component for temporary effects
+ * Shows the first effect's remaining game time, which the engine counts down every step
  */
 interface TemporaryEffectProgressBarProps {
-  effects: Array<{
-    id: string
-    name: string
-    type: string
-    value: any
-    startTime: number
-    duration: number
-  }>
+  effects: TemporaryEffect[]
   className?: string
 }
 
@@ -20,56 +14,11 @@ export const TemporaryEffectProgressBar: React.FC<TemporaryEffectProgressBarProp
   effects, 
   className = '' 
 }) => {
-  const [progress, setProgress] = useState(100)
-  const [timeRemaining, setTimeRemaining] = useState(0)
-  const [currentEffect, setCurrentEffect] = useState<any>(null)
-  const animationRef = useRef<number>()
+  if (effects.length === 0) return null
   
-  // Store the effect when it first appears
-  useEffect(() => {
-    if (effects.length > 0 && !currentEffect) {
-      setCurrentEffect(effects[0])
-    }
-  }, [effects, currentEffect])
-  
-  useEffect(() => {
-    if (!currentEffect) return
-    
-    const updateProgress = () => {
-      const now = Date.now()
-      const elapsed = now - currentEffect.startTime
-      const remaining = Math.max(0, currentEffect.duration - elapsed)
-      // Progress represents time remaining (shrinks from left to right)
-      const progressPercent = Math.max(0, (remaining / currentEffect.duration) * 100)
-      
-      setProgress(progressPercent)
-      setTimeRemaining(Math.ceil(remaining / 1000))
-      
-      // Continue animation if there's time remaining
-      if (remaining > 0) {
-        animationRef.current = requestAnimationFrame(updateProgress)
-      } else {
-        // Ensure it goes to 0 when done and clear the effect
-        setProgress(0)
-        setTimeRemaining(0)
-        setCurrentEffect(null)
-      }
-    }
-    
-    // Start the animation
-    animationRef.current = requestAnimationFrame(updateProgress)
-    
-    // Cleanup function
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
-      }
-    }
-  }, [currentEffect])
-  
-  if (!currentEffect && effects.length === 0) return null
-  
-  const effect = currentEffect || effects[0]
+  const effect = effects[0]
+  // Progress represents time remaining (shrinks from left to right)
+  const progress = effect.duration > 0 ? Math.max(0, (effect.remaining / effect.duration) * 100) : 0
   
   return (
     <div className={`effect-progress-bar ${className}`}>
@@ -83,4 +32,4 @@ export const TemporaryEffectProgressBar: React.FC<TemporaryEffectProgressBarProp
   )
 }
 
-export default TemporaryEffectProgressBar
\ No newline at end of file
+export default TemporaryEffectProgressBar
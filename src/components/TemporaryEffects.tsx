@@ -1,6 +1,7 @@
 import React from 'react'
 import { useGameStore } from '../stores/gameStore'
 import { formatNumber } from '../utils/numberFormatter'
+import { TEMPORARY_EFFECTS } from '../data/temporaryEffects'
 
 export const TemporaryEffects: React.FC = () => {
   const temporaryEffects = useGameStore((state) => state.gameState.temporaryEffects)
@@ -12,17 +13,15 @@ export const TemporaryEffects: React.FC = () => {
   return (
     <div className="temporary-effects">
       {temporaryEffects.map(effect => {
-        const now = Date.now()
-        const elapsed = now - effect.startTime
-        const remaining = Math.max(0, effect.duration - elapsed)
-        const remainingSeconds = Math.ceil(remaining / 1000)
+        const definition = TEMPORARY_EFFECTS[effect.kind]
+        const remainingSeconds = Math.ceil(Math.max(0, effect.remaining) / 1000)
         
         return (
           <div key={effect.id} className="temporary-effect">
-            <div className="effect-name">{effect.name}</div>
+            <div className="effect-name">{definition.name}</div>
             <div className="effect-details">
-              {effect.type === 'clickMultiplier' ? 'Click ×' : ''}
-              {formatNumber(effect.value)} ({remainingSeconds}s)
+              {definition.type === 'clickMultiplier' ? 'Click ×' : 'Idle ×'}
+              {formatNumber(definition.multiplier(effect.params))} ({remainingSeconds}s)
             </div>
           </div>
         )
@@ -1,41 +1,27 @@
 import React from 'react'
-import { gameEngine } from '../engine/gameEngine'
 import { formatNumber } from '../utils/numberFormatter'
-import { calculateStrategyPointsMultiplier, calculateViewToClickEfficiency, decimal } from '../utils/decimal'
-import { useGenerators } from '../stores/gameStore'
+import { calculateStrategyPointsMultiplier, calculateViewToClickEfficiency } from '../utils/decimal'
+import { useGameState } from '../stores/gameStore'
+import { getDerivedStat } from '../managers/ModifierPipeline'
 import Tooltip from './Tooltip'
+import StatBreakdown from './StatBreakdown'
 
 interface TrafficSourcesTooltipProps {
   children: React.ReactNode
 }
 
 export const TrafficSourcesTooltip: React.FC<TrafficSourcesTooltipProps> = ({ children }) => {
-  const gameState = gameEngine.getGameState()
-  const generators = useGenerators()
+  const gameState = useGameState()
+  const viewsPerSecond = getDerivedStat(gameState, 'viewsPerSecond')
   
-  // Calculate base views per second from generators
-  let baseViewsPerSecond = decimal(0)
-  for (const generator of generators) {
-    if (generator.owned > 0) {
-      const generatorProduction = decimal(generator.baseProduction).times(generator.owned)
-      baseViewsPerSecond = baseViewsPerSecond.plus(generatorProduction)
-    }
-  }
-  
-  // Apply multipliers
-  const idleMultiplier = gameState.idleMultiplier
+  // Calculate view-to-click efficiency based on total earned clicks, prestige multiplier, and engagement
   const strategyBonus = calculateStrategyPointsMultiplier(gameState.prestigePoints)
   const engagementLevel = gameState.engagement
-  
-  // Calculate view-to-click efficiency based on total earned clicks, prestige multiplier, and engagement
   const efficiency = calculateViewToClickEfficiency(gameState.totalEarned, strategyBonus, engagementLevel)
   const efficiencyPercent = efficiency.times(100)
   const maxEfficiency = engagementLevel > 1 ? 100 : 50
   
-  // Calculate intermediate values
-  const viewsAfterMultiplier = baseViewsPerSecond.times(idleMultiplier)
-  const viewsAfterStrategy = viewsAfterMultiplier.times(strategyBonus)
-  const totalViewsPerSecond = viewsAfterStrategy.times(engagementLevel)
+  const totalViewsPerSecond = viewsPerSecond.value
   const clicksPerSecond = totalViewsPerSecond.times(efficiency)
   
   const tooltipContent = (
@@ -43,24 +29,7 @@ export const TrafficSourcesTooltip: React.FC<TrafficSourcesTooltipProps> = ({ ch
       <div className="tooltip-title">Traffic Sources Breakdown</div>
       
       <div className="tooltip-section">
-        <div className="tooltip-breakdown">
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Base Views/sec:</span>
-            <span className="tooltip-breakdown-value">{formatNumber(baseViewsPerSecond)}</span>
-          </div>
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Idle Multiplier:</span>
-            <span className="tooltip-breakdown-value">x{formatNumber(idleMultiplier)}</span>
-          </div>
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Strategy Points Bonus:</span>
-            <span className="tooltip-breakdown-value">x{formatNumber(strategyBonus)}</span>
-          </div>
-          <div className="tooltip-breakdown-item">
-            <span className="tooltip-breakdown-label">Engagement Multiplier:</span>
-            <span className="tooltip-breakdown-value">x{engagementLevel}</span>
-          </div>
-        </div>
+        <StatBreakdown stat={viewsPerSecond} baseLabel="Base Views/sec" />
       </div>
       
       <div className="tooltip-section">
@@ -1,34 +1,26 @@
 import React from 'react'
 import type { Upgrade } from '../types/gameTypes'
-import { useVisibleUpgrades, useCurrency } from '../stores/gameStore'
-import { gameEngine } from '../engine/gameEngine'
+import { useVisibleUpgrades, useCurrency, useGameState, useBuyAmount } from '../stores/gameStore'
+import { gameEngine } from '../engine/gameEngineInstance'
 import { formatNumber, formatInteger } from '../utils/numberFormatter'
-import { decimal, calculateStrategyPointsMultiplier } from '../utils/decimal'
+import { getBuyAmount } from '../utils/cost'
+import { getDerivedStat } from '../managers/ModifierPipeline'
 import EngagementMultiplierTooltip from './EngagementMultiplierTooltip'
 
 interface UpgradeItemProps {
   upgrade: Upgrade
-  canAfford: boolean
-  onPurchase: (upgradeId: string) => void
+  amount: number
+  onPurchase: (upgradeId: string, amount: number) => void
 }
 
-const UpgradeItem: React.FC<UpgradeItemProps> = ({ upgrade, canAfford, onPurchase }) => {
-  const cost = gameEngine.getUpgradeCost(upgrade)
+const UpgradeItem: React.FC<UpgradeItemProps> = ({ upgrade, amount, onPurchase }) => {
+  const cost = gameEngine.getUpgradeCost(upgrade, amount)
+  const canAfford = gameEngine.canAffordUpgrade(upgrade, amount)
   const isMaxed = upgrade.currentPurchases >= upgrade.maxPurchases
-  const maxAffordable = gameEngine.getMaxAffordableUpgrades(upgrade)
   
   // Calculate cumulative effect
   const cumulativeEffect = gameEngine.calculateUpgradeCumulativeEffect(upgrade)
   
-  const handleMaxPurchase = () => {
-    try {
-      const purchased = gameEngine.purchaseMaxUpgrades(upgrade.id)
-      console.log(`Purchased ${purchased} ${upgrade.name} upgrades`)
-    } catch (error) {
-      console.error('Error purchasing max upgrades:', error)
-    }
-  }
-  
   return (
     <div className={`upgrade-item ${isMaxed ? 'maxed' : ''}`}>
       <div className="upgrade-header">
@@ -38,20 +30,11 @@ const UpgradeItem: React.FC<UpgradeItemProps> = ({ upgrade, canAfford, onPurchas
             <div className="upgrade-buttons">
               <button 
                 className={`buy-button-small ${canAfford ? 'can-afford' : 'cannot-afford'}`}
-                onClick={() => onPurchase(upgrade.id)}
+                onClick={() => onPurchase(upgrade.id, amount)}
                 disabled={!canAfford}
               >
-                Buy for {formatInteger(cost)} clicks
+                Buy {formatInteger(amount)} for {formatInteger(cost)} clicks → {formatInteger(upgrade.currentPurchases + amount)}/{formatInteger(upgrade.maxPurchases)}
               </button>
-              {maxAffordable > 1 && (
-                <button 
-                  className={`buy-button-small max-buy ${maxAffordable > 0 ? 'can-afford' : 'cannot-afford'}`}
-                  onClick={handleMaxPurchase}
-                  disabled={maxAffordable === 0}
-                >
-                  Max ({maxAffordable})
-                </button>
-              )}
             </div>
           )}
           {isMaxed && (
@@ -92,16 +75,15 @@ const UpgradeItem: React.FC<UpgradeItemProps> = ({ upgrade, canAfford, onPurchas
 export const UpgradeList: React.FC = () => {
   const upgrades = useVisibleUpgrades()
   const currency = useCurrency()
+  const buyAmount = useBuyAmount()
   
-  // Calculate total click multiplier (base × multiplier × strategy bonus)
-  const gameState = gameEngine.getGameState()
-  const baseClickMultiplier = gameState.baseClickValue.times(gameState.clickMultiplier)
-  const strategyBonus = calculateStrategyPointsMultiplier(gameState.prestigePoints)
-  const totalClickMultiplier = baseClickMultiplier.times(strategyBonus)
+  // Clicks earned per click, with every modifier applied
+  const gameState = useGameState()
+  const totalClickMultiplier = getDerivedStat(gameState, 'clickValue').value
   
-  const handlePurchase = (upgradeId: string) => {
+  const handlePurchase = (upgradeId: string, amount: number) => {
     try {
-      gameEngine.purchaseUpgrade(upgradeId)
+      gameEngine.purchaseUpgrade(upgradeId, amount)
     } catch (error) {
       console.error('Error purchasing upgrade:', error)
     }
@@ -123,14 +105,16 @@ export const UpgradeList: React.FC = () => {
         <div className="upgrade-grid">
           {upgrades.map(upgrade => {
             try {
-              const cost = gameEngine.getUpgradeCost(upgrade)
-              const canAfford = decimal(currency).greaterThanOrEqualTo(cost)
+              // Upgrades have no milestones, so the milestone mode buys every level left
+              const amount = getBuyAmount(buyAmount, upgrade, upgrade.currentPurchases, currency, {
+                limit: upgrade.maxPurchases - upgrade.currentPurchases,
+              })
               
               return (
                 <UpgradeItem
                   key={upgrade.id}
                   upgrade={upgrade}
-                  canAfford={canAfford}
+                  amount={amount}
                   onPurchase={handlePurchase}
                 />
               )
@@ -0,0 +1,172 @@
+import type Decimal from 'decimal.js'
+import type { Achievement } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Completion ratio for an achievement progress bar, capped at 1
+ */
+const ratio = (current: Decimal.Value, target: Decimal.Value): number =>
+  Math.min(decimal(current).dividedBy(decimal(target)).toNumber(), 1)
+
+/**
+ * Get initial achievements - one group per category
+ * Multiplier rewards are read from the unlocked achievements (see getAchievementMultiplier),
+ * so their apply functions have nothing to change; currency rewards are granted once, on unlock
+ * This function is called each time to get fresh values
+ */
+export const getInitialAchievements = (): Achievement[] => [
+  // Clicking
+  {
+    id: 'first-click',
+    name: 'Hello World',
+    description: 'Click for the first time',
+    unlocked: false,
+    category: 'clicking',
+    unlockCondition: (gameState) => gameState.totalClicks >= 1,
+    progress: (gameState) => ratio(gameState.totalClicks, 1),
+  },
+  {
+    id: 'hundred-clicks',
+    name: 'Clickbait',
+    description: 'Click 100 times',
+    unlocked: false,
+    category: 'clicking',
+    unlockCondition: (gameState) => gameState.totalClicks >= 100,
+    progress: (gameState) => ratio(gameState.totalClicks, 100),
+    reward: {
+      type: 'clickMultiplier',
+      value: decimal(1.1), // ×1.1 clicks per click
+      apply: () => {},
+    },
+  },
+  {
+    id: 'thousand-clicks',
+    name: 'Repetitive Strain',
+    description: 'Click 1,000 times',
+    unlocked: false,
+    category: 'clicking',
+    unlockCondition: (gameState) => gameState.totalClicks >= 1000,
+    progress: (gameState) => ratio(gameState.totalClicks, 1000),
+    reward: {
+      type: 'clickMultiplier',
+      value: decimal(1.25),
+      apply: () => {},
+    },
+  },
+
+  // Idle
+  {
+    id: 'first-generator',
+    name: 'Traffic Source',
+    description: 'Own a traffic source',
+    unlocked: false,
+    category: 'idle',
+    unlockCondition: (gameState) => gameState.idleGenerators.some(g => g.owned > 0),
+    progress: (gameState) => (gameState.idleGenerators.some(g => g.owned > 0) ? 1 : 0),
+    reward: {
+      type: 'currency',
+      value: decimal(100), // One-time grant of 100 Clicks
+      apply: (gameState) => {
+        gameState.currency = decimal(gameState.currency).plus(100)
+        gameState.totalEarned = decimal(gameState.totalEarned).plus(100)
+      },
+    },
+  },
+  {
+    id: 'bot-network',
+    name: 'Bot Network',
+    description: 'Own 50 Click Bots',
+    unlocked: false,
+    category: 'idle',
+    unlockCondition: (gameState) => (gameState.idleGenerators.find(g => g.id === 'bot')?.owned ?? 0) >= 50,
+    progress: (gameState) => ratio(gameState.idleGenerators.find(g => g.id === 'bot')?.owned ?? 0, 50),
+    reward: {
+      type: 'idleMultiplier',
+      value: decimal(1.1), // ×1.1 views per second
+      apply: () => {},
+    },
+  },
+  {
+    id: 'million-views',
+    name: 'Going Viral',
+    description: 'Accumulate 1,000,000 views',
+    unlocked: false,
+    category: 'idle',
+    unlockCondition: (gameState) => decimal(gameState.views).greaterThanOrEqualTo(1e6),
+    progress: (gameState) => ratio(gameState.views, 1e6),
+    reward: {
+      type: 'idleMultiplier',
+      value: decimal(1.25),
+      apply: () => {},
+    },
+  },
+
+  // Prestige
+  {
+    id: 'first-prestige',
+    name: 'Pivot',
+    description: 'Perform a Strategy Shift',
+    unlocked: false,
+    category: 'prestige',
+    unlockCondition: (gameState) => gameState.totalPrestiges >= 1,
+    progress: (gameState) => ratio(gameState.totalPrestiges, 1),
+  },
+  {
+    id: 'ten-prestiges',
+    name: 'Serial Pivoter',
+    description: 'Perform 10 Strategy Shifts',
+    unlocked: false,
+    category: 'prestige',
+    unlockCondition: (gameState) => gameState.totalPrestiges >= 10,
+    progress: (gameState) => ratio(gameState.totalPrestiges, 10),
+    reward: {
+      type: 'clickMultiplier',
+      value: decimal(1.5),
+      apply: () => {},
+    },
+  },
+
+  // Meta
+  {
+    id: 'first-rebrand',
+    name: 'New Brand, Who Dis',
+    description: 'Rebrand for the first time',
+    unlocked: false,
+    category: 'meta',
+    unlockCondition: (gameState) => gameState.totalMetaPrestiges >= 1,
+    progress: (gameState) => ratio(gameState.totalMetaPrestiges, 1),
+    reward: {
+      type: 'idleMultiplier',
+      value: decimal(1.5),
+      apply: () => {},
+    },
+  },
+
+  // Special
+  {
+    id: 'hands-off',
+    name: 'Hands Off',
+    description: 'Own an automation system',
+    unlocked: false,
+    category: 'special',
+    unlockCondition: (gameState) => gameState.automationSystems.some(a => a.owned > 0),
+    progress: (gameState) => (gameState.automationSystems.some(a => a.owned > 0) ? 1 : 0),
+    reward: {
+      type: 'currency',
+      value: decimal(1000),
+      apply: (gameState) => {
+        gameState.currency = decimal(gameState.currency).plus(1000)
+        gameState.totalEarned = decimal(gameState.totalEarned).plus(1000)
+      },
+    },
+  },
+  {
+    id: 'trending',
+    name: 'Trending',
+    description: 'Reach x5 engagement',
+    unlocked: false,
+    category: 'special',
+    unlockCondition: (gameState) => gameState.engagement >= 5,
+    progress: (gameState) => ratio(gameState.engagement, 5),
+  },
+]
@@ -0,0 +1,48 @@
+import type { AutomationSystem } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Get initial automation systems - auto-clickers that click for the player
+ * Each owned system performs clicksPerSecond clicks, scaled by its efficiency
+ * This function is called each time to get fresh values
+ */
+export const getInitialAutomationSystems = (): AutomationSystem[] => [
+  {
+    id: 'auto-clicker',
+    name: 'Auto Clicker',
+    description: 'A browser extension that clicks while you look away',
+    baseCost: decimal(500),
+    costMultiplier: decimal(1.15),
+    owned: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.totalEarned).greaterThanOrEqualTo(decimal(250)),
+    clicksPerSecond: decimal(1), // 1 click per second
+    efficiency: decimal(1),
+  },
+
+  {
+    id: 'macro-script',
+    name: 'Macro Script',
+    description: 'Recorded click sequences replayed on a loop',
+    baseCost: decimal(10000),
+    costMultiplier: decimal(1.15),
+    owned: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.totalEarned).greaterThanOrEqualTo(decimal(5000)),
+    clicksPerSecond: decimal(10), // 10 clicks per second
+    efficiency: decimal(1),
+  },
+
+  {
+    id: 'click-farm',
+    name: 'Click Farm',
+    description: 'Rows of phones tapping in sync, tuned by your strategy team',
+    baseCost: decimal(250000),
+    costMultiplier: decimal(1.2),
+    owned: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.prestigePoints).greaterThan(decimal(0)),
+    clicksPerSecond: decimal(50), // 50 clicks per second
+    efficiency: decimal(1.5), // Better coordinated than scripts
+  },
+]
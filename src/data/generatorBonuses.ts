@@ -0,0 +1,34 @@
+import type { GeneratorMilestone, GeneratorSynergy } from '../types/gameTypes'
+
+/**
+ * Ownership milestones shared by every generator, in ascending order
+ * Each one reached multiplies that generator's output
+ */
+export const GENERATOR_MILESTONES: GeneratorMilestone[] = [
+  { owned: 10, multiplier: 2 },
+  { owned: 25, multiplier: 2 },
+  { owned: 50, multiplier: 2 },
+  { owned: 100, multiplier: 3 },
+]
+
+/**
+ * Generators whose count boosts another generator's output
+ */
+export const GENERATOR_SYNERGIES: GeneratorSynergy[] = [
+  // Recommendation Engines send traffic to Click Bots: +5% per engine
+  { source: 'recommendation-engine', target: 'bot', bonusPerSource: 0.05 },
+  // Script Farms feed Recommendation Engines: +2% per farm
+  { source: 'script-farm', target: 'recommendation-engine', bonusPerSource: 0.02 },
+]
+
+/**
+ * Milestones reached with `owned` generators
+ */
+export const getReachedMilestones = (owned: number): GeneratorMilestone[] =>
+  GENERATOR_MILESTONES.filter(milestone => owned >= milestone.owned)
+
+/**
+ * First milestone not reached yet, if any are left
+ */
+export const getNextMilestone = (owned: number): GeneratorMilestone | undefined =>
+  GENERATOR_MILESTONES.find(milestone => owned < milestone.owned)
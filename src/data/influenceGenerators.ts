@@ -0,0 +1,55 @@
+import type { IdleGenerator } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Get initial Dimension 2 generators - they produce Reach instead of Views
+ * This function is called each time to get fresh values
+ */
+export const getInitialInfluenceGenerators = (): IdleGenerator[] => [
+  {
+    id: 'press-office',
+    name: 'Press Office',
+    description: 'Issues statements on your behalf around the clock',
+    baseProduction: decimal(1), // 1 reach per second
+    baseCost: decimal(15),
+    costMultiplier: decimal(1.12),
+    owned: 0,
+    unlocked: true, // First generator is always unlocked
+  },
+
+  {
+    id: 'lobbying-firm',
+    name: 'Lobbying Firm',
+    description: 'Friends in the right places, on retainer',
+    baseProduction: decimal(12), // 12 reach per second
+    baseCost: decimal(200),
+    costMultiplier: decimal(1.12),
+    owned: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.totalReach).greaterThanOrEqualTo(decimal(100)),
+  },
+
+  {
+    id: 'think-tank',
+    name: 'Think Tank',
+    description: 'Publishes research that happens to agree with you',
+    baseProduction: decimal(150), // 150 reach per second
+    baseCost: decimal(5000),
+    costMultiplier: decimal(1.15),
+    owned: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.influence).greaterThanOrEqualTo(decimal(1)),
+  },
+
+  {
+    id: 'media-conglomerate',
+    name: 'Media Conglomerate',
+    description: 'Owns the outlets that cover you',
+    baseProduction: decimal(2000), // 2,000 reach per second
+    baseCost: decimal(100000),
+    costMultiplier: decimal(1.15),
+    owned: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.influence).greaterThanOrEqualTo(decimal(3)),
+  },
+]
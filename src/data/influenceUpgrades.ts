@@ -0,0 +1,61 @@
+import type { Upgrade } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Get initial Dimension 2 upgrades - bought with Reach
+ * clickMultiplier boosts Reach per click and idleMultiplier boosts Reach per second.
+ * Effects are read from currentPurchases (see getInfluenceUpgradeMultiplier),
+ * so their apply functions have nothing to change on purchase
+ * This function is called each time to get fresh values
+ */
+export const getInitialInfluenceUpgrades = (): Upgrade[] => [
+  {
+    id: 'talking-points',
+    name: 'Talking Points',
+    description: 'Stay on message: ×2 reach per click',
+    baseCost: decimal(50),
+    costMultiplier: decimal(4),
+    maxPurchases: 10,
+    currentPurchases: 0,
+    unlocked: true,
+    effect: {
+      type: 'clickMultiplier',
+      value: decimal(2),
+      apply: () => {},
+    },
+  },
+
+  {
+    id: 'spin-doctors',
+    name: 'Spin Doctors',
+    description: 'Every story becomes your story: ×1.5 reach per second',
+    baseCost: decimal(500),
+    costMultiplier: decimal(3),
+    maxPurchases: 10,
+    currentPurchases: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.totalReach).greaterThanOrEqualTo(decimal(250)),
+    effect: {
+      type: 'idleMultiplier',
+      value: decimal(1.5),
+      apply: () => {},
+    },
+  },
+
+  {
+    id: 'backroom-deals',
+    name: 'Backroom Deals',
+    description: 'Agreements made before the meeting starts: ×2 reach per second',
+    baseCost: decimal(25000),
+    costMultiplier: decimal(5),
+    maxPurchases: 5,
+    currentPurchases: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => decimal(gameState.influence).greaterThanOrEqualTo(decimal(2)),
+    effect: {
+      type: 'idleMultiplier',
+      value: decimal(2),
+      apply: () => {},
+    },
+  },
+]
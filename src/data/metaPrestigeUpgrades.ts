@@ -0,0 +1,44 @@
+import type { MetaPrestigeUpgrade } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Get initial meta prestige upgrades - bought with Legacy Points, kept through every reset
+ * Multiplier effects are read from currentPurchases (see getMetaPrestigeMultiplier),
+ * so their apply functions have nothing to change on purchase
+ * This function is called each time to get fresh values
+ */
+export const getInitialMetaPrestigeUpgrades = (): MetaPrestigeUpgrade[] => [
+  // Reputation - more Strategy Points from every Strategy Shift
+  {
+    id: 'prestige-multiplier',
+    name: 'Reputation',
+    description: 'Your track record speaks for itself: ×1.5 Strategy Points per Strategy Shift',
+    baseCost: decimal(1),
+    costMultiplier: decimal(2),
+    maxPurchases: 10,
+    currentPurchases: 0,
+    unlocked: true,
+    effect: {
+      type: 'prestigeMultiplier',
+      value: decimal(1.5),
+      apply: () => {}
+    }
+  },
+
+  // Media Empire - multiplies every click and view
+  {
+    id: 'global-multiplier',
+    name: 'Media Empire',
+    description: 'Every channel you own feeds the others: ×2 clicks per click and views per second',
+    baseCost: decimal(2),
+    costMultiplier: decimal(2.5),
+    maxPurchases: 10,
+    currentPurchases: 0,
+    unlocked: true,
+    effect: {
+      type: 'globalMultiplier',
+      value: decimal(2),
+      apply: () => {}
+    }
+  },
+]
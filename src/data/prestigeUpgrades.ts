@@ -0,0 +1,70 @@
+import type { PrestigeUpgrade } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Get initial prestige upgrades - bought with Strategy Points, kept through prestige
+ * This function is called each time to get fresh values
+ */
+export const getInitialPrestigeUpgrades = (): PrestigeUpgrade[] => [
+  // Night Shift - unlocks offline progress (0% until bought)
+  {
+    id: 'offline-rate',
+    name: 'Night Shift',
+    description: 'Generators keep working while you are away: +10% offline efficiency',
+    baseCost: decimal(5),
+    costMultiplier: decimal(1.5),
+    maxPurchases: 10,
+    currentPurchases: 0,
+    unlocked: true,
+    effect: {
+      type: 'offlineRate',
+      value: decimal(0.1),
+      // Recomputed from the purchase count so ten purchases reach exactly 100%
+      apply: (gameState) => {
+        const purchases = gameState.prestigeUpgrades.find(u => u.id === 'offline-rate')?.currentPurchases ?? 0
+        gameState.offlineProgressRate = Math.min(1, purchases / 10)
+      }
+    }
+  },
+
+  // Content Calendar - longer offline cap
+  {
+    id: 'offline-time',
+    name: 'Content Calendar',
+    description: 'Schedule posts ahead: +1 hour maximum offline time',
+    baseCost: decimal(10),
+    costMultiplier: decimal(1.6),
+    maxPurchases: 23,
+    currentPurchases: 0,
+    unlocked: true,
+    effect: {
+      type: 'offlineTime',
+      value: decimal(1),
+      apply: (gameState) => {
+        gameState.maxOfflineHours += 1
+      }
+    }
+  },
+
+  // Brand Recognition - permanent boost to clicks and views
+  {
+    id: 'global-multiplier',
+    name: 'Brand Recognition',
+    description: 'A known name opens doors: ×1.25 clicks per click and views per second',
+    baseCost: decimal(25),
+    costMultiplier: decimal(2.0),
+    maxPurchases: 5,
+    currentPurchases: 0,
+    unlocked: true,
+    effect: {
+      type: 'globalMultiplier',
+      value: decimal(1.25),
+      // Derived from currentPurchases, so it holds through every reset
+      modifiers: [
+        { stat: 'clickValue', operation: 'multiply', value: 1.25 },
+        { stat: 'viewsPerSecond', operation: 'multiply', value: 1.25 },
+      ],
+      apply: () => {}
+    }
+  },
+]
@@ -0,0 +1,19 @@
+import type { TemporaryEffectDefinition, TemporaryEffectKind } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Every kind of temporary effect
+ * Active effects only store a kind and parameters; what they do is looked up here when they are read
+ */
+export const TEMPORARY_EFFECTS: Record<TemporaryEffectKind, TemporaryEffectDefinition> = {
+  // Viral Moment upgrade - each purchase runs its own boost
+  'viral-moment': {
+    name: 'Viral Moment',
+    type: 'clickMultiplier',
+    stacking: 'stack',
+    multiplier: (params) => decimal(params.multiplier ?? 1),
+  },
+}
+
+export const isTemporaryEffectKind = (kind: unknown): kind is TemporaryEffectKind =>
+  typeof kind === 'string' && Object.prototype.hasOwnProperty.call(TEMPORARY_EFFECTS, kind)
@@ -1,8 +1,17 @@
-import type { Upgrade, TemporaryEffect } from '../types/gameTypes'
+import type { GameState, Upgrade } from '../types/gameTypes'
 import { decimal } from '../utils/decimal'
+import { addTemporaryEffect } from '../managers/TemporaryEffectManager'
+
+/**
+ * Whether the player owns at least `count` of a generator
+ */
+const ownsGenerators = (gameState: GameState, generatorId: string, count: number): boolean =>
+  (gameState.idleGenerators.find(g => g.id === generatorId)?.owned ?? 0) >= count
 
 /**
  * Get initial upgrades - all using production values
+ * Stat changes are listed as modifiers and derived from currentPurchases (see getDerivedStat),
+ * so those apply functions have nothing to change on purchase
  * This function is called each time to get fresh values
  */
 export const getInitialUpgrades = (): Upgrade[] => [
@@ -20,13 +29,12 @@ export const getInitialUpgrades = (): Upgrade[] => [
     effect: {
       type: 'special',
       value: decimal(1),
-      apply: (gameState) => {
-        // Increase base click value
-        gameState.baseClickValue = gameState.baseClickValue.plus(1)
-        
-        // Increase idle multiplier by 10% (1.1x per level)
-        gameState.idleMultiplier = gameState.idleMultiplier.times(1.1)
-      }
+      // +1 base click value and 1.1x views per level
+      modifiers: [
+        { stat: 'clickValue', operation: 'add', value: 1 },
+        { stat: 'viewsPerSecond', operation: 'multiply', value: 1.1 },
+      ],
+      apply: () => {}
     }
   },
   
@@ -44,35 +52,9 @@ export const getInitialUpgrades = (): Upgrade[] => [
     effect: {
       type: 'special', // Special type for temporary effects
       value: decimal(5),
-      apply: (gameState) => {
-        // Get simulation speed (default to 1 if not set)
-        const simulationSpeed = gameState.simulationSpeed || 1
-        
-        // Adjust duration based on simulation speed
-        // At 100x speed, 10 seconds of game time = 100ms of real time
-        const adjustedDuration = 10000 / simulationSpeed
-        
-        // Create a temporary effect instead of permanent multiplier
-        const temporaryEffect = {
-          id: `viral-moment-${Date.now()}`,
-          name: 'Viral Moment',
-          type: 'clickMultiplier' as const,
-          value: decimal(5),
-          startTime: Date.now(),
-          duration: adjustedDuration,
-          apply: (state: any) => {
-            state.clickMultiplier = state.clickMultiplier.times(5)
-          },
-          remove: (state: any) => {
-            state.clickMultiplier = state.clickMultiplier.dividedBy(5)
-          }
-        }
-        
-        // Add the temporary effect to the game state
-        gameState.temporaryEffects.push(temporaryEffect)
-        
-        // Apply the effect immediately
-        temporaryEffect.apply(gameState)
+      apply: (gameState, now) => {
+        // 10 seconds of game time, however fast the simulation runs
+        addTemporaryEffect(gameState, 'viral-moment', { multiplier: 5 }, 10000, now)
       }
     }
   },
@@ -91,9 +73,66 @@ export const getInitialUpgrades = (): Upgrade[] => [
     effect: {
       type: 'clickMultiplier',
       value: decimal(2),
-      apply: (gameState) => {
-        gameState.clickMultiplier = gameState.clickMultiplier.times(2)
-      }
+      modifiers: [{ stat: 'clickValue', operation: 'multiply', value: 2 }],
+      apply: () => {}
+    }
+  },
+
+  // Generator efficiency upgrades - per-generator multipliers, scoped by effect.target
+  {
+    id: 'bot-efficiency-1',
+    name: 'Click Bot Efficiency',
+    description: 'Doubles the views produced by Click Bots',
+    baseCost: decimal(2500),
+    costMultiplier: decimal(4.0),
+    maxPurchases: 3,
+    currentPurchases: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => ownsGenerators(gameState, 'bot', 10),
+    effect: {
+      type: 'idleMultiplier',
+      value: decimal(2),
+      target: 'bot',
+      modifiers: [{ stat: 'viewsPerSecond', operation: 'multiply', value: 2 }],
+      apply: () => {}
+    }
+  },
+
+  {
+    id: 'script-farm-efficiency-1',
+    name: 'Script Farm Efficiency',
+    description: 'Doubles the views produced by Script Farms',
+    baseCost: decimal(25000),
+    costMultiplier: decimal(4.0),
+    maxPurchases: 3,
+    currentPurchases: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => ownsGenerators(gameState, 'script-farm', 10),
+    effect: {
+      type: 'idleMultiplier',
+      value: decimal(2),
+      target: 'script-farm',
+      modifiers: [{ stat: 'viewsPerSecond', operation: 'multiply', value: 2 }],
+      apply: () => {}
+    }
+  },
+
+  {
+    id: 'recommendation-engine-efficiency-1',
+    name: 'Recommendation Engine Efficiency',
+    description: 'Doubles the views produced by Recommendation Engines',
+    baseCost: decimal(1000000),
+    costMultiplier: decimal(4.0),
+    maxPurchases: 3,
+    currentPurchases: 0,
+    unlocked: false,
+    unlockCondition: (gameState) => ownsGenerators(gameState, 'recommendation-engine', 5),
+    effect: {
+      type: 'idleMultiplier',
+      value: decimal(2),
+      target: 'recommendation-engine',
+      modifiers: [{ stat: 'viewsPerSecond', operation: 'multiply', value: 2 }],
+      apply: () => {}
     }
   }
-]
\ No newline at end of file
+]
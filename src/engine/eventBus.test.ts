@@ -0,0 +1,145 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest'
+import { GameEventBus } from './eventBus'
+import { GameEngine } from './gameEngine'
+import { createInitialGameState } from './gameState'
+import { createMemoryGameStore } from './memoryStore'
+import { createManualClock, createManualScheduler } from './scheduler'
+import { decimal } from '../utils/decimal'
+
+describe('GameEventBus', () => {
+  it('should deliver events only to handlers of that type', () => {
+    const bus = new GameEventBus()
+    const onSave = vi.fn()
+    const onLoad = vi.fn()
+    bus.subscribe('GAME_SAVED', onSave)
+    bus.subscribe('GAME_LOADED', onLoad)
+
+    bus.emit({ type: 'GAME_SAVED', payload: { timestamp: 42 } })
+
+    expect(onSave).toHaveBeenCalledWith({ type: 'GAME_SAVED', payload: { timestamp: 42 } })
+    expect(onLoad).not.toHaveBeenCalled()
+  })
+
+  it('should stop delivering after unsubscribe', () => {
+    const bus = new GameEventBus()
+    const handler = vi.fn()
+    const unsubscribe = bus.subscribe('GAME_SAVED', handler)
+
+    unsubscribe()
+    bus.emit({ type: 'GAME_SAVED', payload: { timestamp: 1 } })
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(bus.listenerCount('GAME_SAVED')).toBe(0)
+  })
+
+  it('should keep notifying other handlers when one throws', () => {
+    const bus = new GameEventBus()
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const handler = vi.fn()
+    bus.subscribe('GAME_SAVED', () => {
+      throw new Error('boom')
+    })
+    bus.subscribe('GAME_SAVED', handler)
+
+    bus.emit({ type: 'GAME_SAVED', payload: { timestamp: 1 } })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(errorSpy).toHaveBeenCalled()
+    errorSpy.mockRestore()
+  })
+
+  it('should let a handler unsubscribe itself while the event is dispatched', () => {
+    const bus = new GameEventBus()
+    const second = vi.fn()
+    const unsubscribe = bus.subscribe('GAME_SAVED', () => unsubscribe())
+    bus.subscribe('GAME_SAVED', second)
+
+    bus.emit({ type: 'GAME_SAVED', payload: { timestamp: 1 } })
+    bus.emit({ type: 'GAME_SAVED', payload: { timestamp: 2 } })
+
+    expect(second).toHaveBeenCalledTimes(2)
+    expect(bus.listenerCount('GAME_SAVED')).toBe(1)
+  })
+})
+
+describe('GameEngine events', () => {
+  const createEngine = () => {
+    const clock = createManualClock(1_000_000)
+    const engine = new GameEngine({
+      store: createMemoryGameStore(createInitialGameState(clock.now())),
+      clock,
+      scheduler: createManualScheduler(),
+    })
+    engine.tick(0)
+    return engine
+  }
+
+  it('should publish clicks and the Clicks they earned', () => {
+    const engine = createEngine()
+    const clicks = vi.fn()
+    const earned = vi.fn()
+    engine.subscribe('CLICK_PERFORMED', clicks)
+    engine.subscribe('CURRENCY_EARNED', earned)
+
+    const value = engine.performClick()
+
+    expect(clicks).toHaveBeenCalledWith({ type: 'CLICK_PERFORMED', payload: { amount: value } })
+    expect(earned.mock.calls[0][0].payload.source).toBe('click')
+  })
+
+  it('should publish purchases made through the managers', () => {
+    const engine = createEngine()
+    engine.getGameState().currency = decimal(5000)
+    engine.getGameState().totalEarned = decimal(1000)
+    engine.tick(0)
+    const generators = vi.fn()
+    const upgrades = vi.fn()
+    engine.subscribe('GENERATOR_PURCHASED', generators)
+    engine.subscribe('UPGRADE_PURCHASED', upgrades)
+
+    engine.purchaseGenerator('bot', 2)
+    engine.purchaseUpgrade('click-power-3')
+
+    expect(generators.mock.calls[0][0].payload).toMatchObject({ generatorId: 'bot', amount: 2 })
+    expect(upgrades.mock.calls[0][0].payload.upgradeId).toBe('click-power-3')
+  })
+
+  it('should buy max upgrade levels as one batch', () => {
+    const engine = createEngine()
+    engine.getGameState().currency = decimal(1000)
+    engine.getGameState().totalEarned = decimal(1000)
+    engine.tick(0)
+    const upgrades = vi.fn()
+    engine.subscribe('UPGRADE_PURCHASED', upgrades)
+
+    // 200 + 300 + 450
+    expect(engine.purchaseMaxUpgrades('base-value-1')).toBe(3)
+
+    expect(upgrades).toHaveBeenCalledTimes(1)
+    expect(upgrades.mock.calls[0][0].payload.cost.equals(decimal(950))).toBe(true)
+    expect(engine.getGameState().currency.equals(decimal(50))).toBe(true)
+  })
+
+  it('should publish auto-saves', () => {
+    const engine = createEngine()
+    const saved = vi.fn()
+    engine.subscribe('GAME_SAVED', saved)
+
+    engine.advance(engine.getGameState().settings.autoSaveInterval * 1000)
+
+    expect(saved).toHaveBeenCalledTimes(1)
+  })
+
+  it('should publish into an injected bus', () => {
+    const events = new GameEventBus()
+    const engine = new GameEngine({ events })
+    const saved = vi.fn()
+    events.subscribe('GAME_SAVED', saved)
+
+    engine.saveGame()
+
+    expect(saved).toHaveBeenCalledTimes(1)
+    expect(engine.getEventBus()).toBe(events)
+  })
+})
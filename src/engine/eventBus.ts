@@ -0,0 +1,65 @@
+import type { GameEvent, GameEventType, GameEventHandler, GameEventEmitter } from '../types/gameTypes'
+
+type AnyHandler = (event: GameEvent) => void
+
+/**
+ * Typed publish/subscribe bus for game events
+ * Listeners react to what happened instead of polling the game state
+ */
+export class GameEventBus implements GameEventEmitter {
+  private handlers = new Map<GameEventType, Set<AnyHandler>>()
+
+  /**
+   * Listen for one event type
+   * Returns a function that removes the handler again
+   */
+  public subscribe<T extends GameEventType>(type: T, handler: GameEventHandler<T>): () => void {
+    const wrapped = handler as AnyHandler
+    let handlers = this.handlers.get(type)
+
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(type, handlers)
+    }
+
+    handlers.add(wrapped)
+
+    return () => {
+      handlers.delete(wrapped)
+    }
+  }
+
+  /**
+   * Publish an event to every handler of its type
+   * A failing handler is logged and does not stop the others (or the game loop)
+   */
+  public emit(event: GameEvent): void {
+    const handlers = this.handlers.get(event.type)
+    if (!handlers) {
+      return
+    }
+
+    // Copy so handlers may unsubscribe while we iterate
+    for (const handler of [...handlers]) {
+      try {
+        handler(event)
+      } catch (error) {
+        console.error(`Error in ${event.type} handler:`, error)
+      }
+    }
+  }
+
+  /**
+   * Number of handlers listening for a type
+   */
+  public listenerCount(type: GameEventType): number {
+    return this.handlers.get(type)?.size ?? 0
+  }
+
+  /**
+   * Remove every handler
+   */
+  public clear(): void {
+    this.handlers.clear()
+  }
+}
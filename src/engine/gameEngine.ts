@@ -3,17 +3,43 @@ import type {
   GameEngine as IGameEngine, 
   GameState, 
   OfflineProgress,
+  OfflineProgressOptions,
   Upgrade,
+  PrestigeUpgrade,
+  MetaPrestigeUpgrade,
   IdleGenerator,
   AutomationSystem,
   Achievement,
   SaveData,
-  GameSettings
+  SaveImportResult,
+  SaveImportOptions,
+  SaveStringFormat,
+  SaveSlot,
+  BackupReason,
+  GameSettings,
+  GameStateStore,
+  Clock,
+  Scheduler,
+  BaseClickMode,
+  GameEventType,
+  GameEventHandler
 } from '../types/gameTypes'
-import { useGameStore, getBaseClickBoost } from '../stores/gameStore'
 import { decimal, add, multiply, greaterThanOrEqual, calculateStrategyPointsMultiplier, calculateViewToClickEfficiency, ZERO, ONE } from '../utils/decimal'
 import { UpgradeManager } from '../managers/UpgradeManager'
 import { IdleManager } from '../managers/IdleManager'
+import { PrestigeManager, getMetaPrestigeMultiplier } from '../managers/PrestigeManager'
+import { AutomationManager } from '../managers/AutomationManager'
+import { AchievementManager } from '../managers/AchievementManager'
+import { advanceTemporaryEffects } from '../managers/TemporaryEffectManager'
+import { getDerivedStat } from '../managers/ModifierPipeline'
+import { InfluenceManager } from '../managers/InfluenceManager'
+import { createInitialGameState, applyCurrencyChange, recordManualClick, cloneGameState } from './gameState'
+import { createSaveData, deserializeGameState, encodeSaveString, decodeSaveString } from './serialization'
+import { migrateSaveData } from './migrations'
+import { SaveSlotStore } from './saveSlots'
+import { createMemoryGameStore } from './memoryStore'
+import { systemClock, intervalScheduler } from './scheduler'
+import { GameEventBus } from './eventBus'
 
 /**
  * Get prestige threshold - fixed at production value
@@ -22,133 +48,395 @@ const getPrestigeThreshold = () => {
   return 50000 // Production value
 }
 
+/**
+ * Meta prestige requirements: strategy shifts done and Strategy Points held
+ */
+export const META_PRESTIGE_REQUIRED_PRESTIGES = 10
+export const META_PRESTIGE_REQUIRED_POINTS = 1000
+
+/**
+ * Length of one simulation step in milliseconds
+ */
+export const FIXED_TIMESTEP_MS = 100
+
+/**
+ * Most steps a single loop callback may run to catch up (30 seconds of game time)
+ * Anything beyond that is dropped rather than letting the loop spiral
+ */
+export const MAX_CATCH_UP_STEPS = 300
+
+/**
+ * Systems every tick runs, in this order
+ * Each sees the changes of the ones before it: unlocks happen before production, production before
+ * achievements check it, and lastActiveTime is stamped last
+ */
+export const TICK_SYSTEMS = [
+  'initialize',
+  'unlocks',
+  'temporaryEffects',
+  'idleProgress',
+  'reachProgress',
+  'automation',
+  'achievements',
+  'autoSave',
+  'lastActiveTime',
+] as const
+
+export type TickSystem = typeof TICK_SYSTEMS[number]
+
+/**
+ * Shortest gap (in seconds) treated as time away
+ * Anything shorter is left to the live loop
+ */
+export const MIN_OFFLINE_SECONDS = 60
+
+/**
+ * Progress granted for time the page spent hidden, as offline calculator overrides
+ * The game stayed open, so hidden time counts in full rather than at the player's offline rate
+ */
+export const BACKGROUND_PROGRESS: OfflineProgressOptions = { rate: 1, maxHours: Infinity }
+
+/**
+ * Dependencies injected into the game engine
+ * Everything defaults to a headless setup so the engine runs in Node
+ */
+export interface GameEngineOptions {
+  store?: GameStateStore
+  clock?: Clock
+  scheduler?: Scheduler
+  events?: GameEventBus
+  saveFormat?: SaveStringFormat // Format of exported save strings, readable JSON by default
+  saveSlots?: SaveSlotStore
+}
+
 /**
  * Core Game Engine implementation
+ * Framework-free: state lives in the injected store, time comes from the injected clock
  */
 export class GameEngine implements IGameEngine {
-  private updateInterval: number | null = null
-  private lastUpdateTime: number = Date.now()
+  private updateInterval: unknown = null
+  private lastUpdateTime: number
+  private accumulator: number = 0 // Unsimulated time in milliseconds
+  private simulationTime: number // Timestamp of the last completed step
+  private tickTime: number | null = null // Set while a step is running
+  private workingState: GameState | null = null // The step's copy of the state, committed once at its end
+  private pausedInBackground: boolean = false
   private upgradeManager: UpgradeManager
   private idleManager: IdleManager
+  private prestigeManager: PrestigeManager
+  private automationManager: AutomationManager
+  private achievementManager: AchievementManager
+  private influenceManager: InfluenceManager
+  private store: GameStateStore
+  private clock: Clock
+  private scheduler: Scheduler
+  private events: GameEventBus
+  private baseClickBoost: BaseClickMode = 0
+  private saveFormat: SaveStringFormat
+  private saveSlots: SaveSlotStore
 
-  constructor() {
-    this.upgradeManager = new UpgradeManager()
-    this.idleManager = new IdleManager()
-    this.startGameLoop()
+  constructor(options: GameEngineOptions = {}) {
+    this.store = options.store ?? createMemoryGameStore()
+    this.clock = options.clock ?? systemClock
+    this.scheduler = options.scheduler ?? intervalScheduler
+    this.events = options.events ?? new GameEventBus()
+    this.saveFormat = options.saveFormat ?? 'json'
+    this.saveSlots = options.saveSlots ?? new SaveSlotStore()
+    this.upgradeManager = new UpgradeManager(this.events)
+    this.idleManager = new IdleManager(this.events)
+    this.prestigeManager = new PrestigeManager(this.events)
+    this.automationManager = new AutomationManager(this.events)
+    this.achievementManager = new AchievementManager(this.events)
+    this.influenceManager = new InfluenceManager(this.events)
+    this.lastUpdateTime = this.clock.now()
+    this.simulationTime = this.lastUpdateTime
+  }
+
+  /**
+   * Current time: the step timestamp during a tick, otherwise the clock
+   * Nothing in the engine reads the wall clock directly
+   */
+  private now(): number {
+    return this.tickTime ?? this.clock.now()
   }
 
   /**
-   * Get the current game store state
+   * Listen for a game event
+   * Returns a function that removes the handler again
    */
-  private getStore() {
-    return useGameStore.getState()
+  public subscribe<T extends GameEventType>(type: T, handler: GameEventHandler<T>): () => void {
+    return this.events.subscribe(type, handler)
+  }
+
+  /**
+   * Get the event bus the engine publishes into
+   */
+  public getEventBus(): GameEventBus {
+    return this.events
   }
 
   /**
    * Start the main game loop
    */
-  private startGameLoop(): void {
-    this.updateInterval = window.setInterval(() => {
+  public startGameLoop(): void {
+    if (this.updateInterval !== null) {
+      return
+    }
+    
+    this.lastUpdateTime = this.clock.now()
+    this.simulationTime = this.lastUpdateTime
+    this.accumulator = 0
+    this.updateInterval = this.scheduler.setInterval(() => {
       this.update()
-    }, 100) // Update every 100ms for smooth gameplay
+    }, FIXED_TIMESTEP_MS) // Update every 100ms for smooth gameplay
   }
 
   /**
    * Stop the game loop
    */
   public stopGameLoop(): void {
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval)
+    this.pausedInBackground = false
+    if (this.updateInterval !== null) {
+      this.scheduler.clearInterval(this.updateInterval)
       this.updateInterval = null
     }
   }
 
+  /**
+   * Pause the loop while the page is hidden
+   * Browsers throttle hidden timers unpredictably, so nothing runs until resumeFromBackground
+   */
+  public pauseForBackground(): void {
+    if (this.updateInterval === null) {
+      return
+    }
+
+    this.stopGameLoop()
+    this.pausedInBackground = true
+  }
+
+  /**
+   * Restart the loop after pauseForBackground and account for the hidden time
+   * Gaps the catch-up limit covers are simulated step by step; longer ones go through the offline calculator
+   */
+  public resumeFromBackground(): OfflineProgress | null {
+    if (!this.pausedInBackground) {
+      return null
+    }
+
+    this.pausedInBackground = false
+    const hiddenMs = this.clock.now() - this.getGameState().lastActiveTime
+    const progress = hiddenMs > MAX_CATCH_UP_STEPS * FIXED_TIMESTEP_MS
+      ? this.grantOfflineProgress(hiddenMs / 1000, BACKGROUND_PROGRESS)
+      : null
+
+    this.startGameLoop()
+    if (!progress) {
+      // Replay the gap from the last completed step
+      this.simulationTime = this.getGameState().lastActiveTime
+      this.advance(hiddenMs)
+    }
+
+    return progress
+  }
+
+  /**
+   * Check if the game loop is running
+   */
+  public isRunning(): boolean {
+    return this.updateInterval !== null
+  }
+
   /**
    * Main game update loop
    */
   private update(): void {
-    const now = Date.now()
-    const deltaTime = (now - this.lastUpdateTime) / 1000 // Convert to seconds
+    const now = this.clock.now()
+    const elapsed = now - this.lastUpdateTime
     this.lastUpdateTime = now
-
-    // Initialize upgrades and generators if needed
-    const state = this.getGameState()
-    this.upgradeManager.initializeUpgrades(state)
-    this.idleManager.initializeGenerators(state)
     
-    // Track if we need to update the store
-    let stateChanged = false
+    this.advance(elapsed)
+  }
+
+  /**
+   * Feed elapsed time into the accumulator and run as many fixed steps as it covers
+   * Returns the number of steps that were simulated
+   */
+  public advance(elapsedMs: number): number {
+    this.accumulator += Math.max(0, elapsedMs)
+    
+    let steps = 0
+    while (this.accumulator >= FIXED_TIMESTEP_MS && steps < MAX_CATCH_UP_STEPS) {
+      this.simulationTime += FIXED_TIMESTEP_MS
+      this.accumulator -= FIXED_TIMESTEP_MS
+      this.tick(FIXED_TIMESTEP_MS / 1000, this.simulationTime)
+      steps++
+    }
     
-    // Update upgrade unlock conditions
-    const upgradesBeforeUpdate = state.upgrades.map(u => u.unlocked)
-    this.upgradeManager.updateUpgradeUnlocks(state)
-    const upgradesAfterUpdate = state.upgrades.map(u => u.unlocked)
-    if (JSON.stringify(upgradesBeforeUpdate) !== JSON.stringify(upgradesAfterUpdate)) {
-      stateChanged = true
+    // Drop any backlog the catch-up limit could not cover
+    if (this.accumulator >= FIXED_TIMESTEP_MS) {
+      this.simulationTime += this.accumulator - (this.accumulator % FIXED_TIMESTEP_MS)
+      this.accumulator %= FIXED_TIMESTEP_MS
     }
     
-    // Update generator unlock conditions
-    const generatorsBeforeUpdate = state.idleGenerators.map(g => g.unlocked)
-    this.idleManager.updateGeneratorUnlocks(state)
-    const generatorsAfterUpdate = state.idleGenerators.map(g => g.unlocked)
-    if (JSON.stringify(generatorsBeforeUpdate) !== JSON.stringify(generatorsAfterUpdate)) {
-      stateChanged = true
+    return steps
+  }
+
+  /**
+   * Advance the simulation by deltaTime seconds and return the resulting state
+   * Everything inside the step sees `now` as the current time and works on one copy of the state,
+   * which is written to the store once the last system has run (or not at all if one throws)
+   */
+  public tick(deltaTime: number, now: number = this.clock.now()): GameState {
+    this.tickTime = now
+    this.workingState = cloneGameState(this.store.getGameState())
+    try {
+      const state = this.runTick(deltaTime)
+      this.store.setGameState(state)
+      return state
+    } finally {
+      this.tickTime = null
+      this.workingState = null
     }
+  }
 
-    // Update temporary effects
-    this.updateTemporaryEffects()
-    
-    // Update idle progress
-    this.updateIdleProgress(deltaTime)
-    
-    // Update automation systems
-    this.updateAutomation(deltaTime)
-    
-    // Check for achievements
-    this.checkAchievements()
-    
-    // Auto-save if enabled
-    this.handleAutoSave()
+  /**
+   * Run every system of one step, in TICK_SYSTEMS order
+   */
+  private runTick(deltaTime: number): GameState {
+    for (const system of TICK_SYSTEMS) {
+      this.runTickSystem(system, deltaTime)
+    }
     
-    // Update last active time
-    this.getStore().updateLastActiveTime()
+    return this.getGameState()
+  }
+
+  private runTickSystem(system: TickSystem, deltaTime: number): void {
+    const state = this.getGameState()
     
-    // If unlock states changed, update the store
-    if (stateChanged) {
-      this.getStore().setGameState(state)
+    switch (system) {
+      case 'initialize':
+        // Add upgrades and generators missing from older saves
+        this.upgradeManager.initializeUpgrades(state)
+        this.idleManager.initializeGenerators(state)
+        this.prestigeManager.initializePrestigeUpgrades(state)
+        this.prestigeManager.initializeMetaPrestigeUpgrades(state)
+        this.automationManager.initializeAutomation(state)
+        this.achievementManager.initializeAchievements(state)
+        this.influenceManager.initializeInfluence(state)
+        break
+      case 'unlocks':
+        this.upgradeManager.updateUpgradeUnlocks(state)
+        this.idleManager.updateGeneratorUnlocks(state)
+        this.automationManager.updateAutomationUnlocks(state)
+        this.influenceManager.updateInfluenceUnlocks(state)
+        break
+      case 'temporaryEffects':
+        this.updateTemporaryEffects(deltaTime)
+        break
+      case 'idleProgress':
+        this.updateIdleProgress(deltaTime)
+        break
+      case 'reachProgress':
+        this.updateReachProgress(deltaTime)
+        break
+      case 'automation':
+        this.updateAutomation(deltaTime)
+        break
+      case 'achievements':
+        this.checkAchievements()
+        break
+      case 'autoSave':
+        this.handleAutoSave()
+        break
+      case 'lastActiveTime':
+        this.updateLastActiveTime()
+        break
     }
   }
 
+  /**
+   * Replace the game state - into the step's working copy during a tick, otherwise straight into the store
+   */
+  private setState(state: GameState): void {
+    if (this.workingState) {
+      this.workingState = state
+    } else {
+      this.store.setGameState(state)
+    }
+  }
+
+  private updateCurrency(amount: Decimal): void {
+    this.setState(applyCurrencyChange(this.getGameState(), amount, this.now()))
+  }
+
+  /**
+   * Mark the player as active now
+   */
+  private updateLastActiveTime(): void {
+    this.setState({
+      ...this.getGameState(),
+      lastActiveTime: this.now(),
+    })
+  }
+
   /**
    * Perform a click action
    */
   public performClick(): Decimal {
     const state = this.getGameState()
     
-    // Calculate base click value with multipliers
-    let clickValue = multiply(state.baseClickValue, state.clickMultiplier)
-    
-    // Add base click boost for testing
-    const baseBoost = getBaseClickBoost()
-    if (baseBoost > 0) {
-      clickValue = clickValue.plus(baseBoost)
+    // In Dimension 2, clicks earn Reach
+    if (state.currentDimension === 2) {
+      return this.performReachClick()
     }
     
-    // Apply strategy points bonus
-    const strategyBonus = calculateStrategyPointsMultiplier(state.prestigePoints)
-    clickValue = multiply(clickValue, strategyBonus)
-    
-    // Apply engagement multiplier
-    clickValue = multiply(clickValue, state.engagement)
+    // Click value with every modifier, plus the testing boost
+    const clickValue = getDerivedStat(state, 'clickValue', { baseClickBoost: this.baseClickBoost }).value
     
     // In Digital Decay, manual clicks generate Clicks (base currency)
     // Views are generated by idle generators
-    this.getStore().updateCurrency(clickValue)
-    this.getStore().addManualClick() // Track this as a manual click for rate calculation
+    const now = this.now()
+    const newState = applyCurrencyChange(state, clickValue, now)
+    this.setState(recordManualClick(newState, now)) // Track this as a manual click for rate calculation
+    
+    this.events.emit({ type: 'CLICK_PERFORMED', payload: { amount: clickValue } })
+    this.events.emit({ type: 'CURRENCY_EARNED', payload: { amount: clickValue, source: 'click' } })
     
     return clickValue
   }
 
+  /**
+   * Get the current base click boost (testing/debugging aid)
+   */
+  public getBaseClickBoost(): BaseClickMode {
+    return this.baseClickBoost
+  }
+
+  /**
+   * Cycle to next base click boost mode
+   */
+  public cycleBaseClickBoost(): BaseClickMode {
+    switch (this.baseClickBoost) {
+      case 0: this.baseClickBoost = 10; break
+      case 10: this.baseClickBoost = 100; break
+      case 100: this.baseClickBoost = 1000; break
+      case 1000: this.baseClickBoost = 10000; break
+      case 10000: this.baseClickBoost = 0; break
+    }
+    return this.baseClickBoost
+  }
+
+  /**
+   * Set the simulation speed (1 = normal, 100 = 100x speed)
+   */
+  public setSimulationSpeed(speed: number): void {
+    this.setState({
+      ...this.getGameState(),
+      simulationSpeed: speed,
+    })
+  }
+
   /**
    * Calculate engagement cost for next level
    * Formula: 50 × (level × (level + 1) / 2)
@@ -190,7 +478,7 @@ export class GameEngine implements IGameEngine {
     state.engagement += 1
     
     // Update store
-    this.getStore().setGameState(state)
+    this.setState(state)
     
     return true
   }
@@ -204,30 +492,66 @@ export class GameEngine implements IGameEngine {
     return
   }
 
+  /**
+   * Perform a click in Dimension 2
+   */
+  private performReachClick(): Decimal {
+    const state = this.getGameState()
+    const reachValue = this.influenceManager.calculateReachPerClick(state)
+    
+    const now = this.now()
+    this.setState(recordManualClick({
+      ...state,
+      reach: state.reach.plus(reachValue),
+      totalReach: state.totalReach.plus(reachValue),
+    }, now))
+    
+    this.events.emit({ type: 'CLICK_PERFORMED', payload: { amount: reachValue } })
+    
+    return reachValue
+  }
+
+  /**
+   * Produce Reach from Dimension 2 generators
+   */
+  private updateReachProgress(deltaTime: number): void {
+    const state = this.getGameState()
+    
+    if (state.currentDimension !== 2) {
+      return
+    }
+    
+    const earned = multiply(this.influenceManager.calculateReachPerSecond(state), decimal(deltaTime))
+    if (earned.equals(ZERO)) {
+      return
+    }
+    
+    this.setState({
+      ...state,
+      reach: state.reach.plus(earned),
+      totalReach: state.totalReach.plus(earned),
+    })
+  }
+
   /**
    * Update idle progress
    */
   public updateIdleProgress(deltaTime: number): Decimal {
     const state = this.getGameState()
     
-    // Calculate idle earnings using IdleManager
-    let earnings = this.idleManager.updateIdleProgress(state, deltaTime)
+    // Calculate idle earnings using IdleManager, with every modifier applied
+    const earnings = this.idleManager.updateIdleProgress(state, deltaTime)
     
     if (earnings.equals(ZERO)) {
       return ZERO
     }
     
-    // Apply strategy points bonus to idle generation
-    const strategyBonus = calculateStrategyPointsMultiplier(state.prestigePoints)
-    earnings = multiply(earnings, strategyBonus)
-    
-    // Apply engagement multiplier to idle generation
-    earnings = multiply(earnings, state.engagement)
     
     // In Digital Decay, idle generators produce Views (tier 2 currency)
     const newViews = state.views.plus(earnings) // Don't floor here, let Views accumulate as decimals internally
     
     // Calculate view-to-click efficiency based on total earned clicks and prestige multiplier
+    const strategyBonus = calculateStrategyPointsMultiplier(state.prestigePoints)
     const efficiency = calculateViewToClickEfficiency(state.totalEarned, strategyBonus, state.engagement)
     
     // Calculate how many Clicks we should have based on total Views with efficiency
@@ -244,10 +568,14 @@ export class GameEngine implements IGameEngine {
       views: newViews, // Keep accumulating Views (with decimals internally)
       currency: state.currency.plus(newClicksToAdd), // Add only new Clicks
       totalEarned: state.totalEarned.plus(newClicksToAdd),
-      lastActiveTime: Date.now(),
+      lastActiveTime: this.now(),
     }
     
-    this.getStore().setGameState(newState)
+    this.setState(newState)
+    
+    if (newClicksToAdd.greaterThan(ZERO)) {
+      this.events.emit({ type: 'CURRENCY_EARNED', payload: { amount: newClicksToAdd, source: 'idle' } })
+    }
     
     return earnings
   }
@@ -261,163 +589,98 @@ export class GameEngine implements IGameEngine {
   }
 
   /**
-   * Calculate total idle production per second
+   * Grant progress for the time since the player was last active
+   * Called on startup and when the tab regains focus; returns null when the gap is too short
    */
-  public calculateTotalIdleProduction(): Decimal {
-    const state = this.getGameState()
-    return this.idleManager.calculateTotalProduction(state)
+  public applyOfflineProgress(): OfflineProgress | null {
+    const offlineTime = (this.now() - this.getGameState().lastActiveTime) / 1000
+    
+    if (offlineTime < MIN_OFFLINE_SECONDS) {
+      return null
+    }
+    
+    return this.grantOfflineProgress(offlineTime)
   }
 
   /**
-   * Update temporary effects and remove expired ones
+   * Add the offline calculator's earnings for a gap and mark the player active again
    */
-  private updateTemporaryEffects(): void {
+  private grantOfflineProgress(offlineTime: number, options?: OfflineProgressOptions): OfflineProgress {
+    const now = this.now()
     const state = this.getGameState()
     
-    // Safety check: ensure state exists and temporaryEffects array exists
-    if (!state) {
-      console.warn('Game state is undefined in updateTemporaryEffects')
-      return
-    }
-    
-    if (!state.temporaryEffects) {
-      state.temporaryEffects = []
-      // Update the store with the initialized array
-      this.getStore().setGameState(state)
-      return
-    }
-    
-    if (!Array.isArray(state.temporaryEffects)) {
-      console.warn('temporaryEffects is not an array, reinitializing')
-      state.temporaryEffects = []
-      // Update the store with the reinitialized array
-      this.getStore().setGameState(state)
-      return
-    }
+    // Resync the loop so the gap is not simulated a second time
+    this.lastUpdateTime = now
+    this.simulationTime = now
+    this.accumulator = 0
     
-    const now = Date.now()
-    const expiredEffects: number[] = []
+    const progress = this.idleManager.calculateOfflineProgress(state, offlineTime, options)
     
-    // Check for expired effects
-    for (let i = 0; i < state.temporaryEffects.length; i++) {
-      const effect = state.temporaryEffects[i]
-      
-      // Safety check for effect object
-      if (!effect || typeof effect.startTime !== 'number' || typeof effect.duration !== 'number') {
-        console.warn(`Invalid temporary effect at index ${i}:`, effect)
-        expiredEffects.push(i)
-        continue
-      }
-      
-      const elapsed = now - effect.startTime
-      
-      if (elapsed >= effect.duration) {
-        // Effect has expired, remove it
-        try {
-          if (typeof effect.remove === 'function') {
-            effect.remove(state)
-          }
-        } catch (error) {
-          console.warn(`Error removing temporary effect ${effect.id}:`, error)
-        }
-        expiredEffects.push(i)
-      }
-    }
+    this.setState({
+      ...state,
+      views: state.views.plus(progress.idleEarnings),
+      currency: state.currency.plus(progress.currencyEarned),
+      totalEarned: state.totalEarned.plus(progress.currencyEarned),
+      temporaryEffects: advanceTemporaryEffects(state.temporaryEffects, offlineTime * 1000),
+      lastActiveTime: now,
+    })
     
-    // Remove expired effects (in reverse order to maintain indices)
-    for (let i = expiredEffects.length - 1; i >= 0; i--) {
-      state.temporaryEffects.splice(expiredEffects[i], 1)
-    }
+    this.events.emit({ type: 'OFFLINE_PROGRESS', payload: progress })
     
-    // Update the store if any effects were removed
-    if (expiredEffects.length > 0) {
-      this.getStore().setGameState(state)
-    }
+    return progress
   }
 
   /**
-   * Update automation systems
+   * Calculate total idle production per second
    */
-  private updateAutomation(deltaTime: number): void {
+  public calculateTotalIdleProduction(): Decimal {
     const state = this.getGameState()
-    
-    for (const automation of state.automationSystems) {
-      if (automation.owned > 0) {
-        // Calculate clicks per this update period
-        const clicksPerSecond = multiply(automation.clicksPerSecond, decimal(automation.owned))
-        const clicksThisUpdate = multiply(clicksPerSecond, decimal(deltaTime))
-        
-        // Apply strategy points bonus to automation
-        const strategyBonus = calculateStrategyPointsMultiplier(state.prestigePoints)
-        const bonusClicksThisUpdate = multiply(clicksThisUpdate, strategyBonus)
-        
-        // Apply engagement multiplier to automation
-        const finalClicksThisUpdate = multiply(bonusClicksThisUpdate, state.engagement)
-        
-        // Perform automated clicks
-        const totalClicks = Math.floor(finalClicksThisUpdate.toNumber())
-        for (let i = 0; i < totalClicks; i++) {
-          // Use base click value without strategy bonus since we already applied it above
-          const baseClickValue = multiply(state.baseClickValue, state.clickMultiplier)
-          this.getStore().updateCurrency(baseClickValue)
-        }
-      }
-    }
+    return this.idleManager.calculateTotalProduction(state)
   }
 
   /**
-   * Calculate automation earnings for offline progress
+   * Count the step's game time off temporary effects and drop the ones that ran out
    */
-  private calculateAutomationEarnings(seconds: number): Decimal {
+  private updateTemporaryEffects(deltaTime: number): void {
     const state = this.getGameState()
-    let totalEarnings = ZERO
+    if (state.temporaryEffects.length === 0) return
     
-    for (const automation of state.automationSystems) {
-      if (automation.owned > 0) {
-        const clicksPerSecond = multiply(automation.clicksPerSecond, decimal(automation.owned))
-        const totalClicks = multiply(clicksPerSecond, decimal(seconds))
-        const clickValue = multiply(state.baseClickValue, state.clickMultiplier)
-        
-        // Apply strategy points bonus
-        const strategyBonus = calculateStrategyPointsMultiplier(state.prestigePoints)
-        const bonusClickValue = multiply(clickValue, strategyBonus)
-        
-        const earnings = multiply(totalClicks, bonusClickValue)
-        totalEarnings = add(totalEarnings, earnings)
-      }
-    }
-    
-    return totalEarnings
+    this.setState({
+      ...state,
+      temporaryEffects: advanceTemporaryEffects(state.temporaryEffects, deltaTime * 1000),
+    })
   }
 
   /**
-   * Calculate automation clicks for offline progress
+   * Update automation systems
+   * Automated clicks are worth a manual click without the testing boost,
+   * and are credited in one step, fractions included, so low rates still pay out at small time steps
    */
-  private calculateAutomationClicks(seconds: number): number {
+  private updateAutomation(deltaTime: number): void {
     const state = this.getGameState()
-    let totalClicks = 0
+    const clicksPerSecond = getDerivedStat(state, 'automationClicksPerSecond').value
     
-    for (const automation of state.automationSystems) {
-      if (automation.owned > 0) {
-        const clicksPerSecond = multiply(automation.clicksPerSecond, decimal(automation.owned))
-        const clicks = multiply(clicksPerSecond, decimal(seconds))
-        totalClicks += Math.floor(clicks.toNumber())
-      }
+    if (clicksPerSecond.equals(ZERO)) {
+      return
     }
     
-    return totalClicks
+    const clicksThisUpdate = multiply(clicksPerSecond, decimal(deltaTime))
+    const earned = multiply(clicksThisUpdate, getDerivedStat(state, 'clickValue').value)
+    
+    this.updateCurrency(earned)
+    this.events.emit({ type: 'CURRENCY_EARNED', payload: { amount: earned, source: 'automation' } })
   }
 
   /**
-   * Purchase an upgrade
+   * Purchase `amount` levels of an upgrade
    */
-  public purchaseUpgrade(upgradeId: string): boolean {
+  public purchaseUpgrade(upgradeId: string, amount: number = 1): boolean {
     const state = this.getGameState()
-    const success = this.upgradeManager.purchaseUpgrade(upgradeId, state)
+    const success = this.upgradeManager.purchaseUpgrade(upgradeId, state, this.now(), amount)
     
     if (success) {
       // Update the store with the modified state
-      this.getStore().setGameState(state)
+      this.setState(state)
     }
     
     return success
@@ -428,11 +691,11 @@ export class GameEngine implements IGameEngine {
    */
   public purchaseMaxUpgrades(upgradeId: string): number {
     const state = this.getGameState()
-    const purchased = this.upgradeManager.purchaseMaxUpgrades(upgradeId, state)
+    const purchased = this.upgradeManager.purchaseMaxUpgrades(upgradeId, state, this.now())
     
     if (purchased > 0) {
       // Update the store with the modified state
-      this.getStore().setGameState(state)
+      this.setState(state)
     }
     
     return purchased
@@ -447,18 +710,18 @@ export class GameEngine implements IGameEngine {
   }
 
   /**
-   * Check if player can afford an upgrade
+   * Check if player can afford `amount` levels of an upgrade
    */
-  public canAffordUpgrade(upgrade: Upgrade): boolean {
+  public canAffordUpgrade(upgrade: Upgrade, amount: number = 1): boolean {
     const state = this.getGameState()
-    return this.upgradeManager.canAffordUpgrade(upgrade, state)
+    return this.upgradeManager.canAffordUpgrade(upgrade, state, amount)
   }
 
   /**
-   * Get the cost of an upgrade
+   * Get the cost of the next `amount` levels of an upgrade
    */
-  public getUpgradeCost(upgrade: Upgrade): Decimal {
-    return this.upgradeManager.getUpgradeCost(upgrade)
+  public getUpgradeCost(upgrade: Upgrade, amount: number = 1): Decimal {
+    return this.upgradeManager.getUpgradeCost(upgrade, amount)
   }
 
   /**
@@ -486,7 +749,7 @@ export class GameEngine implements IGameEngine {
     
     if (success) {
       // Update the store with the modified state
-      this.getStore().setGameState(state)
+      this.setState(state)
     }
     
     return success
@@ -501,7 +764,7 @@ export class GameEngine implements IGameEngine {
     
     if (purchased > 0) {
       // Update the store with the modified state
-      this.getStore().setGameState(state)
+      this.setState(state)
     }
     
     return purchased
@@ -547,6 +810,8 @@ export class GameEngine implements IGameEngine {
       return
     }
     
+    this.backupGame('prestige')
+    
     const prestigeGain = this.calculatePrestigeGain()
     const state = this.getGameState()
     
@@ -578,12 +843,14 @@ export class GameEngine implements IGameEngine {
       unlockedAchievements: state.unlockedAchievements,
       
       // Reset times
-      gameStartTime: Date.now(),
-      lastSaveTime: Date.now(),
-      lastActiveTime: Date.now(),
+      gameStartTime: this.now(),
+      lastSaveTime: this.now(),
+      lastActiveTime: this.now(),
     }
     
-    this.getStore().setGameState(newState)
+    this.setState(newState)
+    
+    this.events.emit({ type: 'PRESTIGE_PERFORMED', payload: { prestigePoints: prestigeGain } })
   }
 
   /**
@@ -591,9 +858,10 @@ export class GameEngine implements IGameEngine {
    */
   public calculatePrestigeGain(): Decimal {
     const state = this.getGameState()
-    // Formula: (totalEarned / threshold)^0.6 where threshold varies by mode
+    // Formula: (totalEarned / threshold)^0.6 × meta prestige multiplier
     const threshold = getPrestigeThreshold()
-    const gain = state.totalEarned.dividedBy(threshold).pow(0.6).floor()
+    const prestigeMultiplier = getMetaPrestigeMultiplier(state, 'prestigeMultiplier')
+    const gain = state.totalEarned.dividedBy(threshold).pow(0.6).times(prestigeMultiplier).floor()
     return gain.greaterThan(ZERO) ? gain : ONE
   }
 
@@ -615,6 +883,8 @@ export class GameEngine implements IGameEngine {
       return false
     }
     
+    this.backupGame('dimension-shift')
+    
     // Reset Dimension 1 progress (keep engagement)
     const newState: GameState = {
       ...state,
@@ -637,18 +907,26 @@ export class GameEngine implements IGameEngine {
       idleGenerators: state.idleGenerators.map(g => ({ ...g, owned: 0 })),
       upgrades: state.upgrades.map(u => ({ ...u, currentPurchases: 0 })),
       purchasedUpgrades: new Set<string>(),
+      automationSystems: state.automationSystems.map(a => ({ ...a, owned: 0 })),
       temporaryEffects: [],
       
+      // Start Dimension 2 fresh
+      reach: ZERO,
+      totalReach: ZERO,
+      influence: ZERO,
+      influenceGenerators: state.influenceGenerators.map(g => ({ ...g, owned: 0, unlocked: !g.unlockCondition })),
+      influenceUpgrades: state.influenceUpgrades.map(u => ({ ...u, currentPurchases: 0, unlocked: !u.unlockCondition })),
+      
       // Keep engagement (this is the permanent carry-over)
       engagement: state.engagement,
       
       // Reset times
-      gameStartTime: Date.now(),
-      lastSaveTime: Date.now(),
-      lastActiveTime: Date.now(),
+      gameStartTime: this.now(),
+      lastSaveTime: this.now(),
+      lastActiveTime: this.now(),
     }
     
-    this.getStore().setGameState(newState)
+    this.setState(newState)
     return true
   }
 
@@ -684,18 +962,19 @@ export class GameEngine implements IGameEngine {
       idleGenerators: state.idleGenerators.map(g => ({ ...g, owned: 0 })),
       upgrades: state.upgrades.map(u => ({ ...u, currentPurchases: 0 })),
       purchasedUpgrades: new Set<string>(),
+      automationSystems: state.automationSystems.map(a => ({ ...a, owned: 0 })),
       temporaryEffects: [],
       
       // Keep engagement
       engagement: state.engagement,
       
       // Reset times
-      gameStartTime: Date.now(),
-      lastSaveTime: Date.now(),
-      lastActiveTime: Date.now(),
+      gameStartTime: this.now(),
+      lastSaveTime: this.now(),
+      lastActiveTime: this.now(),
     }
     
-    this.getStore().setGameState(newState)
+    this.setState(newState)
     return true
   }
 
@@ -703,9 +982,40 @@ export class GameEngine implements IGameEngine {
    * Purchase prestige upgrade
    */
   public purchasePrestigeUpgrade(upgradeId: string): boolean {
-    // Implementation will be added when prestige upgrades are defined
-    console.log(`Prestige upgrade ${upgradeId} not yet implemented`)
-    return false
+    const state = this.getGameState()
+    this.prestigeManager.initializePrestigeUpgrades(state)
+    const success = this.prestigeManager.purchasePrestigeUpgrade(upgradeId, state)
+    
+    if (success) {
+      // Update the store with the modified state
+      this.setState(state)
+    }
+    
+    return success
+  }
+
+  /**
+   * Get the prestige upgrade shop
+   */
+  public getPrestigeUpgrades(): PrestigeUpgrade[] {
+    const state = this.getGameState()
+    this.prestigeManager.initializePrestigeUpgrades(state)
+    return state.prestigeUpgrades
+  }
+
+  /**
+   * Check if player can afford a prestige upgrade
+   */
+  public canAffordPrestigeUpgrade(upgrade: PrestigeUpgrade): boolean {
+    const state = this.getGameState()
+    return this.prestigeManager.canAffordPrestigeUpgrade(upgrade, state)
+  }
+
+  /**
+   * Get the Strategy Point cost of a prestige upgrade
+   */
+  public getPrestigeUpgradeCost(upgrade: PrestigeUpgrade): Decimal {
+    return this.prestigeManager.getPrestigeUpgradeCost(upgrade)
   }
 
   /**
@@ -713,7 +1023,8 @@ export class GameEngine implements IGameEngine {
    */
   public canMetaPrestige(): boolean {
     const state = this.getGameState()
-    return state.totalPrestiges >= 10 && greaterThanOrEqual(state.prestigePoints, decimal(1000))
+    return state.totalPrestiges >= META_PRESTIGE_REQUIRED_PRESTIGES &&
+      greaterThanOrEqual(state.prestigePoints, decimal(META_PRESTIGE_REQUIRED_POINTS))
   }
 
   /**
@@ -724,13 +1035,16 @@ export class GameEngine implements IGameEngine {
       return
     }
     
+    this.backupGame('meta-prestige')
+    
     const metaPrestigeGain = this.calculateMetaPrestigeGain()
     const state = this.getGameState()
     
-    // Reset everything except meta prestige and achievements
+    // Reset everything except meta prestige, achievements and engagement
     const newState: GameState = {
       ...state,
       currency: ZERO,
+      views: ZERO,
       totalClicks: 0,
       totalEarned: ZERO,
       baseClickValue: ONE,
@@ -746,22 +1060,30 @@ export class GameEngine implements IGameEngine {
       purchasedPrestigeUpgrades: new Set<string>(),
       totalPrestiges: 0,
       automationSystems: state.automationSystems.map(a => ({ ...a, owned: 0 })),
+      temporaryEffects: [],
       
       // Keep meta prestige progress
       metaPrestigePoints: add(state.metaPrestigePoints, metaPrestigeGain),
+      metaPrestigeUpgrades: state.metaPrestigeUpgrades,
+      purchasedMetaPrestigeUpgrades: state.purchasedMetaPrestigeUpgrades,
       totalMetaPrestiges: state.totalMetaPrestiges + 1,
       
+      // Engagement never resets, even through meta prestige
+      engagement: state.engagement,
+      
       // Keep achievements
       achievements: state.achievements,
       unlockedAchievements: state.unlockedAchievements,
       
       // Reset times
-      gameStartTime: Date.now(),
-      lastSaveTime: Date.now(),
-      lastActiveTime: Date.now(),
+      gameStartTime: this.now(),
+      lastSaveTime: this.now(),
+      lastActiveTime: this.now(),
     }
     
-    this.getStore().setGameState(newState)
+    this.setState(newState)
+    
+    this.events.emit({ type: 'META_PRESTIGE_PERFORMED', payload: { metaPrestigePoints: metaPrestigeGain } })
   }
 
   /**
@@ -778,9 +1100,40 @@ export class GameEngine implements IGameEngine {
    * Purchase meta prestige upgrade
    */
   public purchaseMetaPrestigeUpgrade(upgradeId: string): boolean {
-    // Implementation will be added when meta prestige upgrades are defined
-    console.log(`Meta prestige upgrade ${upgradeId} not yet implemented`)
-    return false
+    const state = this.getGameState()
+    this.prestigeManager.initializeMetaPrestigeUpgrades(state)
+    const success = this.prestigeManager.purchaseMetaPrestigeUpgrade(upgradeId, state)
+    
+    if (success) {
+      // Update the store with the modified state
+      this.setState(state)
+    }
+    
+    return success
+  }
+
+  /**
+   * Get the meta prestige upgrade tree
+   */
+  public getMetaPrestigeUpgrades(): MetaPrestigeUpgrade[] {
+    const state = this.getGameState()
+    this.prestigeManager.initializeMetaPrestigeUpgrades(state)
+    return state.metaPrestigeUpgrades
+  }
+
+  /**
+   * Check if player can afford a meta prestige upgrade
+   */
+  public canAffordMetaPrestigeUpgrade(upgrade: MetaPrestigeUpgrade): boolean {
+    const state = this.getGameState()
+    return this.prestigeManager.canAffordMetaPrestigeUpgrade(upgrade, state)
+  }
+
+  /**
+   * Get the Legacy Point cost of a meta prestige upgrade
+   */
+  public getMetaPrestigeUpgradeCost(upgrade: MetaPrestigeUpgrade): Decimal {
+    return this.prestigeManager.getPrestigeUpgradeCost(upgrade)
   }
 
   /**
@@ -788,51 +1141,129 @@ export class GameEngine implements IGameEngine {
    */
   public purchaseAutomation(automationId: string, amount: number = 1): boolean {
     const state = this.getGameState()
-    const automation = state.automationSystems.find(a => a.id === automationId)
+    const success = this.automationManager.purchaseAutomation(automationId, state, amount)
     
-    if (!automation || !this.canAffordAutomation(automation, amount)) {
-      return false
+    if (success) {
+      // Update the store with the modified state
+      this.setState(state)
     }
     
-    const cost = this.getAutomationCost(automation, amount)
-    
-    // Deduct cost
-    this.getStore().updateCurrency(cost.negated())
-    
-    // Add automation
-    automation.owned += amount
-    
-    return true
+    return success
   }
 
   /**
    * Check if player can afford automation
    */
   public canAffordAutomation(automation: AutomationSystem, amount: number = 1): boolean {
+    return this.automationManager.canAffordAutomation(automation, this.getGameState(), amount)
+  }
+
+  /**
+   * Get automation cost
+   */
+  public getAutomationCost(automation: AutomationSystem, amount: number = 1): Decimal {
+    return this.automationManager.getAutomationCost(automation, amount)
+  }
+
+  /**
+   * Reach per second from Dimension 2 generators
+   */
+  public getReachPerSecond(): Decimal {
+    return this.influenceManager.calculateReachPerSecond(this.getGameState())
+  }
+
+  /**
+   * Reach per manual click in Dimension 2
+   */
+  public getReachPerClick(): Decimal {
+    return this.influenceManager.calculateReachPerClick(this.getGameState())
+  }
+
+  /**
+   * Purchase a Dimension 2 generator
+   */
+  public purchaseInfluenceGenerator(generatorId: string, amount: number = 1): boolean {
     const state = this.getGameState()
+    const success = this.influenceManager.purchaseGenerator(generatorId, state, amount)
     
-    if (!automation.unlocked) {
-      return false
+    if (success) {
+      // Update the store with the modified state
+      this.setState(state)
     }
     
-    const cost = this.getAutomationCost(automation, amount)
-    return greaterThanOrEqual(state.currency, cost)
+    return success
   }
 
   /**
-   * Get automation cost
+   * Check if player can afford a Dimension 2 generator
    */
-  public getAutomationCost(automation: AutomationSystem, amount: number = 1): Decimal {
-    let totalCost = ZERO
+  public canAffordInfluenceGenerator(generator: IdleGenerator, amount: number = 1): boolean {
+    return this.influenceManager.canAffordGenerator(generator, this.getGameState(), amount)
+  }
+
+  /**
+   * Get Dimension 2 generator cost
+   */
+  public getInfluenceGeneratorCost(generator: IdleGenerator, amount: number = 1): Decimal {
+    return this.influenceManager.getGeneratorCost(generator, amount)
+  }
+
+  /**
+   * Purchase a level of a Dimension 2 upgrade
+   */
+  public purchaseInfluenceUpgrade(upgradeId: string): boolean {
+    const state = this.getGameState()
+    const success = this.influenceManager.purchaseUpgrade(upgradeId, state, this.now())
+    
+    if (success) {
+      // Update the store with the modified state
+      this.setState(state)
+    }
+    
+    return success
+  }
+
+  /**
+   * Check if player can afford a Dimension 2 upgrade
+   */
+  public canAffordInfluenceUpgrade(upgrade: Upgrade): boolean {
+    return this.influenceManager.canAffordUpgrade(upgrade, this.getGameState())
+  }
+
+  /**
+   * Get Dimension 2 upgrade cost
+   */
+  public getInfluenceUpgradeCost(upgrade: Upgrade): Decimal {
+    return this.influenceManager.getUpgradeCost(upgrade)
+  }
+
+  /**
+   * Reach needed for the next point of Influence
+   */
+  public getInfluenceCost(): Decimal {
+    return this.influenceManager.getInfluenceCost(this.getGameState())
+  }
+
+  /**
+   * Check if player can buy the next point of Influence
+   */
+  public canPurchaseInfluence(): boolean {
+    return this.influenceManager.canPurchaseInfluence(this.getGameState())
+  }
+
+  /**
+   * Spend Reach on one point of Influence
+   */
+  public purchaseInfluence(): boolean {
+    const state = this.getGameState()
+    const success = this.influenceManager.purchaseInfluence(state)
     
-    for (let i = 0; i < amount; i++) {
-      const currentOwned = automation.owned + i
-      const multiplier = automation.costMultiplier.pow(currentOwned)
-      const cost = multiply(automation.baseCost, multiplier)
-      totalCost = add(totalCost, cost)
+    if (success) {
+      // Update the store with the modified state
+      this.setState(state)
     }
     
-    return totalCost
+    return success
   }
 
   /**
@@ -840,20 +1271,11 @@ export class GameEngine implements IGameEngine {
    */
   public checkAchievements(): Achievement[] {
     const state = this.getGameState()
-    const newlyUnlocked: Achievement[] = []
+    const newlyUnlocked = this.achievementManager.checkAchievements(state)
     
-    for (const achievement of state.achievements) {
-      if (!achievement.unlocked && achievement.unlockCondition(state)) {
-        achievement.unlocked = true
-        state.unlockedAchievements.add(achievement.id)
-        
-        // Apply reward if exists
-        if (achievement.reward) {
-          achievement.reward.apply(state)
-        }
-        
-        newlyUnlocked.push(achievement)
-      }
+    if (newlyUnlocked.length > 0) {
+      // Update the store with the modified state
+      this.setState(state)
     }
     
     return newlyUnlocked
@@ -866,33 +1288,40 @@ export class GameEngine implements IGameEngine {
     const state = this.getGameState()
     const achievement = state.achievements.find(a => a.id === achievementId)
     
-    if (!achievement || achievement.unlocked) {
+    if (!achievement || !this.achievementManager.unlockAchievement(achievement, state)) {
       return false
     }
     
-    achievement.unlocked = true
-    state.unlockedAchievements.add(achievementId)
-    
-    if (achievement.reward) {
-      achievement.reward.apply(state)
-    }
-    
+    this.setState(state)
     return true
   }
 
+  /**
+   * Completion ratio (0-1) of an achievement
+   */
+  public getAchievementProgress(achievement: Achievement): number {
+    return this.achievementManager.getProgress(achievement, this.getGameState())
+  }
+
   /**
    * Save game
    */
   public saveGame(): void {
-    this.getStore().saveGame()
+    const now = this.now()
+    this.setState({
+      ...this.getGameState(),
+      lastSaveTime: now,
+    })
+    this.events.emit({ type: 'GAME_SAVED', payload: { timestamp: now } })
   }
 
   /**
-   * Load game
+   * Load game, migrating saves from older versions
    */
   public loadGame(saveData: SaveData): boolean {
     try {
-      this.getStore().loadGame(saveData)
+      this.setState(deserializeGameState(migrateSaveData(saveData).gameState))
+      this.events.emit({ type: 'GAME_LOADED', payload: { timestamp: this.now() } })
       return true
     } catch (error) {
       console.error('Failed to load game:', error)
@@ -904,14 +1333,83 @@ export class GameEngine implements IGameEngine {
    * Export save
    */
   public exportSave(): string {
-    return this.getStore().exportSave()
+    return encodeSaveString(createSaveData(this.getGameState(), this.now()), this.saveFormat)
+  }
+
+  /**
+   * Import save from a string in either format
+   * Saves with validation issues are refused unless repair is requested
+   * The current game is left untouched unless the import succeeds
+   */
+  public importSave(saveString: string, options: SaveImportOptions = {}): SaveImportResult {
+    const decoded = decodeSaveString(saveString, options)
+    if (decoded.status !== 'ok') {
+      console.error('Failed to import save:', decoded.error)
+      return decoded
+    }
+
+    this.backupGame('import')
+    if (!this.loadGame(decoded.saveData)) {
+      return { status: 'corrupt', error: 'Save data could not be loaded' }
+    }
+    return { status: 'ok', repairs: decoded.repairs }
+  }
+
+  /**
+   * Save slots and automatic backups, newest first
+   */
+  public listSaveSlots(): SaveSlot[] {
+    return this.saveSlots.listSlots()
+  }
+
+  /**
+   * Save the current game to a named slot, overwriting slotId when given
+   */
+  public saveToSlot(name: string, slotId?: string): SaveSlot {
+    return this.saveSlots.saveSlot(name, this.getGameState(), this.now(), slotId)
+  }
+
+  /**
+   * Back up the current game before a destructive operation
+   */
+  public backupGame(reason: BackupReason): SaveSlot {
+    return this.saveSlots.createBackup(reason, this.getGameState(), this.now())
+  }
+
+  /**
+   * Replace the current game with a slot, backing it up first
+   */
+  public restoreSaveSlot(slotId: string): SaveImportResult {
+    const slot = this.saveSlots.getSlot(slotId)
+    if (!slot) {
+      return { status: 'corrupt', error: `Save slot ${slotId} not found` }
+    }
+
+    const decoded = decodeSaveString(slot.saveString)
+    if (decoded.status !== 'ok') {
+      console.error('Failed to restore save slot:', decoded.error)
+      return decoded
+    }
+
+    this.backupGame('restore')
+    if (!this.loadGame(decoded.saveData)) {
+      return { status: 'corrupt', error: 'Save data could not be loaded' }
+    }
+    return { status: 'ok' }
   }
 
   /**
-   * Import save
+   * Copy a slot into a new named slot
    */
-  public importSave(saveString: string): boolean {
-    return this.getStore().importSave(saveString)
+  public duplicateSaveSlot(slotId: string): SaveSlot | null {
+    return this.saveSlots.duplicateSlot(slotId, this.now())
+  }
+
+  /**
+   * Delete a slot
+   */
+  public deleteSaveSlot(slotId: string): boolean {
+    return this.saveSlots.deleteSlot(slotId)
   }
 
   /**
@@ -927,24 +1425,34 @@ export class GameEngine implements IGameEngine {
   public calculateUpgradeCumulativeEffect(upgrade: Upgrade): { type: string; value: import('decimal.js').default } {
     return this.upgradeManager.calculateCumulativeEffect(upgrade)
   }
+
+  /**
+   * Get the current game state
+   */
   public getGameState(): GameState {
-    return this.getStore().getGameState()
+    return this.workingState ?? this.store.getGameState()
   }
 
   /**
    * Update settings
    */
   public updateSettings(settings: Partial<GameSettings>): void {
-    this.getStore().updateSettings(settings)
+    const state = this.getGameState()
+    this.setState({
+      ...state,
+      settings: {
+        ...state.settings,
+        ...settings,
+      },
+    })
   }
 
-
-
   /**
    * Reset game
    */
   public resetGame(): void {
-    this.getStore().resetGame()
+    this.backupGame('reset')
+    this.setState(createInitialGameState(this.now()))
   }
 
   /**
@@ -957,7 +1465,7 @@ export class GameEngine implements IGameEngine {
       return
     }
     
-    const now = Date.now()
+    const now = this.now()
     const timeSinceLastSave = (now - state.lastSaveTime) / 1000
     
     if (timeSinceLastSave >= state.settings.autoSaveInterval) {
@@ -965,38 +1473,3 @@ export class GameEngine implements IGameEngine {
     }
   }
 }
-
-/**
- * Global game engine instance
- */
-export const gameEngine = new GameEngine()
-
-/**
- * Debug utility to clear localStorage (call from browser console)
- */
-if (typeof window !== 'undefined') {
-  (window as any).clearGameData = () => {
-    console.log('Clearing game data and reloading...')
-    localStorage.removeItem('idle-clicker-game-storage')
-    window.location.reload()
-  }
-  
-  (window as any).debugGameState = () => {
-    const state = gameEngine.getGameState()
-    console.log('Current Game State:')
-    console.log('Currency:', state.currency.toString())
-    console.log('Total Earned:', state.totalEarned.toString())
-    console.log('Total Clicks:', state.totalClicks)
-    console.log('Generators:', state.idleGenerators.map(g => ({
-      id: g.id,
-      name: g.name,
-      unlocked: g.unlocked,
-      owned: g.owned
-    })))
-    return state
-  }
-  
-  console.log('Debug commands available:')
-  console.log('- clearGameData() - Clear all save data and reload')
-  console.log('- debugGameState() - Show current game state')
-}
\ No newline at end of file
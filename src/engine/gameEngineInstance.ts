@@ -0,0 +1,109 @@
+import { GameEngine } from './gameEngine'
+import type { GameEngineOptions } from './gameEngine'
+import { WorkerGameEngine } from './workerGameEngine'
+import { SaveSlotStore } from './saveSlots'
+import { TAB_LEADER_KEY } from './tabLeader'
+import type { OfflineProgress } from '../types/gameTypes'
+import { useGameStore, gameStateStore, gameEvents, tabLeader } from '../stores/gameStore'
+
+const engineOptions: GameEngineOptions = {
+  store: gameStateStore,
+  events: gameEvents,
+  saveFormat: import.meta.env.DEV ? 'json' : 'encoded',
+  saveSlots: new SaveSlotStore(localStorage),
+}
+
+/**
+ * Global game engine instance for the browser app
+ * Wired to the Zustand store; the React components read state from the store
+ * The simulation runs in a Web Worker, or on the main thread where workers are unavailable (tests, old browsers)
+ * Save strings are readable JSON in development and encoded in production builds
+ */
+export const gameEngine: GameEngine = typeof Worker !== 'undefined'
+  ? new WorkerGameEngine(new Worker(new URL('./gameWorker.ts', import.meta.url), { type: 'module' }), engineOptions)
+  : new GameEngine(engineOptions)
+
+/**
+ * Election deciding which open tab runs the game; the store only lets the leader write the save
+ */
+export { tabLeader }
+
+/**
+ * Offline progress granted when this tab took over the game, kept until the player dismisses the summary
+ * On startup the UI mounts after the event has fired, so it reads this instead
+ */
+let startupOfflineProgress: OfflineProgress | null = null
+
+export const getStartupOfflineProgress = (): OfflineProgress | null => startupOfflineProgress
+
+export const clearStartupOfflineProgress = (): void => {
+  startupOfflineProgress = null
+}
+
+/**
+ * Hidden pages do not run the loop; the time is made up when the page is shown again
+ */
+const pauseIfHidden = (): void => {
+  if (typeof document !== 'undefined' && document.visibilityState === 'hidden') {
+    gameEngine.pauseForBackground()
+  }
+}
+
+/**
+ * Start running the game in this tab
+ * The previous leader kept saving until it stepped down, so reload its state before the loop starts
+ */
+const resumeAsLeader = async (): Promise<void> => {
+  await useGameStore.persist.rehydrate()
+  if (tabLeader.getRole() !== 'leader') {
+    return
+  }
+  if (gameEngine instanceof WorkerGameEngine) {
+    gameEngine.syncFromStore()
+  }
+  startupOfflineProgress = gameEngine.applyOfflineProgress()
+  gameEngine.startGameLoop()
+  pauseIfHidden()
+}
+
+// Runs for the first election too, which start() settles straight away
+tabLeader.subscribe((role) => {
+  if (role === 'leader') {
+    void resumeAsLeader()
+  } else {
+    gameEngine.stopGameLoop()
+  }
+})
+
+tabLeader.start()
+
+/**
+ * Pause while the tab is in the background and catch up when the player comes back
+ */
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      gameEngine.resumeFromBackground()
+    } else {
+      pauseIfHidden()
+    }
+  })
+}
+
+/**
+ * Follow leadership changes made by other tabs, and hand the game over when this tab closes
+ */
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === TAB_LEADER_KEY || event.key === null) {
+      tabLeader.handleStorageChange()
+    }
+  })
+  window.addEventListener('pagehide', () => tabLeader.stop())
+  window.addEventListener('pageshow', (event) => {
+    // Restored from the back/forward cache: rejoin the election
+    if (event.persisted) {
+      tabLeader.start()
+    }
+  })
+}
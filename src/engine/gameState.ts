@@ -0,0 +1,150 @@
+import Decimal from 'decimal.js'
+import type { GameState, GameSettings } from '../types/gameTypes'
+import { decimal, ZERO, ONE } from '../utils/decimal'
+
+/**
+ * Default game settings
+ */
+export const DEFAULT_SETTINGS: GameSettings = {
+  numberFormat: 'suffix',
+  autoSave: true,
+  autoSaveInterval: 30,
+  showTooltips: true,
+  showNotifications: true,
+  offlineProgressNotification: true,
+  theme: 'auto',
+  buyAmount: 'x1',
+}
+
+/**
+ * Window (in milliseconds) used to measure the manual click rate
+ */
+export const RECENT_CLICK_WINDOW = 2000
+
+/**
+ * Create initial game state
+ */
+export function createInitialGameState(now: number = Date.now()): GameState {
+  return {
+    // Current dimension
+    currentDimension: 1,
+
+    // Dimension 1: Content (YouTube Creator)
+    currency: ZERO, // Clicks - starts at 0
+    views: ZERO, // Views - starts at 0
+    engagement: 1, // Engagement level - starts at 1 (x1 multiplier)
+
+    // Dimension 2: Influence (Corporate)
+    reach: ZERO, // Reach - starts at 0
+    totalReach: ZERO,
+    influence: ZERO, // Influence - starts at 0
+    influenceGenerators: [],
+    influenceUpgrades: [],
+
+    // Basic game data
+    totalClicks: 0,
+    totalEarned: ZERO,
+    gameStartTime: now,
+    lastSaveTime: now,
+    lastActiveTime: now,
+
+    // Manual click rate tracking
+    recentClicks: [], // Array of timestamps for recent clicks
+
+    // Click system
+    clickMultiplier: ONE,
+    baseClickValue: ONE,
+
+    // Idle system
+    idleGenerators: [],
+    idleMultiplier: ONE,
+    offlineProgressRate: 0, // Starts at 0%, unlocked via prestige
+    maxOfflineHours: 1,
+
+    // Upgrades
+    upgrades: [],
+    purchasedUpgrades: new Set<string>(),
+
+    // Prestige system
+    prestigePoints: ZERO,
+    prestigeUpgrades: [],
+    purchasedPrestigeUpgrades: new Set<string>(),
+    totalPrestiges: 0,
+
+    // Meta prestige system
+    metaPrestigePoints: ZERO,
+    metaPrestigeUpgrades: [],
+    purchasedMetaPrestigeUpgrades: new Set<string>(),
+    totalMetaPrestiges: 0,
+
+    // Automation
+    automationSystems: [],
+
+    // Achievements
+    achievements: [],
+    unlockedAchievements: new Set<string>(),
+
+    // Temporary effects
+    temporaryEffects: [],
+
+    // Bot simulation speed (1 = normal speed)
+    simulationSpeed: 1,
+
+    // Settings
+    settings: { ...DEFAULT_SETTINGS },
+  }
+}
+
+/**
+ * Add (or with a negative amount, deduct) Clicks
+ * Only positive amounts count towards totalEarned
+ */
+export function applyCurrencyChange(state: GameState, amount: Decimal, now: number): GameState {
+  return {
+    ...state,
+    currency: decimal(state.currency).plus(amount),
+    totalEarned: decimal(state.totalEarned).plus(amount.isPositive() ? amount : ZERO),
+    lastActiveTime: now,
+  }
+}
+
+/**
+ * Record a manual click for the click rate window
+ */
+export function recordManualClick(state: GameState, now: number): GameState {
+  // Add current timestamp and filter out clicks older than the window
+  const recentClicks = [...state.recentClicks, now]
+    .filter(timestamp => now - timestamp <= RECENT_CLICK_WINDOW)
+
+  return {
+    ...state,
+    recentClicks,
+    totalClicks: state.totalClicks + 1,
+    lastActiveTime: now,
+  }
+}
+
+/**
+ * Copy a state deep enough that the managers' in-place updates leave the original untouched
+ * Entries are copied one level down; Decimals and functions are immutable and stay shared
+ */
+export function cloneGameState(state: GameState): GameState {
+  return {
+    ...state,
+    influenceGenerators: state.influenceGenerators.map(generator => ({ ...generator })),
+    influenceUpgrades: state.influenceUpgrades.map(upgrade => ({ ...upgrade })),
+    recentClicks: [...state.recentClicks],
+    idleGenerators: state.idleGenerators.map(generator => ({ ...generator })),
+    upgrades: state.upgrades.map(upgrade => ({ ...upgrade })),
+    purchasedUpgrades: new Set(state.purchasedUpgrades),
+    prestigeUpgrades: state.prestigeUpgrades.map(upgrade => ({ ...upgrade })),
+    purchasedPrestigeUpgrades: new Set(state.purchasedPrestigeUpgrades),
+    metaPrestigeUpgrades: state.metaPrestigeUpgrades.map(upgrade => ({ ...upgrade })),
+    purchasedMetaPrestigeUpgrades: new Set(state.purchasedMetaPrestigeUpgrades),
+    automationSystems: state.automationSystems.map(system => ({ ...system })),
+    achievements: state.achievements.map(achievement => ({ ...achievement })),
+    unlockedAchievements: new Set(state.unlockedAchievements),
+    temporaryEffects: state.temporaryEffects.map(effect => ({ ...effect, params: { ...effect.params } })),
+    settings: { ...state.settings },
+  }
+}
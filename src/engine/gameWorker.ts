@@ -0,0 +1,7 @@
+import { createGameWorkerHost } from './gameWorkerHost'
+import type { MessagePortLike } from './workerProtocol'
+
+/**
+ * Web Worker entry point: the game simulation runs here, off the main thread
+ */
+createGameWorkerHost(self as unknown as MessagePortLike)
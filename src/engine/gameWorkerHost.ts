@@ -0,0 +1,90 @@
+import type { Clock, GameEvent, Scheduler } from '../types/gameTypes'
+import { GameEngine } from './gameEngine'
+import { GameEventBus } from './eventBus'
+import { createMemoryGameStore } from './memoryStore'
+import { intervalScheduler } from './scheduler'
+import { serializeGameState, deserializeGameState } from './serialization'
+import { toTransferable, fromTransferable } from './workerProtocol'
+import type { MainToWorkerMessage, MessagePortLike, WorkerSnapshot } from './workerProtocol'
+
+/**
+ * Event bus that also collects every event for the next snapshot
+ */
+class CollectingEventBus extends GameEventBus {
+  public pending: unknown[] = []
+
+  public emit(event: GameEvent): void {
+    super.emit(event)
+    this.pending.push(toTransferable(event))
+  }
+}
+
+/**
+ * Run the authoritative game engine behind a message port (inside the Web Worker)
+ * Applies the main thread's messages in order and posts a snapshot after every loop callback,
+ * plus one for any messages handled since, deferred so a burst of commands shares it
+ * Returns the engine so tests can drive it directly
+ */
+export function createGameWorkerHost(
+  port: MessagePortLike,
+  options: { clock?: Clock; scheduler?: Scheduler; defer?: (callback: () => void) => void } = {}
+): GameEngine {
+  const scheduler = options.scheduler ?? intervalScheduler
+  const defer = options.defer ?? ((callback: () => void) => { setTimeout(callback, 0) })
+  const store = createMemoryGameStore()
+  const events = new CollectingEventBus()
+  let appliedSeq = 0
+  let snapshotQueued = false
+
+  const postSnapshot = () => {
+    snapshotQueued = false
+    const snapshot: WorkerSnapshot = {
+      seq: appliedSeq,
+      state: serializeGameState(store.getGameState()),
+      events: events.pending,
+    }
+    events.pending = []
+    port.postMessage(snapshot)
+  }
+
+  // At most one snapshot per task; a loop callback that runs first already covers it
+  const queueSnapshot = () => {
+    if (snapshotQueued) return
+    snapshotQueued = true
+    defer(() => {
+      if (snapshotQueued) postSnapshot()
+    })
+  }
+
+  // Snapshot once per loop callback, however many steps it ran
+  const snapshottingScheduler: Scheduler = {
+    setInterval: (callback, intervalMs) => scheduler.setInterval(() => {
+      callback()
+      postSnapshot()
+    }, intervalMs),
+    clearInterval: (handle) => scheduler.clearInterval(handle),
+  }
+
+  // Save slots stay on the main thread, which has localStorage; backups taken here are discarded
+  const engine = new GameEngine({ store, events, clock: options.clock, scheduler: snapshottingScheduler })
+
+  port.addEventListener('message', ({ data }) => {
+    const message = data as MainToWorkerMessage
+    appliedSeq = message.seq
+
+    try {
+      if (message.type === 'load') {
+        store.setGameState(deserializeGameState(message.state))
+      } else {
+        const method = engine[message.command] as (...args: unknown[]) => unknown
+        method.apply(engine, fromTransferable(message.args) as unknown[])
+      }
+    } catch (error) {
+      console.error(`Worker failed to handle ${message.type === 'load' ? 'load' : message.command}:`, error)
+    }
+
+    queueSnapshot()
+  })
+
+  return engine
+}
@@ -0,0 +1,370 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import type Decimal from 'decimal.js'
+import { GameEngine, FIXED_TIMESTEP_MS, MAX_CATCH_UP_STEPS, TICK_SYSTEMS } from './gameEngine'
+import { createMemoryGameStore } from './memoryStore'
+import { createInitialGameState } from './gameState'
+import { createManualClock, createManualScheduler } from './scheduler'
+import { decimal } from '../utils/decimal'
+import type { GameState, GameStateStore } from '../types/gameTypes'
+
+describe('Headless GameEngine', () => {
+  it('should run without a DOM', () => {
+    expect(typeof window).toBe('undefined')
+
+    const engine = new GameEngine()
+    engine.performClick()
+
+    expect(engine.getGameState().currency.equals(decimal(1))).toBe(true)
+  })
+
+  it('should keep separate engine instances independent', () => {
+    const engineA = new GameEngine({ store: createMemoryGameStore() })
+    const engineB = new GameEngine({ store: createMemoryGameStore() })
+
+    engineA.performClick()
+    engineA.performClick()
+    engineB.performClick()
+
+    expect(engineA.getGameState().totalClicks).toBe(2)
+    expect(engineB.getGameState().totalClicks).toBe(1)
+  })
+
+  it('should only run the loop through the injected scheduler', () => {
+    const clock = createManualClock(1_000_000)
+    const scheduler = createManualScheduler()
+    const { fire, size } = scheduler
+    const initialState = createInitialGameState(clock.now())
+    const engine = new GameEngine({ store: createMemoryGameStore(initialState), clock, scheduler })
+
+    expect(size()).toBe(0)
+    engine.startGameLoop()
+    expect(size()).toBe(1)
+    expect(engine.isRunning()).toBe(true)
+
+    // Buy a Click Bot and let one second pass
+    engine.tick(0)
+    engine.getGameState().currency = decimal(100)
+    engine.purchaseGenerator('bot', 1)
+    clock.advance(1000)
+    fire()
+
+    const state = engine.getGameState()
+    expect(state.views.equals(decimal(1))).toBe(true)
+    expect(state.lastActiveTime).toBe(clock.now())
+
+    engine.stopGameLoop()
+    expect(size()).toBe(0)
+  })
+
+  it('should return the new state from tick', () => {
+    const engine = new GameEngine()
+    const state = engine.tick(0)
+
+    expect(state.upgrades.length).toBeGreaterThan(0)
+    expect(state.idleGenerators.length).toBeGreaterThan(0)
+  })
+})
+
+describe('Fixed timestep', () => {
+  const START = 1_000_000
+
+  /**
+   * Build an engine on a manual clock with one Click Bot owned
+   */
+  function createEngine() {
+    const clock = createManualClock(START)
+    const engine = new GameEngine({
+      store: createMemoryGameStore(createInitialGameState(START)),
+      clock,
+      scheduler: createManualScheduler(),
+    })
+    engine.tick(0)
+    engine.getGameState().idleGenerators.find(g => g.id === 'bot')!.owned = 1
+    return { clock, engine }
+  }
+
+  it('should run whole steps and carry the remainder in the accumulator', () => {
+    const { engine } = createEngine()
+
+    expect(engine.advance(250)).toBe(2)
+    expect(engine.advance(50)).toBe(1) // 50ms left over + 50ms
+
+    // 3 steps of 0.1s at 1 view/sec
+    expect(engine.getGameState().views.toFixed(1)).toBe('0.3')
+  })
+
+  it('should cap catch-up and drop the rest of a long gap', () => {
+    const { engine } = createEngine()
+
+    const steps = engine.advance(60 * 60 * 1000)
+
+    expect(steps).toBe(MAX_CATCH_UP_STEPS)
+    expect(engine.advance(0)).toBe(0) // Backlog was not kept
+  })
+
+  it('should stamp each step with its own simulated time', () => {
+    const { engine } = createEngine()
+
+    engine.advance(FIXED_TIMESTEP_MS * 3)
+
+    expect(engine.getGameState().lastActiveTime).toBe(START + FIXED_TIMESTEP_MS * 3)
+  })
+
+  it('should produce identical state for identical inputs', () => {
+    const run = () => {
+      const { clock, engine } = createEngine()
+      engine.getGameState().currency = decimal(10000)
+      for (let i = 0; i < 50; i++) {
+        engine.performClick()
+        if (i === 10) engine.purchaseGenerator('bot', 1)
+        clock.advance(137)
+        engine.advance(137)
+      }
+      return engine.exportSave()
+    }
+
+    expect(run()).toBe(run())
+  })
+
+  it('should expire temporary effects on simulated time', () => {
+    const { clock, engine } = createEngine()
+    const state = engine.getGameState()
+    state.currency = decimal(1000)
+    state.totalEarned = decimal(1000)
+    engine.tick(0)
+
+    expect(engine.purchaseUpgrade('click-power-3')).toBe(true)
+    expect(engine.getGameState().clickMultiplier.equals(decimal(1))).toBe(true)
+    expect(engine.getGameState().temporaryEffects[0].remaining).toBe(10000)
+    expect(engine.performClick().equals(decimal(5))).toBe(true)
+
+    // 9.9 seconds later the effect is still active
+    clock.advance(9900)
+    engine.advance(9900)
+    expect(engine.getGameState().temporaryEffects).toHaveLength(1)
+
+    clock.advance(100)
+    engine.advance(100)
+    expect(engine.getGameState().temporaryEffects).toHaveLength(0)
+    expect(engine.performClick().equals(decimal(1))).toBe(true)
+  })
+
+  it('should auto-save on the configured game-time interval', () => {
+    const { engine } = createEngine()
+    const interval = engine.getGameState().settings.autoSaveInterval * 1000
+
+    engine.advance(interval - FIXED_TIMESTEP_MS)
+    expect(engine.getGameState().lastSaveTime).toBe(START)
+
+    engine.advance(FIXED_TIMESTEP_MS)
+    expect(engine.getGameState().lastSaveTime).toBe(START + interval)
+  })
+})
+
+describe('Offline progress', () => {
+  const START = 10_000_000
+  const HOUR = 3600 * 1000
+
+  /**
+   * Build an engine with generators and automation running
+   */
+  function createEngine(lastActiveTime: number) {
+    const clock = createManualClock(START)
+    const engine = new GameEngine({
+      store: createMemoryGameStore(createInitialGameState(START)),
+      clock,
+      scheduler: createManualScheduler(),
+    })
+    engine.tick(0)
+    
+    const state = engine.getGameState()
+    state.idleGenerators.find(g => g.id === 'bot')!.owned = 40
+    state.automationSystems.find(a => a.id === 'macro-script')!.owned = 1 // 10 clicks per second
+    state.offlineProgressRate = 1
+    state.maxOfflineHours = 1
+    state.lastActiveTime = lastActiveTime
+    // One-time achievement grants already collected, so they stay out of the comparison
+    state.achievements.filter(a => a.reward?.type === 'currency').forEach(a => { a.unlocked = true })
+    return engine
+  }
+
+  it('should earn the same in an hour offline as in an hour of play', () => {
+    const online = createEngine(START)
+    const batch = FIXED_TIMESTEP_MS * MAX_CATCH_UP_STEPS
+    for (let elapsed = 0; elapsed < HOUR; elapsed += batch) {
+      online.advance(batch)
+    }
+    
+    const offline = createEngine(START - HOUR)
+    const progress = offline.applyOfflineProgress()!
+    
+    const onlineState = online.getGameState()
+    const offlineState = offline.getGameState()
+    
+    expect(progress.automationEarnings.equals(decimal(36000))).toBe(true)
+    expect(Math.abs(offlineState.views.toNumber() / onlineState.views.toNumber() - 1)).toBeLessThan(0.01)
+    expect(Math.abs(offlineState.currency.toNumber() / onlineState.currency.toNumber() - 1)).toBeLessThan(0.01)
+  })
+})
+
+describe('Background tabs', () => {
+  const START = 10_000_000
+
+  function createEngine() {
+    const clock = createManualClock(START)
+    const scheduler = createManualScheduler()
+    const engine = new GameEngine({
+      store: createMemoryGameStore(createInitialGameState(START)),
+      clock,
+      scheduler,
+    })
+    engine.tick(0)
+    engine.getGameState().idleGenerators.find(g => g.id === 'bot')!.owned = 10
+    engine.startGameLoop()
+    return { engine, clock, scheduler }
+  }
+
+  it('should stop the loop while hidden', () => {
+    const { engine, scheduler } = createEngine()
+
+    engine.pauseForBackground()
+
+    expect(engine.isRunning()).toBe(false)
+    expect(scheduler.size()).toBe(0)
+  })
+
+  it('should simulate short hidden gaps step by step', () => {
+    const { engine, clock } = createEngine()
+    const reference = createEngine().engine
+    reference.advance(10_000)
+
+    engine.pauseForBackground()
+    clock.advance(10_000)
+    const progress = engine.resumeFromBackground()
+
+    expect(progress).toBeNull()
+    expect(engine.isRunning()).toBe(true)
+    expect(engine.getGameState().lastActiveTime).toBe(START + 10_000)
+    expect(engine.getGameState().views.equals(reference.getGameState().views)).toBe(true)
+  })
+
+  it('should grant long hidden gaps at full rate through the offline calculator', () => {
+    const { engine, clock } = createEngine()
+    const state = engine.getGameState()
+    state.offlineProgressRate = 0
+    state.maxOfflineHours = 1
+    const events: unknown[] = []
+    engine.subscribe('OFFLINE_PROGRESS', event => events.push(event.payload))
+
+    engine.pauseForBackground()
+    clock.advance(2 * 3600 * 1000)
+    const progress = engine.resumeFromBackground()!
+
+    expect(progress.timeOffline).toBe(7200)
+    expect(progress.cappedByTime).toBe(false)
+    expect(progress.cappedByEfficiency).toBe(false)
+    expect(progress.idleEarnings.greaterThan(0)).toBe(true)
+    expect(events).toEqual([progress])
+    expect(engine.getGameState().lastActiveTime).toBe(clock.now())
+    expect(engine.isRunning()).toBe(true)
+  })
+
+  it('should stay stopped if the loop was stopped while hidden', () => {
+    const { engine, clock } = createEngine()
+
+    engine.pauseForBackground()
+    engine.stopGameLoop()
+    clock.advance(10_000)
+
+    expect(engine.resumeFromBackground()).toBeNull()
+    expect(engine.isRunning()).toBe(false)
+  })
+})
+
+describe('Tick commits', () => {
+  const START = 10_000_000
+
+  /**
+   * Memory store that counts its writes
+   */
+  function createCountingStore(initialState: GameState) {
+    const inner = createMemoryGameStore(initialState)
+    const store: GameStateStore & { writes: number } = {
+      writes: 0,
+      getGameState: inner.getGameState,
+      setGameState: (state) => {
+        store.writes++
+        inner.setGameState(state)
+      },
+    }
+    return store
+  }
+
+  it('should keep the documented system order', () => {
+    expect(TICK_SYSTEMS).toEqual([
+      'initialize',
+      'unlocks',
+      'temporaryEffects',
+      'idleProgress',
+      'reachProgress',
+      'automation',
+      'achievements',
+      'autoSave',
+      'lastActiveTime',
+    ])
+  })
+
+  it('should write the store once per tick without losing any system\'s change', () => {
+    const store = createCountingStore(createInitialGameState(START))
+    const engine = new GameEngine({ store, clock: createManualClock(START), scheduler: createManualScheduler() })
+    engine.tick(0)
+
+    const state = engine.getGameState()
+    state.idleGenerators.find(g => g.id === 'bot')!.owned = 10
+    state.automationSystems.find(a => a.id === 'macro-script')!.owned = 1
+    state.totalClicks = 1
+    state.temporaryEffects.push({
+      id: 'expiring',
+      kind: 'viral-moment',
+      params: { multiplier: 1 },
+      remaining: FIXED_TIMESTEP_MS / 2,
+      duration: 10000,
+      stacking: 'stack',
+    })
+    const before = { views: state.views, currency: state.currency }
+    store.writes = 0
+
+    engine.tick(FIXED_TIMESTEP_MS / 1000, START + FIXED_TIMESTEP_MS)
+
+    const after = store.getGameState()
+    expect(store.writes).toBe(1)
+    expect(after.temporaryEffects).toHaveLength(0)
+    expect(after.views.greaterThan(before.views)).toBe(true)
+    expect(after.currency.greaterThan(before.currency)).toBe(true)
+    expect(after.achievements.find(a => a.id === 'first-click')!.unlocked).toBe(true)
+    expect(after.lastActiveTime).toBe(START + FIXED_TIMESTEP_MS)
+  })
+
+  it('should leave the store untouched when a system throws', () => {
+    const store = createCountingStore(createInitialGameState(START))
+    const engine = new GameEngine({ store, clock: createManualClock(START), scheduler: createManualScheduler() })
+    engine.tick(0)
+    const committed = store.getGameState()
+    // Enough earned to unlock more generators and upgrades, then a broken automation system later in the step
+    committed.totalEarned = decimal(1e12)
+    const automation = committed.automationSystems[0]
+    automation.owned = 1
+    automation.clicksPerSecond = null as unknown as Decimal
+    const unlockedBefore = [...committed.idleGenerators, ...committed.upgrades].map(item => item.unlocked)
+    store.writes = 0
+
+    expect(unlockedBefore).toContain(false)
+    expect(() => engine.tick(FIXED_TIMESTEP_MS / 1000, START + FIXED_TIMESTEP_MS)).toThrow()
+
+    expect(store.writes).toBe(0)
+    expect(store.getGameState()).toBe(committed)
+    expect(engine.getGameState()).toBe(committed)
+    expect([...committed.idleGenerators, ...committed.upgrades].map(item => item.unlocked)).toEqual(unlockedBefore)
+  })
+})
@@ -0,0 +1,17 @@
+import type { GameState, GameStateStore } from '../types/gameTypes'
+import { createInitialGameState } from './gameState'
+
+/**
+ * Plain in-memory game state store
+ * Used to run the engine headless (Node, workers, balance simulations, tests)
+ */
+export function createMemoryGameStore(initialState: GameState = createInitialGameState()): GameStateStore {
+  let gameState = initialState
+
+  return {
+    getGameState: () => gameState,
+    setGameState: (state: GameState) => {
+      gameState = state
+    },
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SAVE_VERSION,
+  SAVE_MIGRATIONS,
+  SaveVersionError,
+  getSaveVersion,
+  migrateGameState,
+  migrateSaveData,
+  renameIds,
+} from './migrations'
+import type { SaveMigration } from './migrations'
+import { createSaveData, deserializeGameState, decodeSaveString } from './serialization'
+import { createInitialGameState } from './gameState'
+import { decimal } from '../utils/decimal'
+import type { SaveData } from '../types/gameTypes'
+
+describe('Save migrations', () => {
+  it('should keep the chain ordered up to the current version', () => {
+    const versions = SAVE_MIGRATIONS.map(migration => migration.version)
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b))
+    expect(versions[versions.length - 1]).toBe(SAVE_VERSION)
+  })
+
+  it('should read legacy version stamps', () => {
+    expect(getSaveVersion('1.0.0')).toBe(1)
+    expect(getSaveVersion(undefined)).toBe(1)
+    expect(getSaveVersion(0)).toBe(1)
+    expect(getSaveVersion(2)).toBe(2)
+  })
+
+  it('should fill in fields missing from version 1 saves', () => {
+    const migrated = migrateGameState({ currency: '10', engagement: 3 }, 1)
+
+    expect(migrated).toMatchObject({
+      currency: '10',
+      engagement: 3,
+      currentDimension: 1,
+      views: '0',
+      reach: '0',
+      influence: '0',
+      influenceGenerators: [],
+      temporaryEffects: [],
+      simulationSpeed: 1,
+    })
+  })
+
+  it('should turn version 2 temporary effects into data and undo their multiplier', () => {
+    const migrated = migrateGameState({
+      clickMultiplier: '10',
+      lastActiveTime: 5000,
+      temporaryEffects: [
+        { id: 'viral-moment-1000', name: 'Viral Moment', type: 'clickMultiplier', value: '5', startTime: 1000, duration: 10000 },
+        { id: 'viral-moment-0', name: 'Viral Moment', type: 'clickMultiplier', value: '5', startTime: -8000, duration: 10000 },
+      ],
+    }, 2)
+
+    expect(decimal(migrated.clickMultiplier as string).equals(decimal(0.4))).toBe(true)
+    expect(migrated.temporaryEffects).toEqual([{
+      id: 'viral-moment-1000',
+      kind: 'viral-moment',
+      params: { multiplier: 5 },
+      remaining: 6000,
+      duration: 10000,
+      stacking: 'stack',
+    }])
+  })
+
+  it('should take upgrade bonuses out of version 3 stats so the pipeline can derive them', () => {
+    const migrated = migrateGameState({
+      baseClickValue: '3',
+      clickMultiplier: '5',
+      idleMultiplier: '1.5125',
+      upgrades: [{ id: 'base-value-1', currentPurchases: 2 }, { id: 'click-power-1', currentPurchases: 1 }],
+      prestigeUpgrades: [{ id: 'global-multiplier', currentPurchases: 1 }],
+    }, 3)
+
+    expect(decimal(migrated.baseClickValue as string).equals(decimal(1))).toBe(true)
+    expect(decimal(migrated.clickMultiplier as string).equals(decimal(2))).toBe(true)
+    expect(decimal(migrated.idleMultiplier as string).equals(decimal(1))).toBe(true)
+  })
+
+  it('should only run migrations newer than the save', () => {
+    const migrations: SaveMigration[] = [
+      { version: 3, description: 'third', migrate: state => ({ ...state, steps: [...(state.steps as string[]), 'third'] }) },
+      { version: 2, description: 'second', migrate: state => ({ ...state, steps: [...(state.steps as string[]), 'second'] }) },
+    ]
+
+    expect(migrateGameState({ steps: [] }, 1, migrations).steps).toEqual(['second', 'third'])
+    expect(migrateGameState({ steps: [] }, 2, migrations).steps).toEqual(['third'])
+  })
+
+  it('should refuse saves from a newer version', () => {
+    expect(() => migrateGameState({}, SAVE_VERSION + 1)).toThrow(SaveVersionError)
+  })
+
+  it('should carry purchases over when an id is renamed', () => {
+    const migrated = renameIds(
+      { upgrades: [{ id: 'old-id', currentPurchases: 2 }, { id: 'kept' }], purchasedUpgrades: ['old-id', 'kept'] },
+      'upgrades',
+      'purchasedUpgrades',
+      { 'old-id': 'new-id' }
+    )
+
+    expect(migrated.upgrades).toEqual([{ id: 'new-id', currentPurchases: 2 }, { id: 'kept' }])
+    expect(migrated.purchasedUpgrades).toEqual(['new-id', 'kept'])
+  })
+
+  it('should load a legacy export string', () => {
+    const current = createSaveData(createInitialGameState(0), 0)
+    const legacyState: Record<string, unknown> = { ...current.gameState, currency: '42' }
+    for (const field of ['views', 'engagement', 'reach', 'totalReach', 'influence', 'influenceGenerators', 'influenceUpgrades']) {
+      delete legacyState[field]
+    }
+    const legacySave = JSON.stringify({ ...current, version: '1.0.0', gameState: legacyState })
+
+    const decoded = decodeSaveString(legacySave)
+    if (decoded.status !== 'ok') throw new Error(decoded.error)
+    const saveData = decoded.saveData
+    const state = deserializeGameState(saveData.gameState)
+
+    expect(saveData.version).toBe(SAVE_VERSION)
+    expect(state.currency.equals(decimal(42))).toBe(true)
+    expect(state.views.equals(decimal(0))).toBe(true)
+    expect(state.influenceGenerators).toEqual([])
+  })
+
+  it('should leave current saves untouched', () => {
+    const saveData: SaveData = createSaveData(createInitialGameState(0), 0)
+
+    expect(migrateSaveData(saveData)).toBe(saveData)
+  })
+})
@@ -0,0 +1,194 @@
+import Decimal from 'decimal.js'
+import type { SaveData, SerializableGameState } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+
+/**
+ * Current save schema version
+ * Bump this and append a migration to SAVE_MIGRATIONS whenever the saved shape changes
+ */
+export const SAVE_VERSION = 5
+
+/**
+ * Game state as found in a save before migration - any older shape
+ */
+export type RawGameState = Record<string, unknown>
+
+/**
+ * One step in the migration chain, upgrading a save from `version - 1` to `version`
+ */
+export interface SaveMigration {
+  version: number
+  description: string
+  migrate: (gameState: RawGameState) => RawGameState
+}
+
+/**
+ * Thrown when a save was written by a newer version of the game than this one
+ */
+export class SaveVersionError extends Error {
+  readonly saveVersion: number
+
+  constructor(saveVersion: number) {
+    super(`Save was made with a newer version of the game (save version ${saveVersion}, supported up to ${SAVE_VERSION}). Update the game to load it.`)
+    this.name = 'SaveVersionError'
+    this.saveVersion = saveVersion
+  }
+}
+
+/**
+ * Rename ids in an id-keyed list and its matching purchased set
+ * Migrations use this so renaming an upgrade id keeps the player's purchases
+ */
+export function renameIds(
+  gameState: RawGameState,
+  listKey: string,
+  purchasedKey: string | null,
+  renames: Record<string, string>
+): RawGameState {
+  const rename = (id: string) => renames[id] ?? id
+  const list = gameState[listKey]
+  const purchased = purchasedKey ? gameState[purchasedKey] : undefined
+
+  return {
+    ...gameState,
+    ...(Array.isArray(list) && {
+      [listKey]: list.map((item: { id: string }) => ({ ...item, id: rename(item.id) })),
+    }),
+    ...(purchasedKey && Array.isArray(purchased) && {
+      [purchasedKey]: purchased.map(rename),
+    }),
+  }
+}
+
+/**
+ * Ordered migration chain - each entry upgrades saves from the previous version
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    version: 2,
+    description: 'Add dimensions, Views, Engagement, Reach, Influence and loop fields',
+    migrate: (gameState) => ({
+      currentDimension: 1,
+      views: '0',
+      engagement: 1,
+      reach: '0',
+      totalReach: '0',
+      influence: '0',
+      influenceGenerators: [],
+      influenceUpgrades: [],
+      recentClicks: [],
+      temporaryEffects: [],
+      simulationSpeed: 1,
+      ...gameState,
+    }),
+  },
+  {
+    version: 3,
+    description: 'Store temporary effects as kind, parameters and remaining time instead of a multiplier applied in place',
+    migrate: (gameState) => {
+      const effects = Array.isArray(gameState.temporaryEffects) ? gameState.temporaryEffects as Record<string, unknown>[] : []
+      const lastActiveTime = typeof gameState.lastActiveTime === 'number' ? gameState.lastActiveTime : 0
+      let clickMultiplier = decimal(typeof gameState.clickMultiplier === 'string' ? gameState.clickMultiplier : 1)
+
+      const temporaryEffects = effects.flatMap(effect => {
+        // Take back what the effect multiplied into clickMultiplier when it started
+        if (effect.type === 'clickMultiplier' && typeof effect.value === 'string') {
+          clickMultiplier = clickMultiplier.dividedBy(decimal(effect.value))
+        }
+        if (effect.name !== 'Viral Moment') return []
+
+        const duration = Number(effect.duration) || 0
+        return [{
+          id: String(effect.id),
+          kind: 'viral-moment',
+          params: { multiplier: Number(effect.value) || 1 },
+          remaining: Math.max(0, Number(effect.startTime) + duration - lastActiveTime) || 0,
+          duration,
+          stacking: 'stack',
+        }]
+      })
+
+      return {
+        ...gameState,
+        clickMultiplier: clickMultiplier.toString(),
+        temporaryEffects: temporaryEffects.filter(effect => effect.remaining > 0),
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Derive upgrade bonuses from purchase counts instead of baking them into the base click value and multipliers',
+    migrate: (gameState) => {
+      const purchases = (listKey: string, id: string) => {
+        const list = Array.isArray(gameState[listKey]) ? gameState[listKey] as Record<string, unknown>[] : []
+        return Number(list.find(item => item.id === id)?.currentPurchases) || 0
+      }
+      const stored = (key: string, fallback: number) => decimal(typeof gameState[key] === 'string' ? gameState[key] : fallback)
+
+      // Better Content, Double Tap and Brand Recognition now come from the modifier pipeline
+      const betterContent = purchases('upgrades', 'base-value-1')
+      const doubleTap = purchases('upgrades', 'click-power-1')
+      const brandRecognition = decimal(1.25).pow(purchases('prestigeUpgrades', 'global-multiplier'))
+
+      return {
+        ...gameState,
+        baseClickValue: Decimal.max(1, stored('baseClickValue', 1).minus(betterContent)).toString(),
+        clickMultiplier: stored('clickMultiplier', 1).dividedBy(decimal(2).pow(doubleTap).times(brandRecognition)).toString(),
+        idleMultiplier: stored('idleMultiplier', 1).dividedBy(decimal(1.1).pow(betterContent).times(brandRecognition)).toString(),
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Add the shared buy-amount setting',
+    migrate: (gameState) => ({
+      ...gameState,
+      ...(typeof gameState.settings === 'object' && gameState.settings !== null && {
+        settings: { buyAmount: 'x1', ...gameState.settings },
+      }),
+    }),
+  },
+]
+
+/**
+ * Schema version of a save
+ * The first saves were stamped '1.0.0', and unversioned persisted state is treated as version 1
+ */
+export function getSaveVersion(version: unknown): number {
+  if (typeof version === 'number' && version > 0) return version
+  if (typeof version === 'string') return Math.max(1, parseInt(version, 10) || 1)
+  return 1
+}
+
+/**
+ * Run every migration newer than `fromVersion` over a game state
+ * Throws SaveVersionError for saves from a newer version
+ */
+export function migrateGameState(
+  gameState: RawGameState,
+  fromVersion: number,
+  migrations: SaveMigration[] = SAVE_MIGRATIONS
+): RawGameState {
+  if (fromVersion > SAVE_VERSION) {
+    throw new SaveVersionError(fromVersion)
+  }
+
+  return migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((state, migration) => migration.migrate(state), gameState)
+}
+
+/**
+ * Bring save data up to the current schema version
+ */
+export function migrateSaveData(saveData: SaveData): SaveData {
+  const version = getSaveVersion(saveData.version)
+  if (version === SAVE_VERSION) return saveData
+
+  return {
+    ...saveData,
+    version: SAVE_VERSION,
+    gameState: migrateGameState(saveData.gameState as unknown as RawGameState, version) as unknown as SerializableGameState,
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { SaveSlotStore, BACKUPS_PER_REASON, createMemoryStorage } from './saveSlots'
+import { GameEngine } from './gameEngine'
+import { createMemoryGameStore } from './memoryStore'
+import { createInitialGameState } from './gameState'
+import { decimal } from '../utils/decimal'
+
+describe('Save slots', () => {
+  const createEngine = () => {
+    const saveSlots = new SaveSlotStore(createMemoryStorage())
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()), saveSlots })
+    return { engine, saveSlots }
+  }
+
+  it('should save, duplicate and delete named slots with headline stats', () => {
+    const { engine } = createEngine()
+    engine.getGameState().currency = decimal(1234)
+
+    const slot = engine.saveToSlot('Main run')
+    const copy = engine.duplicateSaveSlot(slot.id)!
+
+    expect(slot.stats.currency).toBe('1234')
+    expect(copy.name).toBe('Main run (copy)')
+    expect(engine.listSaveSlots().map(s => s.id).sort()).toEqual([slot.id, copy.id].sort())
+
+    expect(engine.deleteSaveSlot(slot.id)).toBe(true)
+    expect(engine.deleteSaveSlot(slot.id)).toBe(false)
+    expect(engine.listSaveSlots().map(s => s.id)).toEqual([copy.id])
+  })
+
+  it('should overwrite a slot in place', () => {
+    const { engine } = createEngine()
+    const slot = engine.saveToSlot('Main run')
+    engine.getGameState().currency = decimal(99)
+
+    engine.saveToSlot('Main run', slot.id)
+
+    expect(engine.listSaveSlots()).toHaveLength(1)
+    expect(engine.listSaveSlots()[0].stats.currency).toBe('99')
+  })
+
+  it('should restore a slot and back up the game it replaces', () => {
+    const { engine } = createEngine()
+    engine.getGameState().currency = decimal(500)
+    const slot = engine.saveToSlot('Checkpoint')
+    engine.getGameState().currency = decimal(7)
+
+    expect(engine.restoreSaveSlot(slot.id)).toEqual({ status: 'ok' })
+
+    expect(engine.getGameState().currency.equals(decimal(500))).toBe(true)
+    const backup = engine.listSaveSlots().find(s => s.backupReason === 'restore')!
+    expect(backup.stats.currency).toBe('7')
+  })
+
+  it('should back up before a reset', () => {
+    const { engine } = createEngine()
+    engine.getGameState().currency = decimal(42)
+
+    engine.resetGame()
+
+    expect(engine.getGameState().currency.equals(decimal(0))).toBe(true)
+    expect(engine.listSaveSlots().find(s => s.backupReason === 'reset')!.stats.currency).toBe('42')
+  })
+
+  it('should roll backups separately for each reason', () => {
+    const { saveSlots } = createEngine()
+    const state = createInitialGameState(0)
+
+    saveSlots.createBackup('bot-start', state, 0)
+    for (let i = 1; i <= BACKUPS_PER_REASON + 2; i++) {
+      saveSlots.createBackup('prestige', state, i)
+    }
+
+    const backups = saveSlots.listSlots()
+    expect(backups.filter(s => s.backupReason === 'prestige').map(s => s.savedAt)).toEqual([5, 4, 3])
+    expect(backups.filter(s => s.backupReason === 'bot-start')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,179 @@
+import type { BackupReason, GameState, KeyValueStorage, SaveSlot } from '../types/gameTypes'
+import { createSaveData, encodeSaveString } from './serialization'
+
+/**
+ * Storage key for save slots, next to the live game's persist key
+ */
+export const SAVE_SLOTS_KEY = 'idle-clicker-save-slots'
+
+/**
+ * Automatic backups kept per reason
+ * Each reason rolls separately, so a long bot run cannot push out the backup taken when it started
+ */
+export const BACKUPS_PER_REASON = 3
+
+/**
+ * Names shown for automatic backups
+ */
+export const BACKUP_REASON_LABELS: Record<BackupReason, string> = {
+  'prestige': 'Before Strategy Shift',
+  'meta-prestige': 'Before Rebrand',
+  'dimension-shift': 'Before dimension shift',
+  'reset': 'Before reset',
+  'bot-start': 'Before bot run',
+  'import': 'Before import',
+  'restore': 'Before restoring a save',
+}
+
+/**
+ * Everything stored under SAVE_SLOTS_KEY
+ */
+interface SaveSlotIndex {
+  nextId: number
+  slots: SaveSlot[]
+}
+
+/**
+ * Plain in-memory key-value storage
+ * Keeps save slots for headless engines (Node, workers, tests)
+ */
+export function createMemoryStorage(): KeyValueStorage {
+  const items = new Map<string, string>()
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+/**
+ * Named save slots and rolling backups, each holding an encoded save string
+ */
+export class SaveSlotStore {
+  private storage: KeyValueStorage
+
+  constructor(storage: KeyValueStorage = createMemoryStorage()) {
+    this.storage = storage
+  }
+
+  /**
+   * All slots, newest first
+   */
+  listSlots(): SaveSlot[] {
+    return [...this.read().slots].sort((a, b) => b.savedAt - a.savedAt)
+  }
+
+  /**
+   * Find a slot by id
+   */
+  getSlot(slotId: string): SaveSlot | undefined {
+    return this.read().slots.find(slot => slot.id === slotId)
+  }
+
+  /**
+   * Save a game to a named slot, overwriting slotId when given
+   */
+  saveSlot(name: string, state: GameState, now: number, slotId?: string): SaveSlot {
+    const index = this.read()
+    const existing = slotId ? index.slots.find(slot => slot.id === slotId) : undefined
+    const slot = createSlot(existing?.id ?? `slot-${index.nextId++}`, name, state, now)
+
+    index.slots = existing
+      ? index.slots.map(other => (other.id === existing.id ? slot : other))
+      : [...index.slots, slot]
+    this.write(index)
+    return slot
+  }
+
+  /**
+   * Take an automatic backup, dropping the oldest backups for the same reason
+   */
+  createBackup(reason: BackupReason, state: GameState, now: number): SaveSlot {
+    const index = this.read()
+    const slot: SaveSlot = {
+      ...createSlot(`backup-${index.nextId++}`, BACKUP_REASON_LABELS[reason], state, now),
+      backupReason: reason,
+    }
+
+    const sameReason = index.slots
+      .filter(other => other.backupReason === reason)
+      .sort((a, b) => b.savedAt - a.savedAt)
+    const dropped = new Set(sameReason.slice(BACKUPS_PER_REASON - 1).map(other => other.id))
+
+    index.slots = [...index.slots.filter(other => !dropped.has(other.id)), slot]
+    this.write(index)
+    return slot
+  }
+
+  /**
+   * Copy a slot into a new named slot
+   */
+  duplicateSlot(slotId: string, now: number): SaveSlot | null {
+    const index = this.read()
+    const original = index.slots.find(slot => slot.id === slotId)
+    if (!original) return null
+
+    const copy: SaveSlot = {
+      ...original,
+      id: `slot-${index.nextId++}`,
+      name: `${original.name} (copy)`,
+      backupReason: undefined,
+      savedAt: now,
+    }
+    index.slots = [...index.slots, copy]
+    this.write(index)
+    return copy
+  }
+
+  /**
+   * Delete a slot
+   */
+  deleteSlot(slotId: string): boolean {
+    const index = this.read()
+    const remaining = index.slots.filter(slot => slot.id !== slotId)
+    if (remaining.length === index.slots.length) return false
+
+    this.write({ ...index, slots: remaining })
+    return true
+  }
+
+  private read(): SaveSlotIndex {
+    const stored = this.storage.getItem(SAVE_SLOTS_KEY)
+    if (!stored) return { nextId: 1, slots: [] }
+
+    try {
+      return JSON.parse(stored)
+    } catch (error) {
+      console.warn('Save slots could not be read, starting fresh:', error)
+      return { nextId: 1, slots: [] }
+    }
+  }
+
+  private write(index: SaveSlotIndex): void {
+    this.storage.setItem(SAVE_SLOTS_KEY, JSON.stringify(index))
+  }
+}
+
+/**
+ * Build a slot holding an encoded save of the game
+ */
+function createSlot(id: string, name: string, state: GameState, now: number): SaveSlot {
+  return {
+    id,
+    name,
+    savedAt: now,
+    stats: {
+      currentDimension: state.currentDimension,
+      currency: state.currency.toString(),
+      totalEarned: state.totalEarned.toString(),
+      prestigePoints: state.prestigePoints.toString(),
+      totalPrestiges: state.totalPrestiges,
+    },
+    saveString: encodeSaveString(createSaveData(state, now), 'encoded'),
+  }
+}
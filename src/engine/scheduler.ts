@@ -0,0 +1,60 @@
+import type { Clock, Scheduler } from '../types/gameTypes'
+
+/**
+ * Clock backed by the system time
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+}
+
+/**
+ * Scheduler backed by the global timer functions
+ * Uses globalThis rather than window so it also works in Node and in workers
+ */
+export const intervalScheduler: Scheduler = {
+  setInterval: (callback, intervalMs) => globalThis.setInterval(callback, intervalMs),
+  clearInterval: (handle) => globalThis.clearInterval(handle as ReturnType<typeof globalThis.setInterval>),
+}
+
+/**
+ * Clock that only moves when told to
+ * Used to replay a sequence of inputs deterministically
+ */
+export function createManualClock(startTime: number = 0) {
+  let time = startTime
+
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms
+    },
+    set: (ms: number) => {
+      time = ms
+    },
+  }
+}
+
+/**
+ * Scheduler whose callbacks only fire when fire() is called
+ */
+export function createManualScheduler() {
+  const callbacks = new Map<number, () => void>()
+  let nextHandle = 1
+
+  const scheduler: Scheduler = {
+    setInterval: (callback) => {
+      const handle = nextHandle++
+      callbacks.set(handle, callback)
+      return handle
+    },
+    clearInterval: (handle) => {
+      callbacks.delete(handle as number)
+    },
+  }
+
+  return {
+    ...scheduler,
+    fire: () => callbacks.forEach(callback => callback()),
+    size: () => callbacks.size,
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import fc from 'fast-check'
+import Decimal from 'decimal.js'
+import { SAVE_STRING_PREFIX, createSaveData, encodeSaveString, decodeSaveString, serializeGameState, deserializeGameState } from './serialization'
+import { SAVE_VERSION } from './migrations'
+import { createInitialGameState } from './gameState'
+import { GameEngine } from './gameEngine'
+import { createMemoryGameStore } from './memoryStore'
+import { lzwCompress, lzwDecompress, base64ToBytes, bytesToBase64 } from '../utils/compression'
+import { decimal } from '../utils/decimal'
+import { gameStateArbitrary } from '../test/arbitraries'
+
+describe('Save strings', () => {
+  const saveData = createSaveData(createInitialGameState(0), 0)
+
+  it('should round-trip arbitrary bytes through compression', () => {
+    fc.assert(
+      fc.property(fc.uint8Array({ maxLength: 2000 }), bytes => {
+        expect(Array.from(lzwDecompress(lzwCompress(bytes)))).toEqual(Array.from(bytes))
+      })
+    )
+  })
+
+  it('should encode saves compactly behind a format prefix', () => {
+    const encoded = encodeSaveString(saveData)
+
+    expect(encoded.startsWith(SAVE_STRING_PREFIX)).toBe(true)
+    expect(encoded.length).toBeLessThan(JSON.stringify(saveData).length)
+
+    const decoded = decodeSaveString(encoded)
+    expect(decoded.status).toBe('ok')
+    expect(decoded.status === 'ok' && decoded.saveData).toEqual(saveData)
+  })
+
+  it('should still accept readable JSON', () => {
+    expect(decodeSaveString(encodeSaveString(saveData, 'json')).status).toBe('ok')
+  })
+
+  it('should report truncated pastes as corrupt', () => {
+    const encoded = encodeSaveString(saveData)
+
+    expect(decodeSaveString(encoded.slice(0, encoded.length / 2)).status).toBe('corrupt')
+    expect(decodeSaveString('IDLE1:nonsense!').status).toBe('corrupt')
+  })
+
+  it('should report hand-edited saves as tampered', () => {
+    const encoded = encodeSaveString(saveData)
+    const json = new TextDecoder().decode(lzwDecompress(base64ToBytes(encoded.slice(SAVE_STRING_PREFIX.length + 8))))
+    const edited = json.replace('"prestigePoints":"0"', '"prestigePoints":"1000000"')
+    const forged = encoded.slice(0, SAVE_STRING_PREFIX.length + 8) + bytesToBase64(lzwCompress(new TextEncoder().encode(edited)))
+
+    expect(edited).not.toBe(json)
+    expect(decodeSaveString(forged).status).toBe('tampered')
+  })
+
+  it('should report saves from a newer version', () => {
+    const future = encodeSaveString({ ...saveData, version: SAVE_VERSION + 1 })
+
+    expect(decodeSaveString(future).status).toBe('wrong-version')
+  })
+
+  it('should leave the game untouched when an import fails', () => {
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()), saveFormat: 'encoded' })
+    engine.getGameState().currency = decimal(500)
+    const encoded = engine.exportSave()
+    engine.getGameState().currency = decimal(7)
+
+    expect(engine.importSave(encoded.slice(0, -10)).status).toBe('corrupt')
+    expect(engine.getGameState().currency.equals(decimal(7))).toBe(true)
+
+    expect(engine.importSave(encoded)).toEqual({ status: 'ok' })
+    expect(engine.getGameState().currency.equals(decimal(500))).toBe(true)
+  })
+})
+
+describe('Serialization round trips', () => {
+  it('should rebuild identical state from serialized JSON', () => {
+    fc.assert(
+      fc.property(gameStateArbitrary, state => {
+        const serialized = serializeGameState(state)
+        const restored = deserializeGameState(JSON.parse(JSON.stringify(serialized)))
+
+        expect(serializeGameState(restored)).toEqual(serialized)
+        expect(restored.purchasedUpgrades).toEqual(state.purchasedUpgrades)
+        expect(restored.idleGenerators[0].baseCost).toBeInstanceOf(Decimal)
+        expect(restored.currency.equals(state.currency)).toBe(true)
+      }),
+      { numRuns: 50 }
+    )
+  })
+
+  it('should survive an encoded export and import', () => {
+    fc.assert(
+      fc.property(gameStateArbitrary, state => {
+        const decoded = decodeSaveString(encodeSaveString(createSaveData(state, 0)))
+
+        expect(decoded.status).toBe('ok')
+        if (decoded.status === 'ok') {
+          expect(serializeGameState(deserializeGameState(decoded.saveData.gameState))).toEqual(serializeGameState(state))
+        }
+      }),
+      { numRuns: 25 }
+    )
+  })
+})
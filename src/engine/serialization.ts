@@ -0,0 +1,377 @@
+import type { GameState, SerializableGameState, SaveData, SaveImportFailure, SaveImportOptions, SaveStringFormat, ValidationIssue } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+import { getInitialUpgrades } from '../data/upgrades'
+import { getInitialIdleGenerators } from '../data/idleGenerators'
+import { getInitialPrestigeUpgrades } from '../data/prestigeUpgrades'
+import { getInitialMetaPrestigeUpgrades } from '../data/metaPrestigeUpgrades'
+import { getInitialAutomationSystems } from '../data/automation'
+import { getInitialInfluenceGenerators } from '../data/influenceGenerators'
+import { getInitialInfluenceUpgrades } from '../data/influenceUpgrades'
+import { SAVE_VERSION, SaveVersionError, migrateSaveData } from './migrations'
+import { validateGameState } from './validation'
+import { lzwCompress, lzwDecompress, bytesToBase64, base64ToBytes, crc32 } from '../utils/compression'
+
+/**
+ * Copy of an object without its function fields (conditions, effects), which are restored from the data files on load
+ */
+function withoutFunctions<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => typeof field !== 'function')) as T
+}
+
+/**
+ * Convert GameState to SerializableGameState for persistence
+ * The result is plain data: a JSON round trip leaves it unchanged
+ */
+export function serializeGameState(state: GameState): SerializableGameState {
+  return {
+    currentDimension: state.currentDimension || 1, // Default to Dim 1
+    currency: state.currency.toString(),
+    views: state.views.toString(),
+    engagement: state.engagement,
+    reach: state.reach.toString(),
+    totalReach: state.totalReach.toString(),
+    influence: state.influence.toString(),
+    influenceGenerators: state.influenceGenerators.map(gen => ({
+      ...withoutFunctions(gen),
+      baseProduction: gen.baseProduction.toString(),
+      baseCost: gen.baseCost.toString(),
+      costMultiplier: gen.costMultiplier.toString(),
+    })),
+    influenceUpgrades: state.influenceUpgrades.map(upgrade => ({
+      ...withoutFunctions(upgrade),
+      baseCost: upgrade.baseCost.toString(),
+      costMultiplier: upgrade.costMultiplier.toString(),
+      effect: {
+        ...withoutFunctions(upgrade.effect),
+        value: upgrade.effect.value.toString(),
+      },
+    })),
+    
+    totalClicks: state.totalClicks,
+    totalEarned: state.totalEarned.toString(),
+    gameStartTime: state.gameStartTime,
+    lastSaveTime: state.lastSaveTime,
+    lastActiveTime: state.lastActiveTime,
+    
+    recentClicks: state.recentClicks,
+    
+    clickMultiplier: state.clickMultiplier.toString(),
+    baseClickValue: state.baseClickValue.toString(),
+    
+    idleGenerators: state.idleGenerators.map(gen => ({
+      ...withoutFunctions(gen),
+      baseProduction: gen.baseProduction.toString(),
+      baseCost: gen.baseCost.toString(),
+      costMultiplier: gen.costMultiplier.toString(),
+    })),
+    idleMultiplier: state.idleMultiplier.toString(),
+    offlineProgressRate: state.offlineProgressRate,
+    maxOfflineHours: state.maxOfflineHours,
+    
+    upgrades: state.upgrades.map(upgrade => ({
+      ...withoutFunctions(upgrade),
+      baseCost: upgrade.baseCost.toString(),
+      costMultiplier: upgrade.costMultiplier.toString(),
+      effect: {
+        ...withoutFunctions(upgrade.effect),
+        value: upgrade.effect.value.toString(),
+      },
+    })),
+    purchasedUpgrades: Array.from(state.purchasedUpgrades),
+    
+    prestigePoints: state.prestigePoints.toString(),
+    prestigeUpgrades: state.prestigeUpgrades.map(upgrade => ({
+      ...withoutFunctions(upgrade),
+      baseCost: upgrade.baseCost.toString(),
+      costMultiplier: upgrade.costMultiplier.toString(),
+      effect: {
+        ...withoutFunctions(upgrade.effect),
+        value: upgrade.effect.value.toString(),
+      },
+    })),
+    purchasedPrestigeUpgrades: Array.from(state.purchasedPrestigeUpgrades),
+    totalPrestiges: state.totalPrestiges,
+    
+    metaPrestigePoints: state.metaPrestigePoints.toString(),
+    metaPrestigeUpgrades: state.metaPrestigeUpgrades.map(upgrade => ({
+      ...withoutFunctions(upgrade),
+      baseCost: upgrade.baseCost.toString(),
+      costMultiplier: upgrade.costMultiplier.toString(),
+      effect: {
+        ...withoutFunctions(upgrade.effect),
+        value: upgrade.effect.value.toString(),
+      },
+    })),
+    purchasedMetaPrestigeUpgrades: Array.from(state.purchasedMetaPrestigeUpgrades),
+    totalMetaPrestiges: state.totalMetaPrestiges,
+    
+    automationSystems: state.automationSystems.map(auto => ({
+      ...withoutFunctions(auto),
+      baseCost: auto.baseCost.toString(),
+      costMultiplier: auto.costMultiplier.toString(),
+      clicksPerSecond: auto.clicksPerSecond.toString(),
+      efficiency: auto.efficiency.toString(),
+    })),
+    
+    achievements: state.achievements.map(achievement => ({
+      ...withoutFunctions(achievement),
+      reward: achievement.reward ? {
+        ...withoutFunctions(achievement.reward),
+        value: achievement.reward.value.toString(),
+      } : undefined,
+    })),
+    unlockedAchievements: Array.from(state.unlockedAchievements),
+    
+    temporaryEffects: state.temporaryEffects.map(effect => ({ ...effect, params: { ...effect.params } })),
+    
+    simulationSpeed: state.simulationSpeed,
+    
+    settings: state.settings,
+  }
+}
+
+/**
+ * Convert SerializableGameState back to GameState
+ * Expects a save already migrated (migrateSaveData) and validated (validateGameState)
+ */
+export function deserializeGameState(serialized: SerializableGameState): GameState {
+  return {
+    currentDimension: serialized.currentDimension,
+    currency: decimal(serialized.currency),
+    views: decimal(serialized.views),
+    engagement: serialized.engagement,
+    reach: decimal(serialized.reach),
+    totalReach: decimal(serialized.totalReach),
+    influence: decimal(serialized.influence),
+    influenceGenerators: serialized.influenceGenerators.map(gen => ({
+      ...gen,
+      baseProduction: decimal(gen.baseProduction),
+      baseCost: decimal(gen.baseCost),
+      costMultiplier: decimal(gen.costMultiplier),
+      unlockCondition: getInitialInfluenceGenerators().find(orig => orig.id === gen.id)?.unlockCondition,
+    })),
+    influenceUpgrades: serialized.influenceUpgrades.map(upgrade => {
+      const originalUpgrade = getInitialInfluenceUpgrades().find(orig => orig.id === upgrade.id)
+      
+      return {
+        ...upgrade,
+        baseCost: decimal(upgrade.baseCost),
+        costMultiplier: decimal(upgrade.costMultiplier),
+        effect: {
+          ...upgrade.effect,
+          value: decimal(upgrade.effect.value),
+          apply: originalUpgrade?.effect.apply ?? (() => {}),
+        },
+        unlockCondition: originalUpgrade?.unlockCondition,
+      }
+    }),
+    
+    totalClicks: serialized.totalClicks,
+    totalEarned: decimal(serialized.totalEarned),
+    gameStartTime: serialized.gameStartTime,
+    lastSaveTime: serialized.lastSaveTime,
+    lastActiveTime: serialized.lastActiveTime,
+    
+    recentClicks: serialized.recentClicks,
+    
+    clickMultiplier: decimal(serialized.clickMultiplier),
+    baseClickValue: decimal(serialized.baseClickValue),
+    
+    idleGenerators: serialized.idleGenerators.map(gen => ({
+      ...gen,
+      baseProduction: decimal(gen.baseProduction),
+      baseCost: decimal(gen.baseCost),
+      costMultiplier: decimal(gen.costMultiplier),
+      unlockCondition: getInitialIdleGenerators().find(orig => orig.id === gen.id)?.unlockCondition, // Unknown generators are dropped by the game engine
+    })),
+    idleMultiplier: decimal(serialized.idleMultiplier),
+    offlineProgressRate: serialized.offlineProgressRate,
+    maxOfflineHours: serialized.maxOfflineHours,
+    
+    upgrades: serialized.upgrades.map(upgrade => {
+      // Find the original upgrade definition to restore functions
+      const originalUpgrade = getInitialUpgrades().find(orig => orig.id === upgrade.id)
+      
+      return {
+        ...upgrade,
+        baseCost: decimal(upgrade.baseCost),
+        costMultiplier: decimal(upgrade.costMultiplier),
+        effect: {
+          ...upgrade.effect,
+          value: decimal(upgrade.effect.value),
+          apply: originalUpgrade?.effect.apply ?? (() => {}), // Unknown upgrades are dropped by the game engine
+        },
+        unlockCondition: originalUpgrade?.unlockCondition,
+      }
+    }),
+    purchasedUpgrades: new Set(serialized.purchasedUpgrades),
+    
+    prestigePoints: decimal(serialized.prestigePoints),
+    prestigeUpgrades: serialized.prestigeUpgrades.map(upgrade => {
+      // Find the original prestige upgrade definition to restore functions
+      const originalUpgrade = getInitialPrestigeUpgrades().find(orig => orig.id === upgrade.id)
+      
+      return {
+        ...upgrade,
+        baseCost: decimal(upgrade.baseCost),
+        costMultiplier: decimal(upgrade.costMultiplier),
+        effect: {
+          ...upgrade.effect,
+          value: decimal(upgrade.effect.value),
+          apply: originalUpgrade?.effect.apply ?? (() => {}), // Unknown upgrades are dropped by the game engine
+        },
+      }
+    }),
+    purchasedPrestigeUpgrades: new Set(serialized.purchasedPrestigeUpgrades),
+    totalPrestiges: serialized.totalPrestiges,
+    
+    metaPrestigePoints: decimal(serialized.metaPrestigePoints),
+    metaPrestigeUpgrades: serialized.metaPrestigeUpgrades.map(upgrade => {
+      // Find the original meta prestige upgrade definition to restore functions
+      const originalUpgrade = getInitialMetaPrestigeUpgrades().find(orig => orig.id === upgrade.id)
+      
+      return {
+        ...upgrade,
+        baseCost: decimal(upgrade.baseCost),
+        costMultiplier: decimal(upgrade.costMultiplier),
+        effect: {
+          ...upgrade.effect,
+          value: decimal(upgrade.effect.value),
+          apply: originalUpgrade?.effect.apply ?? (() => {}), // Unknown upgrades are dropped by the game engine
+        },
+      }
+    }),
+    purchasedMetaPrestigeUpgrades: new Set(serialized.purchasedMetaPrestigeUpgrades),
+    totalMetaPrestiges: serialized.totalMetaPrestiges,
+    
+    automationSystems: serialized.automationSystems.map(auto => ({
+      ...auto,
+      baseCost: decimal(auto.baseCost),
+      costMultiplier: decimal(auto.costMultiplier),
+      clicksPerSecond: decimal(auto.clicksPerSecond),
+      efficiency: decimal(auto.efficiency),
+      unlockCondition: getInitialAutomationSystems().find(orig => orig.id === auto.id)?.unlockCondition,
+    })),
+    
+    achievements: serialized.achievements.map(achievement => ({
+      ...achievement,
+      unlockCondition: () => false, // Will be restored by game engine
+      reward: achievement.reward ? {
+        ...achievement.reward,
+        value: decimal(achievement.reward.value),
+        apply: () => {}, // Will be restored by game engine
+      } : undefined,
+    })),
+    unlockedAchievements: new Set(serialized.unlockedAchievements),
+    
+    temporaryEffects: serialized.temporaryEffects.map(effect => ({ ...effect, params: { ...effect.params } })),
+    
+    simulationSpeed: serialized.simulationSpeed,
+    
+    settings: serialized.settings,
+  }
+}
+
+
+/**
+ * Build the save data envelope for a game state
+ */
+export function createSaveData(state: GameState, timestamp: number): SaveData {
+  return {
+    version: SAVE_VERSION,
+    timestamp,
+    gameState: serializeGameState(state),
+    settings: state.settings,
+  }
+}
+
+/**
+ * Prefix marking an encoded save string, followed by the CRC-32 of the save JSON and the compressed payload
+ */
+export const SAVE_STRING_PREFIX = 'IDLE1:'
+
+/**
+ * CRC-32 of a save's JSON as 8 hex digits
+ */
+function saveChecksum(json: string): string {
+  return crc32(new TextEncoder().encode(json)).toString(16).padStart(8, '0')
+}
+
+/**
+ * Write save data as a save string
+ * 'json' is readable for development, 'encoded' is compressed, base64 and checksummed
+ */
+export function encodeSaveString(saveData: SaveData, format: SaveStringFormat = 'encoded'): string {
+  const json = JSON.stringify(saveData)
+  if (format === 'json') return json
+
+  const compressed = lzwCompress(new TextEncoder().encode(json))
+  return `${SAVE_STRING_PREFIX}${saveChecksum(json)}${bytesToBase64(compressed)}`
+}
+
+/**
+ * Read a save string in either format, migrated to the current save version and validated
+ * Never throws - failures are reported in the result
+ */
+export function decodeSaveString(
+  saveString: string,
+  options: SaveImportOptions = {}
+): { status: 'ok'; saveData: SaveData; repairs?: ValidationIssue[] } | SaveImportFailure {
+  const trimmed = saveString.trim()
+  let json: string
+  let checksum: string | null = null
+
+  if (trimmed.startsWith(SAVE_STRING_PREFIX)) {
+    checksum = trimmed.slice(SAVE_STRING_PREFIX.length, SAVE_STRING_PREFIX.length + 8)
+    try {
+      const bytes = lzwDecompress(base64ToBytes(trimmed.slice(SAVE_STRING_PREFIX.length + 8)))
+      json = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    } catch {
+      return { status: 'corrupt', error: 'Save string could not be decoded' }
+    }
+  } else {
+    json = trimmed
+  }
+
+  let saveData: SaveData
+  try {
+    saveData = JSON.parse(json)
+  } catch {
+    return { status: 'corrupt', error: 'Save string is not valid save data' }
+  }
+
+  // A payload that decodes cleanly but fails the checksum was edited by hand
+  if (checksum !== null && saveChecksum(json) !== checksum) {
+    return { status: 'tampered', error: 'Save string failed its integrity check' }
+  }
+
+  // Validate save data structure
+  if (!saveData || typeof saveData !== 'object' || !saveData.version || !saveData.gameState || !saveData.settings) {
+    return { status: 'corrupt', error: 'Invalid save data structure' }
+  }
+
+  let migrated: SaveData
+  try {
+    migrated = migrateSaveData(saveData)
+  } catch (error) {
+    if (error instanceof SaveVersionError) {
+      return { status: 'wrong-version', error: error.message }
+    }
+    return { status: 'corrupt', error: 'Save data could not be migrated' }
+  }
+
+  const validation = validateGameState(migrated.gameState)
+  if (validation.issues.length === 0) {
+    return { status: 'ok', saveData: migrated }
+  }
+  if (options.repair && validation.repaired) {
+    return { status: 'ok', saveData: { ...migrated, gameState: validation.repaired }, repairs: validation.issues }
+  }
+  return {
+    status: 'invalid',
+    error: validation.repairable
+      ? `Save data has ${validation.issues.length} problem(s) that can be repaired`
+      : `Save data has ${validation.issues.length} problem(s), some of which cannot be repaired`,
+    issues: validation.issues,
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { TabLeaderElection, TAB_LEADER_KEY, LEADER_LEASE_MS } from './tabLeader'
+import { createMemoryStorage } from './saveSlots'
+import { createManualClock, createManualScheduler } from './scheduler'
+
+describe('Tab leader election', () => {
+  const createTabs = () => {
+    const storage = createMemoryStorage()
+    const clock = createManualClock(1000)
+    const createTab = (tabId: string) => {
+      const scheduler = createManualScheduler()
+      const election = new TabLeaderElection({ storage, clock, scheduler, tabId })
+      return { election, heartbeat: scheduler.fire }
+    }
+    return { storage, clock, first: createTab('first'), second: createTab('second') }
+  }
+
+  it('should let only the first tab lead', () => {
+    const { first, second } = createTabs()
+
+    expect(first.election.start()).toBe('leader')
+    expect(second.election.start()).toBe('follower')
+
+    first.heartbeat()
+    second.heartbeat()
+    expect(first.election.getRole()).toBe('leader')
+    expect(second.election.getRole()).toBe('follower')
+  })
+
+  it('should hand over when another tab takes over', () => {
+    const { first, second } = createTabs()
+    first.election.start()
+    second.election.start()
+
+    second.election.takeOver()
+    expect(second.election.getRole()).toBe('claiming')
+
+    first.election.handleStorageChange()
+    expect(first.election.getRole()).toBe('follower')
+
+    second.heartbeat()
+    expect(second.election.getRole()).toBe('leader')
+
+    // The old leader stays out of the way
+    first.heartbeat()
+    expect(first.election.getRole()).toBe('follower')
+  })
+
+  it('should step down on its own heartbeat if the storage event is missed', () => {
+    const { first, second } = createTabs()
+    first.election.start()
+    second.election.start()
+
+    second.election.takeOver()
+    first.heartbeat()
+
+    expect(first.election.getRole()).toBe('follower')
+  })
+
+  it('should take over once the leader closes', () => {
+    const { storage, first, second } = createTabs()
+    first.election.start()
+    second.election.start()
+
+    first.election.stop()
+    expect(storage.getItem(TAB_LEADER_KEY)).toBeNull()
+
+    second.heartbeat()
+    expect(second.election.getRole()).toBe('claiming')
+    second.heartbeat()
+    expect(second.election.getRole()).toBe('leader')
+  })
+
+  it('should take over once the leader stops renewing its lease', () => {
+    const { clock, first, second } = createTabs()
+    first.election.start()
+    second.election.start()
+
+    clock.advance(LEADER_LEASE_MS - 1)
+    second.heartbeat()
+    expect(second.election.getRole()).toBe('follower')
+
+    clock.advance(1)
+    second.heartbeat()
+    second.heartbeat()
+    expect(second.election.getRole()).toBe('leader')
+  })
+
+  it('should notify listeners of role changes', () => {
+    const { first, second } = createTabs()
+    const roles: string[] = []
+    first.election.subscribe(role => roles.push(role))
+
+    first.election.start()
+    second.election.start()
+    second.election.takeOver()
+    first.election.handleStorageChange()
+
+    expect(roles).toEqual(['leader', 'follower'])
+  })
+})
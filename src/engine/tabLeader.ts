@@ -0,0 +1,210 @@
+import type { Clock, KeyValueStorage, Scheduler } from '../types/gameTypes'
+import { createMemoryStorage } from './saveSlots'
+import { systemClock, intervalScheduler } from './scheduler'
+
+/**
+ * Storage key holding the lease of the tab that runs the game loop
+ */
+export const TAB_LEADER_KEY = 'idle-clicker-leader'
+
+/**
+ * How often the leader renews its lease and other tabs check on it
+ */
+export const LEADER_HEARTBEAT_MS = 1000
+
+/**
+ * How long a lease stays valid without being renewed
+ * A tab that crashes or is killed loses leadership after this long
+ */
+export const LEADER_LEASE_MS = 5000
+
+/**
+ * What this tab is allowed to do
+ * - leader: runs the game loop and writes the save
+ * - claiming: asked to take over, waiting one heartbeat so the old leader can stop
+ * - follower: another tab is running the game
+ */
+export type TabRole = 'leader' | 'claiming' | 'follower'
+
+/**
+ * Everything stored under TAB_LEADER_KEY
+ */
+interface LeaderLease {
+  tabId: string
+  renewedAt: number
+}
+
+/**
+ * Dependencies injected into the election, defaulting to a headless setup
+ */
+export interface TabLeaderOptions {
+  storage?: KeyValueStorage
+  clock?: Clock
+  scheduler?: Scheduler
+  tabId?: string
+}
+
+/**
+ * Elects one tab to run the game, using a lease in shared storage
+ * The leader renews the lease every heartbeat; a tab that finds the lease taken by someone else steps down.
+ * Other tabs take over when asked to, or by themselves once the lease runs out.
+ */
+export class TabLeaderElection {
+  private storage: KeyValueStorage
+  private clock: Clock
+  private scheduler: Scheduler
+  private tabId: string
+  private role: TabRole = 'follower'
+  private heartbeat: unknown = null
+  private listeners = new Set<(role: TabRole) => void>()
+
+  constructor(options: TabLeaderOptions = {}) {
+    this.storage = options.storage ?? createMemoryStorage()
+    this.clock = options.clock ?? systemClock
+    this.scheduler = options.scheduler ?? intervalScheduler
+    this.tabId = options.tabId ?? `${this.clock.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+  }
+
+  /**
+   * Join the election
+   * Leads straight away when no other tab holds a live lease
+   */
+  public start(): TabRole {
+    if (this.heartbeat !== null) {
+      return this.role
+    }
+
+    if (this.isLeaseFree(this.readLease())) {
+      this.writeLease()
+      this.setRole('leader')
+    } else {
+      this.setRole('follower')
+    }
+
+    this.heartbeat = this.scheduler.setInterval(() => this.check(true), LEADER_HEARTBEAT_MS)
+    return this.role
+  }
+
+  /**
+   * Leave the election, handing the lease back so another tab can lead at once
+   */
+  public stop(): void {
+    if (this.heartbeat !== null) {
+      this.scheduler.clearInterval(this.heartbeat)
+      this.heartbeat = null
+    }
+
+    if (this.readLease()?.tabId === this.tabId) {
+      this.storage.removeItem(TAB_LEADER_KEY)
+    }
+    this.setRole('follower')
+  }
+
+  /**
+   * Take the game over from whichever tab is running it
+   * Leadership starts on the next heartbeat, once the old leader has seen the claim
+   */
+  public takeOver(): void {
+    if (this.role !== 'follower') {
+      return
+    }
+
+    this.writeLease()
+    this.setRole('claiming')
+  }
+
+  /**
+   * React to another tab writing the lease (a `storage` event in the browser)
+   */
+  public handleStorageChange(): void {
+    this.check(false)
+  }
+
+  /**
+   * This tab's current role
+   */
+  public getRole(): TabRole {
+    return this.role
+  }
+
+  /**
+   * Id this tab writes into the lease
+   */
+  public getTabId(): string {
+    return this.tabId
+  }
+
+  /**
+   * Listen for role changes
+   * Returns a function that removes the listener again
+   */
+  public subscribe(listener: (role: TabRole) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Compare our role with the lease
+   * Claims are only confirmed on a heartbeat, never straight after another tab's write
+   */
+  private check(isHeartbeat: boolean): void {
+    const lease = this.readLease()
+    const ownsLease = lease?.tabId === this.tabId
+
+    switch (this.role) {
+      case 'leader':
+        if (ownsLease || this.isLeaseFree(lease)) {
+          if (isHeartbeat) this.writeLease()
+        } else {
+          this.setRole('follower')
+        }
+        break
+      case 'claiming':
+        if (!ownsLease) {
+          this.setRole('follower')
+        } else if (isHeartbeat) {
+          this.writeLease()
+          this.setRole('leader')
+        }
+        break
+      case 'follower':
+        // The leader closed or stopped renewing
+        if (isHeartbeat && this.isLeaseFree(lease)) {
+          this.writeLease()
+          this.setRole('claiming')
+        }
+        break
+    }
+  }
+
+  private isLeaseFree(lease: LeaderLease | null): boolean {
+    return !lease || this.clock.now() - lease.renewedAt >= LEADER_LEASE_MS
+  }
+
+  private readLease(): LeaderLease | null {
+    try {
+      const lease = JSON.parse(this.storage.getItem(TAB_LEADER_KEY) ?? 'null') as LeaderLease | null
+      return lease && typeof lease.tabId === 'string' && typeof lease.renewedAt === 'number' ? lease : null
+    } catch {
+      return null
+    }
+  }
+
+  private writeLease(): void {
+    const lease: LeaderLease = { tabId: this.tabId, renewedAt: this.clock.now() }
+    this.storage.setItem(TAB_LEADER_KEY, JSON.stringify(lease))
+  }
+
+  private setRole(role: TabRole): void {
+    if (role === this.role) {
+      return
+    }
+
+    this.role = role
+    for (const listener of [...this.listeners]) {
+      listener(role)
+    }
+  }
+}
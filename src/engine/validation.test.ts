@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { validateGameState } from './validation'
+import { serializeGameState, createSaveData, encodeSaveString } from './serialization'
+import { createInitialGameState } from './gameState'
+import { GameEngine } from './gameEngine'
+import { createMemoryGameStore } from './memoryStore'
+import { getInitialIdleGenerators } from '../data/idleGenerators'
+import { decimal } from '../utils/decimal'
+import type { SerializableGameState } from '../types/gameTypes'
+
+/**
+ * A serialized state that has been played a little: generators, upgrades and achievements present
+ */
+function createPlayedState(): SerializableGameState {
+  const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState(0)) })
+  engine.tick(0)
+  const state = engine.getGameState()
+  state.currency = decimal(1000)
+  state.idleGenerators[0].owned = 3
+  return serializeGameState(state)
+}
+
+describe('Game state validation', () => {
+  it('should accept a state written by the serializer', () => {
+    const result = validateGameState(createPlayedState())
+
+    expect(result.issues).toEqual([])
+    expect(result.repaired).not.toBeNull()
+  })
+
+  it('should report field-level issues and repair them', () => {
+    const state = createPlayedState()
+    state.idleGenerators[0].owned = -2
+    state.idleGenerators[1].baseCost = 'garbage'
+    state.currentDimension = 7 as SerializableGameState['currentDimension']
+    state.views = 'NaN'
+    state.idleGenerators.push({ ...state.idleGenerators[0], id: 'deleted-generator' })
+
+    const result = validateGameState(state)
+
+    expect(result.issues.map(issue => issue.path).sort()).toEqual([
+      'currentDimension',
+      'idleGenerators[0].owned',
+      'idleGenerators[1].baseCost',
+      'idleGenerators[3].id',
+      'views',
+    ])
+    expect(result.repairable).toBe(true)
+
+    const repaired = result.repaired!
+    expect(repaired.idleGenerators[0].owned).toBe(0)
+    expect(repaired.idleGenerators[1].baseCost).toBe(getInitialIdleGenerators()[1].baseCost.toString())
+    expect(repaired.currentDimension).toBe(3)
+    expect(repaired.views).toBe('0')
+    expect(repaired.idleGenerators.map(gen => gen.id)).not.toContain('deleted-generator')
+    expect(validateGameState(repaired).issues).toEqual([])
+    expect(state.idleGenerators[0].owned).toBe(-2) // Input left alone
+  })
+
+  it('should rebuild purchase sets from per-item counts', () => {
+    const state = createPlayedState()
+    state.upgrades[0].currentPurchases = 1
+    state.prestigeUpgrades[0].currentPurchases = 1
+    // Only one-time upgrades are recorded, so a multi-level upgrade does not belong in the set
+    state.purchasedUpgrades = [state.upgrades[0].id]
+    // Sets written straight to JSON come back as empty objects
+    state.unlockedAchievements = {} as unknown as string[]
+
+    const result = validateGameState(state)
+
+    expect(result.issues.map(issue => issue.path)).toEqual(['purchasedUpgrades', 'purchasedPrestigeUpgrades', 'unlockedAchievements'])
+    expect(result.repaired!.purchasedUpgrades).toEqual([])
+    expect(result.repaired!.purchasedPrestigeUpgrades).toEqual([state.prestigeUpgrades[0].id])
+    expect(result.repaired!.unlockedAchievements).toEqual([])
+  })
+
+  it('should accept saves of upgrades bought through the engine', () => {
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()) })
+    const state = engine.getGameState()
+    state.currency = decimal(100000)
+    state.totalEarned = decimal(100000)
+    engine.tick(0)
+
+    expect(engine.purchaseUpgrade('base-value-1')).toBe(true)
+    expect(engine.purchaseMaxUpgrades('click-power-1')).toBeGreaterThan(0)
+    const saveString = engine.exportSave()
+
+    expect(validateGameState(JSON.parse(saveString).gameState).issues).toEqual([])
+    expect(engine.importSave(saveString)).toEqual({ status: 'ok' })
+    expect(engine.getGameState().upgrades.find(u => u.id === 'base-value-1')!.currentPurchases).toBe(1)
+  })
+
+  it('should refuse states whose progress cannot be read', () => {
+    const state = createPlayedState()
+    state.currency = 'lots'
+
+    const result = validateGameState(state)
+
+    expect(result.repairable).toBe(false)
+    expect(result.repaired).toBeNull()
+    expect(validateGameState('not a state').repairable).toBe(false)
+  })
+
+  it('should refuse invalid imports unless asked to repair', () => {
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()) })
+    const saveData = createSaveData(createInitialGameState(0), 0)
+    saveData.gameState.engagement = -5
+    const saveString = encodeSaveString(saveData)
+
+    const refused = engine.importSave(saveString)
+    expect(refused.status).toBe('invalid')
+    expect(refused.status === 'invalid' && refused.issues!.map(issue => issue.path)).toEqual(['engagement'])
+
+    const repaired = engine.importSave(saveString, { repair: true })
+    expect(repaired.status).toBe('ok')
+    expect(repaired.status === 'ok' && repaired.repairs).toHaveLength(1)
+    expect(engine.getGameState().engagement).toBe(1)
+  })
+})
@@ -0,0 +1,319 @@
+import type Decimal from 'decimal.js'
+import type { IdleGenerator, SerializableGameState, ValidationIssue } from '../types/gameTypes'
+import { decimal } from '../utils/decimal'
+import { DEFAULT_SETTINGS } from './gameState'
+import { getInitialUpgrades } from '../data/upgrades'
+import { getInitialIdleGenerators } from '../data/idleGenerators'
+import { getInitialPrestigeUpgrades } from '../data/prestigeUpgrades'
+import { getInitialMetaPrestigeUpgrades } from '../data/metaPrestigeUpgrades'
+import { getInitialAutomationSystems } from '../data/automation'
+import { getInitialAchievements } from '../data/achievements'
+import { getInitialInfluenceGenerators } from '../data/influenceGenerators'
+import { getInitialInfluenceUpgrades } from '../data/influenceUpgrades'
+import { isTemporaryEffectKind } from '../data/temporaryEffects'
+import { BUY_AMOUNT_MODES } from '../utils/cost'
+import { isOneTimeUpgrade } from '../managers/UpgradeManager'
+
+/**
+ * Result of validating a serialized game state
+ */
+export interface GameStateValidation {
+  issues: ValidationIssue[]
+  repairable: boolean // Every issue can be repaired
+  repaired: SerializableGameState | null // Copy with every issue repaired, null unless repairable
+}
+
+type Fields = Record<string, unknown>
+
+/**
+ * Fields shared by every kind of upgrade definition
+ */
+interface UpgradeDefinition {
+  maxPurchases: number
+  unlocked: boolean
+  baseCost: Decimal
+  costMultiplier: Decimal
+  effect: { type: string; value: Decimal }
+}
+
+interface NumberRange {
+  min?: number
+  max?: number
+  integer?: boolean
+}
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Short description of a bad value for issue messages
+ */
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'nothing'
+  if (typeof value === 'string') return `"${value.length > 20 ? `${value.slice(0, 20)}…` : value}"`
+  return Array.isArray(value) ? 'a list' : typeof value === 'object' && value !== null ? 'an object' : String(value)
+}
+
+function isDecimalValue(value: unknown, min: number): boolean {
+  if (typeof value !== 'string' && typeof value !== 'number') return false
+  try {
+    const parsed = decimal(value)
+    return parsed.isFinite() && parsed.greaterThanOrEqualTo(min)
+  } catch {
+    return false
+  }
+}
+
+function isNumberInRange(value: unknown, { min = 0, max = Infinity, integer = false }: NumberRange): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max && (!integer || Number.isInteger(value))
+}
+
+/**
+ * Check a serialized game state field by field
+ * Works on a copy, repairing what it can as it goes - the input is never modified
+ */
+export function validateGameState(value: unknown): GameStateValidation {
+  const issues: ValidationIssue[] = []
+  const report = (path: string, message: string, repairable = true) => {
+    issues.push({ path, message, repairable })
+  }
+
+  if (!isFields(value)) {
+    report('gameState', `expected an object, got ${describeValue(value)}`, false)
+    return { issues, repairable: false, repaired: null }
+  }
+
+  const state: Fields = JSON.parse(JSON.stringify(value))
+
+  const checkDecimal = (fields: Fields, key: string, path: string, fallback: string, repairable = true) => {
+    if (isDecimalValue(fields[key], 0)) return
+    report(path, `expected a non-negative number, got ${describeValue(fields[key])}`, repairable)
+    fields[key] = fallback
+  }
+
+  const checkNumber = (fields: Fields, key: string, path: string, fallback: number, range: NumberRange) => {
+    const current = fields[key]
+    if (isNumberInRange(current, range)) return
+
+    const { min = 0, max = Infinity, integer = false } = range
+    report(path, `expected ${integer ? 'a whole number' : 'a number'} from ${min} to ${max}, got ${describeValue(current)}`)
+    fields[key] = typeof current === 'number' && Number.isFinite(current)
+      ? Math.min(max, Math.max(min, integer ? Math.floor(current) : current))
+      : fallback
+  }
+
+  const checkBoolean = (fields: Fields, key: string, path: string, fallback: boolean) => {
+    if (typeof fields[key] === 'boolean') return
+    report(path, `expected true or false, got ${describeValue(fields[key])}`)
+    fields[key] = fallback
+  }
+
+  /**
+   * Check an id-keyed list against its definitions, dropping unknown and duplicate entries
+   */
+  const checkList = <T extends { id: string }>(key: string, definitions: T[], checkItem: (item: Fields, definition: T, path: string) => void) => {
+    if (!Array.isArray(state[key])) {
+      report(key, `expected a list, got ${describeValue(state[key])}`)
+      state[key] = []
+      return
+    }
+
+    const seen = new Set<string>()
+    state[key] = (state[key] as unknown[]).filter((item, index) => {
+      const path = `${key}[${index}]`
+      if (!isFields(item) || typeof item.id !== 'string') {
+        report(path, 'expected an entry with an id')
+        return false
+      }
+
+      const definition = definitions.find(d => d.id === item.id)
+      if (!definition) {
+        report(`${path}.id`, `unknown id "${item.id}"`)
+        return false
+      }
+      if (seen.has(item.id)) {
+        report(`${path}.id`, `duplicate id "${item.id}"`)
+        return false
+      }
+      seen.add(item.id)
+
+      checkItem(item, definition, path)
+      return true
+    })
+  }
+
+  /**
+   * Check that a purchased/unlocked id set agrees with the per-item state of its list
+   */
+  const checkIdSet = (setKey: string, listKey: string, isOwned: (item: Fields) => boolean, knownIds: string[]) => {
+    const list = state[listKey] as Fields[]
+    const current = state[setKey]
+
+    if (!Array.isArray(current) || current.some(id => typeof id !== 'string')) {
+      report(setKey, `expected a list of ids, got ${describeValue(current)}`)
+      state[setKey] = list.filter(isOwned).map(item => item.id)
+      return
+    }
+
+    // Without per-item state the set is all there is - only drop ids that no longer exist
+    if (list.length === 0) {
+      const unknown = current.filter(id => !knownIds.includes(id))
+      if (unknown.length > 0) {
+        report(setKey, `unknown ids ${unknown.join(', ')}`)
+        state[setKey] = current.filter(id => knownIds.includes(id))
+      }
+      return
+    }
+
+    const expected = list.filter(isOwned).map(item => item.id as string)
+    const missing = expected.filter(id => !current.includes(id))
+    const unexpected = current.filter(id => !expected.includes(id))
+    if (missing.length > 0 || unexpected.length > 0) {
+      const details = [
+        missing.length > 0 && `missing ${missing.join(', ')}`,
+        unexpected.length > 0 && `unexpected ${unexpected.join(', ')}`,
+      ].filter(Boolean).join('; ')
+      report(setKey, `does not match ${listKey} (${details})`)
+      state[setKey] = expected
+    }
+  }
+
+  const checkGenerator = (item: Fields, definition: IdleGenerator, path: string) => {
+    checkNumber(item, 'owned', `${path}.owned`, 0, { integer: true })
+    checkDecimal(item, 'baseProduction', `${path}.baseProduction`, definition.baseProduction.toString())
+    checkDecimal(item, 'baseCost', `${path}.baseCost`, definition.baseCost.toString())
+    checkDecimal(item, 'costMultiplier', `${path}.costMultiplier`, definition.costMultiplier.toString())
+    checkBoolean(item, 'unlocked', `${path}.unlocked`, definition.unlocked)
+  }
+
+  const checkUpgrade = (item: Fields, definition: UpgradeDefinition, path: string) => {
+    checkNumber(item, 'currentPurchases', `${path}.currentPurchases`, 0, { integer: true, max: definition.maxPurchases })
+    checkDecimal(item, 'baseCost', `${path}.baseCost`, definition.baseCost.toString())
+    checkDecimal(item, 'costMultiplier', `${path}.costMultiplier`, definition.costMultiplier.toString())
+    checkBoolean(item, 'unlocked', `${path}.unlocked`, definition.unlocked)
+
+    const effect = definition.effect
+    if (!isFields(item.effect)) {
+      report(`${path}.effect`, `expected an object, got ${describeValue(item.effect)}`)
+      item.effect = { type: effect.type, value: effect.value.toString() }
+    } else {
+      checkDecimal(item.effect, 'value', `${path}.effect.value`, effect.value.toString())
+    }
+  }
+
+  // Progress - without these there is nothing worth repairing
+  checkDecimal(state, 'currency', 'currency', '0', false)
+  checkDecimal(state, 'totalEarned', 'totalEarned', '0', false)
+
+  // Currencies and multipliers
+  for (const key of ['views', 'reach', 'totalReach', 'influence', 'prestigePoints', 'metaPrestigePoints']) {
+    checkDecimal(state, key, key, '0')
+  }
+  for (const key of ['clickMultiplier', 'baseClickValue', 'idleMultiplier']) {
+    checkDecimal(state, key, key, '1')
+  }
+
+  // Plain numbers
+  checkNumber(state, 'currentDimension', 'currentDimension', 1, { min: 1, max: 3, integer: true })
+  checkNumber(state, 'engagement', 'engagement', 1, { min: 1, integer: true })
+  checkNumber(state, 'totalClicks', 'totalClicks', 0, { integer: true })
+  checkNumber(state, 'gameStartTime', 'gameStartTime', 0, {})
+  checkNumber(state, 'lastSaveTime', 'lastSaveTime', 0, {})
+  checkNumber(state, 'lastActiveTime', 'lastActiveTime', 0, {})
+  checkNumber(state, 'offlineProgressRate', 'offlineProgressRate', 0, { max: 1 })
+  checkNumber(state, 'maxOfflineHours', 'maxOfflineHours', 1, {})
+  checkNumber(state, 'totalPrestiges', 'totalPrestiges', 0, { integer: true })
+  checkNumber(state, 'totalMetaPrestiges', 'totalMetaPrestiges', 0, { integer: true })
+  checkNumber(state, 'simulationSpeed', 'simulationSpeed', 1, {})
+
+  if (!Array.isArray(state.recentClicks) || state.recentClicks.some(time => !isNumberInRange(time, {}))) {
+    report('recentClicks', 'expected a list of timestamps')
+    state.recentClicks = []
+  }
+  if (!Array.isArray(state.temporaryEffects)) {
+    report('temporaryEffects', `expected a list, got ${describeValue(state.temporaryEffects)}`)
+    state.temporaryEffects = []
+  } else {
+    const isValidEffect = (effect: unknown) =>
+      isFields(effect) &&
+      isTemporaryEffectKind(effect.kind) &&
+      isFields(effect.params) &&
+      Object.values(effect.params).every(value => Number.isFinite(value)) &&
+      isNumberInRange(effect.remaining, {}) &&
+      isNumberInRange(effect.duration, {}) &&
+      ['stack', 'refresh', 'extend'].includes(effect.stacking as string)
+    const effects = state.temporaryEffects as unknown[]
+    if (!effects.every(isValidEffect)) {
+      report('temporaryEffects', 'dropped effects with an unknown kind or malformed fields')
+      state.temporaryEffects = effects.filter(isValidEffect)
+    }
+  }
+
+  // Id-keyed lists
+  checkList('idleGenerators', getInitialIdleGenerators(), checkGenerator)
+  checkList('influenceGenerators', getInitialInfluenceGenerators(), checkGenerator)
+  checkList('upgrades', getInitialUpgrades(), checkUpgrade)
+  checkList('influenceUpgrades', getInitialInfluenceUpgrades(), checkUpgrade)
+  checkList('prestigeUpgrades', getInitialPrestigeUpgrades(), checkUpgrade)
+  checkList('metaPrestigeUpgrades', getInitialMetaPrestigeUpgrades(), checkUpgrade)
+  checkList('automationSystems', getInitialAutomationSystems(), (item, definition, path) => {
+    checkNumber(item, 'owned', `${path}.owned`, 0, { integer: true })
+    checkDecimal(item, 'baseCost', `${path}.baseCost`, definition.baseCost.toString())
+    checkDecimal(item, 'costMultiplier', `${path}.costMultiplier`, definition.costMultiplier.toString())
+    checkDecimal(item, 'clicksPerSecond', `${path}.clicksPerSecond`, definition.clicksPerSecond.toString())
+    checkDecimal(item, 'efficiency', `${path}.efficiency`, definition.efficiency.toString())
+    checkBoolean(item, 'unlocked', `${path}.unlocked`, definition.unlocked)
+  })
+  checkList('achievements', getInitialAchievements(), (item, definition, path) => {
+    checkBoolean(item, 'unlocked', `${path}.unlocked`, false)
+    if (isFields(item.reward) && definition.reward) {
+      checkDecimal(item.reward, 'value', `${path}.reward.value`, definition.reward.value.toString())
+    }
+  })
+
+  // Sets must agree with the per-item counts they summarise
+  const isPurchased = (item: Fields) => (item.currentPurchases as number) > 0
+  // Only one-time upgrades are recorded in purchasedUpgrades, as UpgradeManager does
+  const oneTimeUpgradeIds = getInitialUpgrades().filter(isOneTimeUpgrade).map(u => u.id)
+  checkIdSet('purchasedUpgrades', 'upgrades', item => isPurchased(item) && oneTimeUpgradeIds.includes(item.id as string), getInitialUpgrades().map(u => u.id))
+  checkIdSet('purchasedPrestigeUpgrades', 'prestigeUpgrades', isPurchased, getInitialPrestigeUpgrades().map(u => u.id))
+  checkIdSet('purchasedMetaPrestigeUpgrades', 'metaPrestigeUpgrades', isPurchased, getInitialMetaPrestigeUpgrades().map(u => u.id))
+  checkIdSet('unlockedAchievements', 'achievements', item => item.unlocked === true, getInitialAchievements().map(a => a.id))
+
+  // Settings
+  if (!isFields(state.settings)) {
+    report('settings', `expected an object, got ${describeValue(state.settings)}`)
+    state.settings = { ...DEFAULT_SETTINGS }
+  } else {
+    const settings = state.settings
+    const choices: Partial<Record<keyof typeof DEFAULT_SETTINGS, readonly unknown[]>> = {
+      numberFormat: ['suffix', 'scientific'],
+      theme: ['light', 'dark', 'auto'],
+      buyAmount: BUY_AMOUNT_MODES,
+    }
+    for (const [key, fallback] of Object.entries(DEFAULT_SETTINGS) as [keyof typeof DEFAULT_SETTINGS, unknown][]) {
+      const allowed = choices[key]
+      const valid = allowed
+        ? allowed.includes(settings[key])
+        : typeof settings[key] === typeof fallback && (typeof fallback !== 'number' || isNumberInRange(settings[key], { min: 1 }))
+      if (!valid) {
+        report(`settings.${key}`, `unexpected value ${describeValue(settings[key])}`)
+        settings[key] = fallback
+      }
+    }
+  }
+
+  const repairable = issues.every(issue => issue.repairable)
+  return {
+    issues,
+    repairable,
+    repaired: repairable ? (state as unknown as SerializableGameState) : null,
+  }
+}
+
+/**
+ * One line per issue, for logs and error messages
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path}: ${issue.message}`).join('\n')
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest'
+import Decimal from 'decimal.js'
+import { WorkerGameEngine } from './workerGameEngine'
+import { createGameWorkerHost } from './gameWorkerHost'
+import { createMemoryGameStore } from './memoryStore'
+import { createInitialGameState } from './gameState'
+import { createManualClock, createManualScheduler } from './scheduler'
+import { FIXED_TIMESTEP_MS } from './gameEngine'
+import { GameEventBus } from './eventBus'
+import { decimal } from '../utils/decimal'
+import type { MessagePortLike } from './workerProtocol'
+
+/**
+ * Two ends of a message channel that only deliver when told to, in order
+ * Work deferred on an end runs after the messages delivered with it, like a later task
+ */
+function createChannel() {
+  const createEnd = () => {
+    const listeners: ((event: { data: unknown }) => void)[] = []
+    const inbox: unknown[] = []
+    const deferred: (() => void)[] = []
+    const deliver = () => {
+      while (inbox.length > 0) {
+        const data = structuredClone(inbox.shift())
+        listeners.forEach(listener => listener({ data }))
+      }
+      deferred.splice(0).forEach(callback => callback())
+    }
+    return { listeners, inbox, deferred, deliver }
+  }
+  const mainEnd = createEnd()
+  const workerEnd = createEnd()
+
+  const connect = (from: ReturnType<typeof createEnd>, to: ReturnType<typeof createEnd>): MessagePortLike => ({
+    postMessage: (message) => {
+      to.inbox.push(message)
+    },
+    addEventListener: (_type, listener) => {
+      from.listeners.push(listener)
+    },
+  })
+
+  return {
+    main: connect(mainEnd, workerEnd),
+    worker: connect(workerEnd, mainEnd),
+    toWorker: workerEnd.deliver,
+    toMain: mainEnd.deliver,
+    deferInWorker: (callback: () => void) => {
+      workerEnd.deferred.push(callback)
+    },
+    pendingForMain: () => mainEnd.inbox.length,
+    flush: () => {
+      while (workerEnd.inbox.length > 0 || mainEnd.inbox.length > 0) {
+        workerEnd.deliver()
+        mainEnd.deliver()
+      }
+    },
+  }
+}
+
+describe('Worker game engine', () => {
+  const START = 10_000_000
+
+  const createPair = () => {
+    const channel = createChannel()
+    const clock = createManualClock(START)
+    const scheduler = createManualScheduler()
+    const worker = createGameWorkerHost(channel.worker, { clock, scheduler, defer: channel.deferInWorker })
+    const events = new GameEventBus()
+    const engine = new WorkerGameEngine(channel.main, {
+      store: createMemoryGameStore(createInitialGameState(START)),
+      clock,
+      events,
+    })
+    channel.flush()
+    return { channel, clock, scheduler, worker, engine, events }
+  }
+
+  it('should answer commands at once and replay them in the worker', () => {
+    const { channel, worker, engine } = createPair()
+
+    expect(engine.performClick().equals(decimal(1))).toBe(true)
+    expect(engine.getGameState().currency.equals(decimal(1))).toBe(true)
+    expect(worker.getGameState().currency.equals(decimal(0))).toBe(true)
+
+    channel.flush()
+
+    expect(worker.getGameState().currency.equals(decimal(1))).toBe(true)
+    expect(engine.getGameState().currency.equals(decimal(1))).toBe(true)
+  })
+
+  it('should run the loop only in the worker', () => {
+    const { channel, clock, scheduler, worker, engine } = createPair()
+
+    engine.startGameLoop()
+    channel.flush()
+    expect(engine.isRunning()).toBe(true)
+    expect(worker.isRunning()).toBe(true)
+
+    clock.advance(FIXED_TIMESTEP_MS * 3)
+    scheduler.fire()
+    channel.flush()
+
+    expect(engine.getGameState().lastActiveTime).toBe(START + FIXED_TIMESTEP_MS * 3)
+  })
+
+  it('should only resume a loop the background pause stopped', () => {
+    const { channel, worker, engine } = createPair()
+
+    engine.resumeFromBackground()
+    channel.flush()
+    expect(engine.isRunning()).toBe(false)
+    expect(worker.isRunning()).toBe(false)
+
+    engine.startGameLoop()
+    engine.pauseForBackground()
+    engine.resumeFromBackground()
+    channel.flush()
+    expect(engine.isRunning()).toBe(true)
+    expect(worker.isRunning()).toBe(true)
+  })
+
+  it('should skip snapshots taken before the worker saw the latest command', () => {
+    const { channel, clock, scheduler, engine } = createPair()
+    engine.startGameLoop()
+    channel.flush()
+
+    clock.advance(FIXED_TIMESTEP_MS)
+    scheduler.fire()
+    engine.performClick()
+
+    // The tick's snapshot predates the click and must not undo it
+    channel.toMain()
+    expect(engine.getGameState().currency.equals(decimal(1))).toBe(true)
+
+    channel.flush()
+    expect(engine.getGameState().currency.equals(decimal(1))).toBe(true)
+  })
+
+  it('should send one snapshot for a burst of commands', () => {
+    const { channel, worker, engine } = createPair()
+
+    engine.performClick()
+    engine.performClick()
+    engine.performClick()
+    channel.toWorker()
+
+    expect(channel.pendingForMain()).toBe(1)
+    expect(worker.getGameState().totalClicks).toBe(3)
+
+    channel.toMain()
+    expect(engine.getGameState().currency.equals(decimal(3))).toBe(true)
+  })
+
+  it('should publish the worker events once, with Decimals intact', () => {
+    const { channel, engine, events } = createPair()
+    const amounts: Decimal[] = []
+    events.subscribe('CLICK_PERFORMED', event => amounts.push(event.payload.amount))
+
+    engine.performClick()
+    expect(amounts).toHaveLength(0)
+
+    channel.flush()
+    expect(amounts).toHaveLength(1)
+    expect(amounts[0]).toBeInstanceOf(Decimal)
+    expect(amounts[0].equals(decimal(1))).toBe(true)
+  })
+
+  it('should send state replacements to the worker', () => {
+    const { channel, worker, engine } = createPair()
+    engine.performClick()
+    engine.performClick()
+    channel.flush()
+
+    engine.resetGame()
+    channel.flush()
+
+    expect(worker.getGameState().currency.equals(decimal(0))).toBe(true)
+    expect(worker.getGameState().totalClicks).toBe(0)
+  })
+})
@@ -0,0 +1,239 @@
+import type Decimal from 'decimal.js'
+import type {
+  BaseClickMode,
+  GameEvent,
+  GameEventType,
+  GameEventHandler,
+  GameSettings,
+  GameStateStore,
+  OfflineProgress,
+  SaveData,
+} from '../types/gameTypes'
+import { GameEngine } from './gameEngine'
+import type { GameEngineOptions } from './gameEngine'
+import { GameEventBus } from './eventBus'
+import { createMemoryGameStore } from './memoryStore'
+import { serializeGameState, deserializeGameState } from './serialization'
+import { toTransferable, fromTransferable } from './workerProtocol'
+import type { MainToWorkerMessage, MessagePortLike, ReplayedCommand, WorkerCommand, WorkerSnapshot } from './workerProtocol'
+
+/**
+ * Main-thread side of a game running in a Web Worker
+ * The worker runs the loop and owns the real state; this engine's store is a read-model fed by its snapshots.
+ * Queries read the store as usual. Commands also run here so callers get their result immediately,
+ * then the worker replays them and its next snapshot replaces the local result.
+ */
+export class WorkerGameEngine extends GameEngine {
+  private port: MessagePortLike
+  private readModel: GameStateStore
+  private publicEvents: GameEventBus
+  private sentSeq = 0
+  private commandDepth = 0 // Nested commands are replayed by the outer one
+  private running = false
+  private pausedForBackground = false // Mirrors the worker engine, so a resume only restarts a loop the pause stopped
+
+  constructor(port: MessagePortLike, options: GameEngineOptions = {}) {
+    const store = options.store ?? createMemoryGameStore()
+    // Local runs publish into a private bus; listeners hear the worker's events, once
+    super({ ...options, store, events: new GameEventBus() })
+    this.port = port
+    this.readModel = store
+    this.publicEvents = options.events ?? new GameEventBus()
+
+    this.port.addEventListener('message', ({ data }) => this.receiveSnapshot(data as WorkerSnapshot))
+    this.syncFromStore()
+  }
+
+  /**
+   * Send the store's current state to the worker, e.g. after it was rehydrated from storage
+   */
+  public syncFromStore(): void {
+    this.send({ type: 'load', seq: ++this.sentSeq, state: serializeGameState(this.getGameState()) })
+  }
+
+  public subscribe<T extends GameEventType>(type: T, handler: GameEventHandler<T>): () => void {
+    return this.publicEvents.subscribe(type, handler)
+  }
+
+  public getEventBus(): GameEventBus {
+    return this.publicEvents
+  }
+
+  // Loop control only happens in the worker
+
+  public startGameLoop(): void {
+    this.running = true
+    this.sendCommand('startGameLoop')
+  }
+
+  public stopGameLoop(): void {
+    this.running = false
+    this.pausedForBackground = false
+    this.sendCommand('stopGameLoop')
+  }
+
+  public pauseForBackground(): void {
+    if (!this.running) return
+    this.running = false
+    this.pausedForBackground = true
+    this.sendCommand('pauseForBackground')
+  }
+
+  /**
+   * Catch-up happens in the worker, which publishes any OFFLINE_PROGRESS event
+   */
+  public resumeFromBackground(): OfflineProgress | null {
+    if (!this.pausedForBackground) return null
+    this.pausedForBackground = false
+    this.running = true
+    this.sendCommand('resumeFromBackground')
+    return null
+  }
+
+  public isRunning(): boolean {
+    return this.running
+  }
+
+  // State replacements run here and send the resulting state over
+
+  public loadGame(saveData: SaveData): boolean {
+    const loaded = super.loadGame(saveData)
+    if (loaded && this.commandDepth === 0) this.syncFromStore()
+    return loaded
+  }
+
+  public resetGame(): void {
+    super.resetGame()
+    this.syncFromStore()
+  }
+
+  public applyOfflineProgress(): OfflineProgress | null {
+    const progress = super.applyOfflineProgress()
+    if (progress) {
+      this.syncFromStore()
+      this.publicEvents.emit({ type: 'OFFLINE_PROGRESS', payload: progress })
+    }
+    return progress
+  }
+
+  // Commands run here for their result and are replayed in the worker
+
+  public performClick(): Decimal {
+    return this.replay('performClick', [], () => super.performClick())
+  }
+
+  public cycleBaseClickBoost(): BaseClickMode {
+    return this.replay('cycleBaseClickBoost', [], () => super.cycleBaseClickBoost())
+  }
+
+  public setSimulationSpeed(speed: number): void {
+    this.replay('setSimulationSpeed', [speed], () => super.setSimulationSpeed(speed))
+  }
+
+  public purchaseEngagement(): boolean {
+    return this.replay('purchaseEngagement', [], () => super.purchaseEngagement())
+  }
+
+  public purchaseUpgrade(upgradeId: string, amount: number = 1): boolean {
+    return this.replay('purchaseUpgrade', [upgradeId, amount], () => super.purchaseUpgrade(upgradeId, amount))
+  }
+
+  public purchaseMaxUpgrades(upgradeId: string): number {
+    return this.replay('purchaseMaxUpgrades', [upgradeId], () => super.purchaseMaxUpgrades(upgradeId))
+  }
+
+  public purchaseGenerator(generatorId: string, amount: number = 1): boolean {
+    return this.replay('purchaseGenerator', [generatorId, amount], () => super.purchaseGenerator(generatorId, amount))
+  }
+
+  public purchaseMaxGenerators(generatorId: string): number {
+    return this.replay('purchaseMaxGenerators', [generatorId], () => super.purchaseMaxGenerators(generatorId))
+  }
+
+  public performPrestige(): void {
+    this.replay('performPrestige', [], () => super.performPrestige())
+  }
+
+  public shiftToDimension2(): boolean {
+    return this.replay('shiftToDimension2', [], () => super.shiftToDimension2())
+  }
+
+  public returnToDimension1(): boolean {
+    return this.replay('returnToDimension1', [], () => super.returnToDimension1())
+  }
+
+  public purchasePrestigeUpgrade(upgradeId: string): boolean {
+    return this.replay('purchasePrestigeUpgrade', [upgradeId], () => super.purchasePrestigeUpgrade(upgradeId))
+  }
+
+  public performMetaPrestige(): void {
+    this.replay('performMetaPrestige', [], () => super.performMetaPrestige())
+  }
+
+  public purchaseMetaPrestigeUpgrade(upgradeId: string): boolean {
+    return this.replay('purchaseMetaPrestigeUpgrade', [upgradeId], () => super.purchaseMetaPrestigeUpgrade(upgradeId))
+  }
+
+  public purchaseAutomation(automationId: string, amount: number = 1): boolean {
+    return this.replay('purchaseAutomation', [automationId, amount], () => super.purchaseAutomation(automationId, amount))
+  }
+
+  public purchaseInfluenceGenerator(generatorId: string, amount: number = 1): boolean {
+    return this.replay('purchaseInfluenceGenerator', [generatorId, amount], () => super.purchaseInfluenceGenerator(generatorId, amount))
+  }
+
+  public purchaseInfluenceUpgrade(upgradeId: string): boolean {
+    return this.replay('purchaseInfluenceUpgrade', [upgradeId], () => super.purchaseInfluenceUpgrade(upgradeId))
+  }
+
+  public purchaseInfluence(): boolean {
+    return this.replay('purchaseInfluence', [], () => super.purchaseInfluence())
+  }
+
+  public unlockAchievement(achievementId: string): boolean {
+    return this.replay('unlockAchievement', [achievementId], () => super.unlockAchievement(achievementId))
+  }
+
+  public updateSettings(settings: Partial<GameSettings>): void {
+    this.replay('updateSettings', [settings], () => super.updateSettings(settings))
+  }
+
+  public saveGame(): void {
+    this.replay('saveGame', [], () => super.saveGame())
+  }
+
+  /**
+   * Run a command locally, then have the worker run it too
+   */
+  private replay<T>(command: ReplayedCommand, args: unknown[], run: () => T): T {
+    this.commandDepth++
+    try {
+      return run()
+    } finally {
+      this.commandDepth--
+      if (this.commandDepth === 0) this.sendCommand(command, args)
+    }
+  }
+
+  private sendCommand(command: WorkerCommand, args: unknown[] = []): void {
+    this.send({ type: 'command', seq: ++this.sentSeq, command, args: toTransferable(args) as unknown[] })
+  }
+
+  private send(message: MainToWorkerMessage): void {
+    this.port.postMessage(message)
+  }
+
+  /**
+   * Apply a snapshot from the worker and republish its events
+   * Snapshots taken before the worker saw our latest message are skipped, as they would undo it
+   */
+  private receiveSnapshot(snapshot: WorkerSnapshot): void {
+    if (snapshot.seq === this.sentSeq) {
+      this.readModel.setGameState(deserializeGameState(snapshot.state))
+    }
+
+    for (const event of snapshot.events) {
+      this.publicEvents.emit(fromTransferable(event) as GameEvent)
+    }
+  }
+}
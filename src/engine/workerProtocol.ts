@@ -0,0 +1,114 @@
+import Decimal from 'decimal.js'
+import type { SerializableGameState } from '../types/gameTypes'
+import type { GameEngine } from './gameEngine'
+
+/**
+ * Engine commands that change the game
+ * The main thread runs them against its copy for an immediate result, and the worker replays them for real
+ */
+export const REPLAYED_COMMANDS = [
+  'performClick',
+  'cycleBaseClickBoost',
+  'setSimulationSpeed',
+  'purchaseEngagement',
+  'purchaseUpgrade',
+  'purchaseMaxUpgrades',
+  'purchaseGenerator',
+  'purchaseMaxGenerators',
+  'performPrestige',
+  'shiftToDimension2',
+  'returnToDimension1',
+  'purchasePrestigeUpgrade',
+  'performMetaPrestige',
+  'purchaseMetaPrestigeUpgrade',
+  'purchaseAutomation',
+  'purchaseInfluenceGenerator',
+  'purchaseInfluenceUpgrade',
+  'purchaseInfluence',
+  'unlockAchievement',
+  'updateSettings',
+  'saveGame',
+] as const satisfies readonly (keyof GameEngine)[]
+
+/**
+ * Loop control, which only the worker runs
+ */
+export const WORKER_ONLY_COMMANDS = [
+  'startGameLoop',
+  'stopGameLoop',
+  'pauseForBackground',
+  'resumeFromBackground',
+] as const satisfies readonly (keyof GameEngine)[]
+
+export type ReplayedCommand = typeof REPLAYED_COMMANDS[number]
+export type WorkerCommand = ReplayedCommand | typeof WORKER_ONLY_COMMANDS[number]
+
+/**
+ * Messages from the main thread to the worker, numbered in the order they were sent
+ * - load: replace the worker's game state (startup, imports, resets)
+ * - command: run an engine method with the given arguments
+ */
+export type MainToWorkerMessage =
+  | { type: 'load'; seq: number; state: SerializableGameState }
+  | { type: 'command'; seq: number; command: WorkerCommand; args: unknown[] }
+
+/**
+ * Snapshot the worker posts after every loop callback and every message it handles
+ * `seq` is the last message applied; `events` were published since the previous snapshot
+ */
+export interface WorkerSnapshot {
+  seq: number
+  state: SerializableGameState
+  events: unknown[]
+}
+
+/**
+ * Either end of the connection: the Worker on the main thread, the worker's global scope inside it
+ */
+export interface MessagePortLike {
+  postMessage(message: unknown): void
+  addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void
+}
+
+/**
+ * Make a value safe to post between threads
+ * Decimals and Sets lose their prototypes in structured clone, so they are tagged; functions are dropped
+ */
+export function toTransferable(value: unknown): unknown {
+  if (Decimal.isDecimal(value)) {
+    return { $decimal: value.toString() }
+  }
+  if (value instanceof Set) {
+    return { $set: [...value].map(toTransferable) }
+  }
+  if (Array.isArray(value)) {
+    return value.map(toTransferable)
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      if (typeof item !== 'function') result[key] = toTransferable(item)
+    }
+    return result
+  }
+  return value
+}
+
+/**
+ * Reverse toTransferable
+ */
+export function fromTransferable(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(fromTransferable)
+  }
+  if (value && typeof value === 'object') {
+    const tagged = value as { $decimal?: unknown; $set?: unknown }
+    if (typeof tagged.$decimal === 'string') return new Decimal(tagged.$decimal)
+    if (Array.isArray(tagged.$set)) return new Set(tagged.$set.map(fromTransferable))
+
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) result[key] = fromTransferable(item)
+    return result
+  }
+  return value
+}
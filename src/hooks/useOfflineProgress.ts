@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { OfflineProgress } from '../types/gameTypes'
+import { gameEngine, getStartupOfflineProgress, clearStartupOfflineProgress } from '../engine/gameEngineInstance'
+
+/**
+ * Hook to get the most recent offline progress summary until it is dismissed
+ * Picks up the progress granted on startup and any granted later on tab refocus
+ */
+export const useOfflineProgress = () => {
+  const [progress, setProgress] = useState<OfflineProgress | null>(getStartupOfflineProgress)
+  
+  useEffect(() => {
+    return gameEngine.subscribe('OFFLINE_PROGRESS', (event) => {
+      setProgress(event.payload)
+    })
+  }, [])
+  
+  const dismiss = useCallback(() => {
+    clearStartupOfflineProgress()
+    setProgress(null)
+  }, [])
+  
+  return { progress, dismiss }
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react'
+import type { TabRole } from '../engine/tabLeader'
+import { tabLeader } from '../engine/gameEngineInstance'
+
+const subscribe = (onChange: () => void) => tabLeader.subscribe(onChange)
+const getRole = (): TabRole => tabLeader.getRole()
+
+/**
+ * Hook to get whether this tab is running the game or another tab is
+ */
+export const useTabRole = (): TabRole => useSyncExternalStore(subscribe, getRole)
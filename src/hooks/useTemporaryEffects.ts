@@ -1,16 +1,18 @@
 import { useGameStore } from '../stores/gameStore'
+import { TEMPORARY_EFFECTS } from '../data/temporaryEffects'
+import type { TemporaryEffectDefinition } from '../types/gameTypes'
 
 /**
  * Hook to get temporary effects filtered by type
  */
-export const useTemporaryEffects = (effectType?: string) => {
+export const useTemporaryEffects = (effectType?: TemporaryEffectDefinition['type']) => {
   const temporaryEffects = useGameStore((state) => state.gameState.temporaryEffects)
   
   if (!effectType) {
     return temporaryEffects
   }
   
-  return temporaryEffects.filter(effect => effect.type === effectType)
+  return temporaryEffects.filter(effect => TEMPORARY_EFFECTS[effect.kind]?.type === effectType)
 }
 
 /**
@@ -30,7 +32,7 @@ export const useIdleMultiplierEffects = () => {
 /**
  * Hook to check if any temporary effects are active
  */
-export const useHasActiveEffects = (effectType?: string) => {
+export const useHasActiveEffects = (effectType?: TemporaryEffectDefinition['type']) => {
   const effects = useTemporaryEffects(effectType)
   return effects.length > 0
 }
\ No newline at end of file
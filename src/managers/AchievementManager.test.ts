@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AchievementManager, getAchievementMultiplier } from './AchievementManager'
+import { createInitialGameState } from '../engine/gameState'
+import { serializeGameState, deserializeGameState } from '../engine/serialization'
+import { GameEngine } from '../engine/gameEngine'
+import { createMemoryGameStore } from '../engine/memoryStore'
+import { decimal, calculateStrategyPointsMultiplier } from '../utils/decimal'
+import type { GameState } from '../types/gameTypes'
+
+describe('AchievementManager', () => {
+  let achievementManager: AchievementManager
+  let gameState: GameState
+
+  beforeEach(() => {
+    achievementManager = new AchievementManager()
+    gameState = createInitialGameState(0)
+    achievementManager.initializeAchievements(gameState)
+  })
+
+  it('should seed a catalog covering every category', () => {
+    const categories = new Set(gameState.achievements.map(a => a.category))
+
+    expect([...categories].sort()).toEqual(['clicking', 'idle', 'meta', 'prestige', 'special'])
+    expect(gameState.achievements.every(a => !a.unlocked)).toBe(true)
+  })
+
+  it('should unlock achievements, emit events and report progress', () => {
+    const events = { emit: vi.fn() }
+    achievementManager = new AchievementManager(events)
+    gameState.totalClicks = 50
+    const clickbait = gameState.achievements.find(a => a.id === 'hundred-clicks')!
+
+    expect(achievementManager.getProgress(clickbait, gameState)).toBeCloseTo(0.5)
+    expect(achievementManager.checkAchievements(gameState).map(a => a.id)).toEqual(['first-click'])
+    expect(events.emit).toHaveBeenCalledWith({ type: 'ACHIEVEMENT_UNLOCKED', payload: { achievementId: 'first-click' } })
+    expect(gameState.unlockedAchievements.has('first-click')).toBe(true)
+  })
+
+  it('should grant currency rewards exactly once', () => {
+    gameState.automationSystems = [{
+      id: 'auto-clicker',
+      name: 'Auto Clicker',
+      description: 'Clicks for you',
+      baseCost: decimal(500),
+      costMultiplier: decimal(1.15),
+      owned: 1,
+      unlocked: true,
+      clicksPerSecond: decimal(1),
+      efficiency: decimal(1),
+    }]
+
+    achievementManager.checkAchievements(gameState)
+    achievementManager.checkAchievements(gameState)
+
+    expect(gameState.currency.equals(decimal(1000))).toBe(true)
+  })
+
+  it('should restore conditions and rewards after loading a save without re-applying them', () => {
+    gameState.totalClicks = 100
+    achievementManager.checkAchievements(gameState)
+    expect(getAchievementMultiplier(gameState, 'clickMultiplier').equals(decimal(1.1))).toBe(true)
+
+    const loaded = deserializeGameState(JSON.parse(JSON.stringify(serializeGameState(gameState))))
+    achievementManager.initializeAchievements(loaded)
+    achievementManager.initializeAchievements(loaded)
+
+    expect(getAchievementMultiplier(loaded, 'clickMultiplier').equals(decimal(1.1))).toBe(true)
+
+    loaded.totalClicks = 1000
+    expect(achievementManager.checkAchievements(loaded).map(a => a.id)).toEqual(['thousand-clicks'])
+    expect(getAchievementMultiplier(loaded, 'clickMultiplier').equals(decimal(1.375))).toBe(true)
+  })
+
+  it('should take rewards from the current definitions when loading a save', () => {
+    gameState.totalClicks = 1000
+    achievementManager.checkAchievements(gameState)
+    const saved = JSON.parse(JSON.stringify(serializeGameState(gameState)))
+    const savedAchievement = (id: string) => saved.achievements.find((a: { id: string }) => a.id === id)
+    // Saved before a rebalance, before a reward was added, and before one was removed
+    savedAchievement('thousand-clicks').reward.value = '5'
+    delete savedAchievement('hundred-clicks').reward
+    savedAchievement('first-click').reward = { type: 'clickMultiplier', value: '3' }
+
+    const loaded = deserializeGameState(saved)
+    achievementManager.initializeAchievements(loaded)
+
+    expect(loaded.achievements.find(a => a.id === 'first-click')!.reward).toBeUndefined()
+    expect(getAchievementMultiplier(loaded, 'clickMultiplier').equals(decimal(1.375))).toBe(true)
+  })
+
+  it('should keep reward multipliers through a prestige', () => {
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()) })
+    engine.tick(0)
+    const baseClick = engine.performClick()
+
+    engine.getGameState().totalClicks = 100
+    engine.tick(0)
+    engine.getGameState().totalEarned = decimal(100000)
+    engine.performPrestige()
+
+    const strategyBonus = calculateStrategyPointsMultiplier(engine.getGameState().prestigePoints)
+    expect(engine.performClick().equals(baseClick.times(1.1).times(strategyBonus))).toBe(true)
+  })
+})
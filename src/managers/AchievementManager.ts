@@ -0,0 +1,141 @@
+import type { Achievement, AchievementReward, GameState, GameEventEmitter } from '../types/gameTypes'
+import { decimal, ONE } from '../utils/decimal'
+import { getInitialAchievements } from '../data/achievements'
+
+/**
+ * Combined multiplier from unlocked achievement rewards of one type
+ * Derived from unlock state, so it holds through every reset and never stacks on reload
+ */
+export function getAchievementMultiplier(gameState: GameState, type: Extract<AchievementReward['type'], 'clickMultiplier' | 'idleMultiplier'>): import('decimal.js').default {
+  let total = ONE
+
+  for (const achievement of gameState.achievements) {
+    if (achievement.unlocked && achievement.reward?.type === type) {
+      total = total.times(decimal(achievement.reward.value))
+    }
+  }
+
+  return total
+}
+
+/**
+ * Fresh copy of an achievement definition with proper Decimal objects
+ */
+function createAchievement(definition: Achievement): Achievement {
+  return {
+    ...definition,
+    reward: definition.reward ? {
+      ...definition.reward,
+      value: decimal(definition.reward.value),
+    } : undefined,
+  }
+}
+
+/**
+ * Manages the achievement catalog and unlocking
+ */
+export class AchievementManager {
+  private events?: GameEventEmitter
+
+  constructor(events?: GameEventEmitter) {
+    this.events = events
+  }
+
+  /**
+   * Initialize achievements in the game state if not already present
+   * Also restores condition and progress functions and rebuilds rewards from the original definitions when loading from save
+   */
+  public initializeAchievements(gameState: GameState): void {
+    const INITIAL_ACHIEVEMENTS = getInitialAchievements()
+
+    if (gameState.achievements.length === 0) {
+      gameState.achievements = INITIAL_ACHIEVEMENTS.map(achievement => ({
+        ...createAchievement(achievement),
+        unlocked: gameState.unlockedAchievements.has(achievement.id),
+      }))
+      return
+    }
+
+    // Achievements exist (loaded from save) - restore functions, dropping removed achievements
+    const validAchievements: Achievement[] = []
+
+    for (const achievement of gameState.achievements) {
+      const originalAchievement = INITIAL_ACHIEVEMENTS.find(orig => orig.id === achievement.id)
+      if (originalAchievement) {
+        achievement.unlockCondition = originalAchievement.unlockCondition
+        achievement.progress = originalAchievement.progress
+        // Rewards always follow the current definitions, so rebalanced, added and removed ones reach old saves
+        achievement.reward = createAchievement(originalAchievement).reward
+        achievement.unlocked = achievement.unlocked || gameState.unlockedAchievements.has(achievement.id)
+        validAchievements.push(achievement)
+      } else {
+        console.warn(`Achievement ${achievement.id} no longer exists in current definitions, removing from save data`)
+        gameState.unlockedAchievements.delete(achievement.id)
+      }
+    }
+
+    gameState.achievements = validAchievements
+
+    // Add any new achievements that weren't in the save data
+    for (const definition of INITIAL_ACHIEVEMENTS) {
+      if (!gameState.achievements.some(a => a.id === definition.id)) {
+        gameState.achievements.push(createAchievement(definition))
+      }
+    }
+  }
+
+  /**
+   * Unlock an achievement and grant its reward
+   * Rewards are applied only on the locked-to-unlocked transition, so they never apply twice
+   */
+  public unlockAchievement(achievement: Achievement, gameState: GameState): boolean {
+    if (achievement.unlocked) {
+      return false
+    }
+
+    achievement.unlocked = true
+    gameState.unlockedAchievements.add(achievement.id)
+
+    if (achievement.reward) {
+      achievement.reward.apply(gameState)
+    }
+
+    this.events?.emit({ type: 'ACHIEVEMENT_UNLOCKED', payload: { achievementId: achievement.id } })
+
+    return true
+  }
+
+  /**
+   * Unlock every achievement whose condition is now met
+   */
+  public checkAchievements(gameState: GameState): Achievement[] {
+    const newlyUnlocked: Achievement[] = []
+
+    for (const achievement of gameState.achievements) {
+      if (achievement.unlocked) {
+        continue
+      }
+
+      try {
+        if (achievement.unlockCondition(gameState) && this.unlockAchievement(achievement, gameState)) {
+          newlyUnlocked.push(achievement)
+        }
+      } catch (error) {
+        console.warn(`Error checking unlock condition for achievement ${achievement.id}:`, error)
+      }
+    }
+
+    return newlyUnlocked
+  }
+
+  /**
+   * Completion ratio (0-1) of an achievement
+   */
+  public getProgress(achievement: Achievement, gameState: GameState): number {
+    if (achievement.unlocked) {
+      return 1
+    }
+
+    return achievement.progress ? achievement.progress(gameState) : 0
+  }
+}
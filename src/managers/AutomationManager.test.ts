@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { AutomationManager, calculateAutomationClicksPerSecond } from './AutomationManager'
+import { createInitialGameState } from '../engine/gameState'
+import { serializeGameState, deserializeGameState } from '../engine/serialization'
+import { GameEngine, FIXED_TIMESTEP_MS } from '../engine/gameEngine'
+import { createMemoryGameStore } from '../engine/memoryStore'
+import { decimal } from '../utils/decimal'
+import type { GameState } from '../types/gameTypes'
+
+describe('AutomationManager', () => {
+  let automationManager: AutomationManager
+  let gameState: GameState
+
+  beforeEach(() => {
+    automationManager = new AutomationManager()
+    gameState = createInitialGameState(0)
+    automationManager.initializeAutomation(gameState)
+  })
+
+  it('should add the automation catalog to a fresh game, locked', () => {
+    expect(gameState.automationSystems.map(a => a.id)).toEqual(['auto-clicker', 'macro-script', 'click-farm'])
+    expect(gameState.automationSystems.every(a => !a.unlocked)).toBe(true)
+  })
+
+  it('should unlock systems as their conditions are met', () => {
+    gameState.totalEarned = decimal(250)
+    automationManager.updateAutomationUnlocks(gameState)
+
+    expect(gameState.automationSystems.filter(a => a.unlocked).map(a => a.id)).toEqual(['auto-clicker'])
+  })
+
+  it('should restore unlock conditions after loading a save', () => {
+    const loaded = deserializeGameState(JSON.parse(JSON.stringify(serializeGameState(gameState))))
+    loaded.totalEarned = decimal(5000)
+    automationManager.updateAutomationUnlocks(loaded)
+
+    expect(loaded.automationSystems.filter(a => a.unlocked).map(a => a.id)).toEqual(['auto-clicker', 'macro-script'])
+  })
+
+  it('should deduct cost, add the system and emit a purchase event', () => {
+    const events = { emit: vi.fn() }
+    automationManager = new AutomationManager(events)
+    const autoClicker = gameState.automationSystems.find(a => a.id === 'auto-clicker')!
+    autoClicker.unlocked = true
+    gameState.currency = decimal(1200)
+
+    expect(automationManager.purchaseAutomation('auto-clicker', gameState)).toBe(true)
+    // Second one costs 500 * 1.15 = 575
+    expect(automationManager.getAutomationCost(autoClicker).equals(decimal(575))).toBe(true)
+    expect(automationManager.purchaseAutomation('auto-clicker', gameState)).toBe(true)
+    expect(automationManager.purchaseAutomation('auto-clicker', gameState)).toBe(false)
+
+    expect(autoClicker.owned).toBe(2)
+    expect(gameState.currency.equals(decimal(125))).toBe(true)
+    expect(events.emit).toHaveBeenCalledTimes(2)
+  })
+
+  it('should scale clicks per second by efficiency', () => {
+    gameState.automationSystems.find(a => a.id === 'auto-clicker')!.owned = 2
+    gameState.automationSystems.find(a => a.id === 'click-farm')!.owned = 1
+
+    // 2 × 1 + 1 × 50 × 1.5
+    expect(calculateAutomationClicksPerSecond(gameState).equals(decimal(77))).toBe(true)
+  })
+
+  it('should credit fractional automation earnings every step', () => {
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState(0)) })
+    engine.tick(0)
+    engine.getGameState().automationSystems.find(a => a.id === 'auto-clicker')!.owned = 1
+    engine.getGameState().achievements.find(a => a.id === 'hands-off')!.unlocked = true // Reward already collected
+
+    for (let i = 0; i < 5; i++) {
+      engine.tick(FIXED_TIMESTEP_MS / 1000)
+    }
+
+    // 1 click per second for half a second
+    expect(engine.getGameState().currency.toNumber()).toBeCloseTo(0.5)
+  })
+
+  it('should count automation toward offline progress', () => {
+    gameState.automationSystems.find(a => a.id === 'macro-script')!.owned = 1
+    gameState.offlineProgressRate = 1
+
+    const idle = new GameEngine({ store: createMemoryGameStore(gameState) })
+    const progress = idle.calculateOfflineProgress(60)
+
+    expect(progress.clicksSimulated).toBe(600)
+    expect(progress.automationEarnings.equals(decimal(600))).toBe(true)
+  })
+})
@@ -0,0 +1,123 @@
+import type { AutomationSystem, GameState, GameEventEmitter } from '../types/gameTypes'
+import { decimal, add, multiply, greaterThanOrEqual, ZERO } from '../utils/decimal'
+import { getInitialAutomationSystems } from '../data/automation'
+import { getBulkCost } from '../utils/cost'
+
+/**
+ * Automated clicks per second from all owned automation systems, before strategy and engagement bonuses
+ * Each system contributes clicksPerSecond × owned × efficiency
+ */
+export function calculateAutomationClicksPerSecond(gameState: GameState): import('decimal.js').default {
+  let clicksPerSecond = ZERO
+
+  for (const automation of gameState.automationSystems) {
+    if (automation.owned > 0) {
+      const systemClicks = multiply(
+        multiply(decimal(automation.clicksPerSecond), decimal(automation.owned)),
+        decimal(automation.efficiency)
+      )
+      clicksPerSecond = add(clicksPerSecond, systemClicks)
+    }
+  }
+
+  return clicksPerSecond
+}
+
+/**
+ * Manages automation systems (auto-clickers bought with Clicks)
+ */
+export class AutomationManager {
+  private events?: GameEventEmitter
+
+  constructor(events?: GameEventEmitter) {
+    this.events = events
+  }
+
+  /**
+   * Initialize automation systems in the game state if not already present
+   * Also restores unlock conditions and adds systems missing from older saves
+   */
+  public initializeAutomation(gameState: GameState): void {
+    const INITIAL_AUTOMATION_SYSTEMS = getInitialAutomationSystems()
+
+    for (const definition of INITIAL_AUTOMATION_SYSTEMS) {
+      const existing = gameState.automationSystems.find(a => a.id === definition.id)
+      if (existing) {
+        existing.unlockCondition = definition.unlockCondition
+      } else {
+        gameState.automationSystems.push({
+          ...definition,
+          // Ensure Decimal objects are properly created
+          baseCost: decimal(definition.baseCost),
+          costMultiplier: decimal(definition.costMultiplier),
+          clicksPerSecond: decimal(definition.clicksPerSecond),
+          efficiency: decimal(definition.efficiency),
+        })
+      }
+    }
+  }
+
+  /**
+   * Update automation unlock conditions
+   */
+  public updateAutomationUnlocks(gameState: GameState): void {
+    for (const automation of gameState.automationSystems) {
+      if (!automation.unlocked && automation.unlockCondition) {
+        try {
+          if (automation.unlockCondition(gameState)) {
+            automation.unlocked = true
+          }
+        } catch (error) {
+          console.warn(`Error checking unlock condition for automation ${automation.id}:`, error)
+        }
+      }
+    }
+  }
+
+  /**
+   * Calculate the cost of purchasing automation systems
+   */
+  public getAutomationCost(automation: AutomationSystem, amount: number = 1): import('decimal.js').default {
+    return getBulkCost(automation, automation.owned, amount)
+  }
+
+  /**
+   * Check if player can afford an automation purchase
+   */
+  public canAffordAutomation(automation: AutomationSystem, gameState: GameState, amount: number = 1): boolean {
+    if (!automation.unlocked) {
+      return false
+    }
+
+    const cost = this.getAutomationCost(automation, amount)
+    return greaterThanOrEqual(gameState.currency, cost)
+  }
+
+  /**
+   * Purchase automation systems
+   */
+  public purchaseAutomation(automationId: string, gameState: GameState, amount: number = 1): boolean {
+    const automation = gameState.automationSystems.find(a => a.id === automationId)
+
+    if (!automation) {
+      console.warn(`Automation not found: ${automationId}`)
+      return false
+    }
+
+    if (!this.canAffordAutomation(automation, gameState, amount)) {
+      return false
+    }
+
+    const cost = this.getAutomationCost(automation, amount)
+
+    // Deduct cost
+    gameState.currency = gameState.currency.minus(cost)
+
+    // Add automation
+    automation.owned += amount
+
+    this.events?.emit({ type: 'AUTOMATION_PURCHASED', payload: { automationId, amount, cost } })
+
+    return true
+  }
+}
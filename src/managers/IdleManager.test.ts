@@ -40,6 +40,7 @@ describe('IdleManager', () => {
       automationSystems: [],
       achievements: [],
       unlockedAchievements: new Set(),
+      temporaryEffects: [],
       settings: {
         numberFormat: 'suffix',
         autoSave: true,
@@ -48,6 +49,7 @@ describe('IdleManager', () => {
         showNotifications: true,
         offlineProgressNotification: true,
         theme: 'auto',
+        buyAmount: 'x1',
       },
     }
   })
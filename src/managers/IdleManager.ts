@@ -1,11 +1,19 @@
-import type { IdleGenerator, GameState, OfflineProgress } from '../types/gameTypes'
-import { decimal, add, multiply, greaterThanOrEqual, calculateStrategyPointsMultiplier, ZERO } from '../utils/decimal'
+import type { IdleGenerator, GameState, OfflineProgress, OfflineProgressOptions, GameEventEmitter } from '../types/gameTypes'
+import { decimal, multiply, greaterThanOrEqual, calculateStrategyPointsMultiplier, calculateClicksEarnedOverTime, ZERO } from '../utils/decimal'
 import { getInitialIdleGenerators } from '../data/idleGenerators'
+import { getDerivedStat } from './ModifierPipeline'
+import { getBulkCost, getMaxAffordable } from '../utils/cost'
 
 /**
  * Manages idle generation systems and offline progress
  */
 export class IdleManager {
+  private events?: GameEventEmitter
+
+  constructor(events?: GameEventEmitter) {
+    this.events = events
+  }
+
   /**
    * Initialize idle generators in the game state if not already present
    */
@@ -33,27 +41,10 @@ export class IdleManager {
   }
 
   /**
-   * Calculate total idle production per second
+   * Calculate total idle production per second, with every modifier applied
    */
   public calculateTotalProduction(gameState: GameState): import('decimal.js').default {
-    let totalProduction = ZERO
-    
-    // Sum production from all generators
-    for (const generator of gameState.idleGenerators) {
-      if (generator.owned > 0) {
-        const generatorProduction = multiply(
-          decimal(generator.baseProduction),
-          decimal(generator.owned)
-        )
-        
-        totalProduction = add(totalProduction, generatorProduction)
-      }
-    }
-    
-    // Apply global idle multiplier
-    totalProduction = multiply(totalProduction, decimal(gameState.idleMultiplier))
-    
-    return totalProduction
+    return getDerivedStat(gameState, 'viewsPerSecond').value
   }
 
   /**
@@ -74,36 +65,54 @@ export class IdleManager {
 
   /**
    * Calculate offline progress when player returns
+   * Follows the live pipeline: generators produce Views (boosted by every modifier),
+   * Views convert to Clicks at an efficiency that keeps rising with totalEarned, and automation clicks add Clicks
+   * The efficiency and time cap default to the player's offline upgrades
    */
-  public calculateOfflineProgress(gameState: GameState, offlineTimeSeconds: number): OfflineProgress {
+  public calculateOfflineProgress(
+    gameState: GameState,
+    offlineTimeSeconds: number,
+    { rate = gameState.offlineProgressRate, maxHours = gameState.maxOfflineHours }: OfflineProgressOptions = {}
+  ): OfflineProgress {
     const offlineHours = offlineTimeSeconds / 3600 // Convert seconds to hours
     
     // Apply offline time cap
-    const cappedHours = Math.min(offlineHours, gameState.maxOfflineHours)
-    const cappedByTime = offlineHours > gameState.maxOfflineHours
+    const cappedHours = Math.min(offlineHours, maxHours)
+    const cappedByTime = offlineHours > maxHours
     
     // Apply offline efficiency rate (starts at 0%, unlocked via prestige)
-    const effectiveHours = cappedHours * gameState.offlineProgressRate
-    const cappedByEfficiency = gameState.offlineProgressRate < 1.0
+    const effectiveSeconds = cappedHours * rate * 3600
+    const cappedByEfficiency = rate < 1.0
     
-    // Calculate idle earnings
-    const totalProduction = this.calculateTotalProduction(gameState)
-    let idleEarnings = multiply(totalProduction, decimal(effectiveHours * 3600))
-    
-    // Apply strategy points bonus to offline idle earnings
     const strategyBonus = calculateStrategyPointsMultiplier(gameState.prestigePoints)
-    idleEarnings = multiply(idleEarnings, strategyBonus)
+    const engagement = gameState.engagement || 1
+    
+    // Temporary effects run out within seconds, so they do not boost a whole offline period
+    const steadyState = { ...gameState, temporaryEffects: [] }
     
-    // No automation earnings for now (will be added when automation system is implemented)
-    const automationEarnings = ZERO
+    // Views from generators, with the same modifiers as updateIdleProgress
+    const viewsPerSecond = this.calculateTotalProduction(steadyState)
+    const idleEarnings = multiply(viewsPerSecond, decimal(effectiveSeconds))
     
-    // Total currency earned
-    const currencyEarned = add(idleEarnings, automationEarnings)
+    // Automation clicks, worth a click each like the live automation update
+    const automationClicksPerSecond = getDerivedStat(steadyState, 'automationClicksPerSecond').value
+    const clickValue = getDerivedStat(steadyState, 'clickValue').value
+    const automationEarnings = multiply(multiply(automationClicksPerSecond, clickValue), decimal(effectiveSeconds))
+    
+    // Total Clicks, letting view efficiency grow as both sources raise totalEarned
+    const currencyEarned = calculateClicksEarnedOverTime(
+      gameState.totalEarned,
+      viewsPerSecond,
+      multiply(automationClicksPerSecond, clickValue),
+      effectiveSeconds,
+      strategyBonus,
+      engagement
+    ).floor()
     
     return {
       timeOffline: offlineTimeSeconds,
       currencyEarned,
-      clicksSimulated: 0, // No automated clicks from idle system
+      clicksSimulated: multiply(automationClicksPerSecond, decimal(effectiveSeconds)).floor().toNumber(),
       idleEarnings,
       automationEarnings,
       cappedByTime,
@@ -127,17 +136,7 @@ export class IdleManager {
    * Calculate the cost of purchasing generators
    */
   public getGeneratorCost(generator: IdleGenerator, amount: number = 1): import('decimal.js').default {
-    let totalCost = ZERO
-    
-    for (let i = 0; i < amount; i++) {
-      const currentOwned = generator.owned + i
-      const multiplier = decimal(generator.costMultiplier).pow(currentOwned)
-      const cost = multiply(decimal(generator.baseCost), multiplier)
-      totalCost = add(totalCost, cost)
-    }
-    
-    // Round up to nearest integer
-    return totalCost.ceil()
+    return getBulkCost(generator, generator.owned, amount)
   }
 
   /**
@@ -164,6 +163,8 @@ export class IdleManager {
       // Add generators
       generator.owned += amount
       
+      this.events?.emit({ type: 'GENERATOR_PURCHASED', payload: { generatorId, amount, cost } })
+      
       return true
     } catch (error) {
       console.error(`Error purchasing generator ${generatorId}:`, error)
@@ -212,25 +213,7 @@ export class IdleManager {
       return 0
     }
 
-    const currency = decimal(gameState.currency)
-    let totalCost = decimal(0)
-    let count = 0
-
-    // Calculate how many we can afford by simulating purchases
-    for (let i = 0; i < 1000; i++) { // Cap at 1000 to prevent infinite loops
-      const currentOwned = generator.owned + i
-      const costMultiplier = decimal(generator.costMultiplier).pow(currentOwned)
-      const cost = multiply(decimal(generator.baseCost), costMultiplier).ceil()
-      
-      if (totalCost.plus(cost).lessThanOrEqualTo(currency)) {
-        totalCost = totalCost.plus(cost)
-        count++
-      } else {
-        break
-      }
-    }
-
-    return count
+    return getMaxAffordable(generator, generator.owned, gameState.currency)
   }
 
   /**
@@ -264,6 +247,11 @@ export class IdleManager {
       // Check if any other generators should be unlocked
       this.updateGeneratorUnlocks(gameState)
       
+      this.events?.emit({
+        type: 'GENERATOR_PURCHASED',
+        payload: { generatorId, amount: maxAffordable, cost: totalCost },
+      })
+      
       return maxAffordable
     } catch (error) {
       console.error(`Error purchasing max generators ${generatorId}:`, error)
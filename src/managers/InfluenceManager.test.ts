@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { InfluenceManager, getInfluenceMultiplier } from './InfluenceManager'
+import { createInitialGameState } from '../engine/gameState'
+import { serializeGameState, deserializeGameState } from '../engine/serialization'
+import { GameEngine } from '../engine/gameEngine'
+import { createMemoryGameStore } from '../engine/memoryStore'
+import { createManualClock, createManualScheduler } from '../engine/scheduler'
+import { GameBot } from '../bot/GameBot'
+import { decimal } from '../utils/decimal'
+import type { GameState } from '../types/gameTypes'
+
+describe('InfluenceManager', () => {
+  let influenceManager: InfluenceManager
+  let gameState: GameState
+
+  beforeEach(() => {
+    influenceManager = new InfluenceManager()
+    gameState = createInitialGameState(0)
+    gameState.currentDimension = 2
+    influenceManager.initializeInfluence(gameState)
+  })
+
+  it('should seed Dimension 2 generators and upgrades', () => {
+    expect(gameState.influenceGenerators.map(g => g.id)).toEqual(['press-office', 'lobbying-firm', 'think-tank', 'media-conglomerate'])
+    expect(gameState.influenceUpgrades.map(u => u.id)).toEqual(['talking-points', 'spin-doctors', 'backroom-deals'])
+  })
+
+  it('should multiply reach by engagement, upgrades and influence', () => {
+    gameState.engagement = 2
+    gameState.influenceGenerators.find(g => g.id === 'press-office')!.owned = 10
+    gameState.influenceUpgrades.find(u => u.id === 'spin-doctors')!.currentPurchases = 1
+    gameState.influence = decimal(1)
+
+    // 10 × 1.5 × 1.25 × 2
+    expect(influenceManager.calculateReachPerSecond(gameState).equals(decimal(37.5))).toBe(true)
+    // 1 × 1.25 × 2
+    expect(influenceManager.calculateReachPerClick(gameState).equals(decimal(2.5))).toBe(true)
+  })
+
+  it('should spend reach on influence at a rising cost', () => {
+    const events = { emit: vi.fn() }
+    influenceManager = new InfluenceManager(events)
+    gameState.reach = decimal(4000)
+
+    expect(influenceManager.purchaseInfluence(gameState)).toBe(true)
+    expect(influenceManager.purchaseInfluence(gameState)).toBe(true)
+    expect(influenceManager.purchaseInfluence(gameState)).toBe(false)
+
+    // 1,000 + 3,000
+    expect(gameState.reach.equals(decimal(0))).toBe(true)
+    expect(gameState.influence.equals(decimal(2))).toBe(true)
+    expect(getInfluenceMultiplier(gameState).equals(decimal(1.5625))).toBe(true)
+    expect(events.emit).toHaveBeenCalledTimes(2)
+  })
+
+  it('should restore unlock conditions after loading a save', () => {
+    const loaded = deserializeGameState(JSON.parse(JSON.stringify(serializeGameState(gameState))))
+    influenceManager.initializeInfluence(loaded)
+    loaded.totalReach = decimal(100)
+    influenceManager.updateInfluenceUnlocks(loaded)
+
+    expect(loaded.influenceGenerators.find(g => g.id === 'lobbying-firm')!.unlocked).toBe(true)
+  })
+
+  describe('GameEngine in Dimension 2', () => {
+    function createDimension2Engine() {
+      const clock = createManualClock(0)
+      const scheduler = createManualScheduler()
+      const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState(0)), clock, scheduler })
+      engine.tick(0)
+      engine.getGameState().engagement = 2
+      expect(engine.shiftToDimension2()).toBe(true)
+      engine.tick(0)
+      return { engine, clock, scheduler }
+    }
+
+    it('should earn reach from clicks and generators, keeping engagement', () => {
+      const { engine } = createDimension2Engine()
+
+      expect(engine.performClick().equals(decimal(2))).toBe(true)
+      engine.getGameState().reach = decimal(15)
+      expect(engine.purchaseInfluenceGenerator('press-office')).toBe(true)
+      engine.tick(1)
+
+      const state = engine.getGameState()
+      expect(state.engagement).toBe(2)
+      expect(state.currency.equals(decimal(0))).toBe(true)
+      expect(state.reach.equals(decimal(2))).toBe(true) // 1 press office × engagement 2 for a second
+      expect(state.totalReach.equals(decimal(4))).toBe(true)
+    })
+
+    it('should let the bot stop on max influence', () => {
+      const { engine, clock, scheduler } = createDimension2Engine()
+      engine.getGameState().reach = decimal(1000)
+
+      const bot = new GameBot(engine, clock, scheduler)
+      bot.start({ mode: 'active', speed: 'realtime', maxInfluence: 1 })
+      clock.advance(100)
+      scheduler.fire()
+
+      expect(engine.getGameState().influence.equals(decimal(1))).toBe(true)
+      expect(bot.getStatus()).toBe('completed')
+    })
+  })
+})
@@ -0,0 +1,240 @@
+import type { IdleGenerator, Upgrade, GameState, GameEventEmitter } from '../types/gameTypes'
+import { decimal, add, multiply, greaterThanOrEqual, ZERO, ONE } from '../utils/decimal'
+import { getInitialInfluenceGenerators } from '../data/influenceGenerators'
+import { getInitialInfluenceUpgrades } from '../data/influenceUpgrades'
+import { getBulkCost } from '../utils/cost'
+
+/**
+ * Reach needed for the first point of Influence, and how much each further point costs more
+ */
+const INFLUENCE_BASE_COST = 1000
+const INFLUENCE_COST_MULTIPLIER = 3
+
+/**
+ * Reach multiplier granted by each point of Influence
+ */
+const INFLUENCE_REACH_BONUS = 1.25
+
+/**
+ * Combined multiplier from purchased Dimension 2 upgrades of one effect type
+ */
+export function getInfluenceUpgradeMultiplier(gameState: GameState, type: 'clickMultiplier' | 'idleMultiplier'): import('decimal.js').default {
+  let total = ONE
+
+  for (const upgrade of gameState.influenceUpgrades) {
+    if (upgrade.effect.type === type && upgrade.currentPurchases > 0) {
+      total = total.times(decimal(upgrade.effect.value).pow(upgrade.currentPurchases))
+    }
+  }
+
+  return total
+}
+
+/**
+ * Multiplier on all Reach from Influence held
+ */
+export function getInfluenceMultiplier(gameState: GameState): import('decimal.js').default {
+  return decimal(INFLUENCE_REACH_BONUS).pow(decimal(gameState.influence))
+}
+
+/**
+ * Manages the Dimension 2 economy: Reach from clicks and generators, upgrades, and Influence
+ * Engagement carries over from Dimension 1 and multiplies all Reach
+ */
+export class InfluenceManager {
+  private events?: GameEventEmitter
+
+  constructor(events?: GameEventEmitter) {
+    this.events = events
+  }
+
+  /**
+   * Initialize Dimension 2 generators and upgrades if not already present
+   * Also restores functions from the original definitions when loading from save
+   */
+  public initializeInfluence(gameState: GameState): void {
+    const INITIAL_GENERATORS = getInitialInfluenceGenerators()
+    const INITIAL_UPGRADES = getInitialInfluenceUpgrades()
+
+    gameState.influenceGenerators = gameState.influenceGenerators ?? []
+    gameState.influenceUpgrades = gameState.influenceUpgrades ?? []
+
+    for (const definition of INITIAL_GENERATORS) {
+      const existing = gameState.influenceGenerators.find(g => g.id === definition.id)
+      if (existing) {
+        existing.unlockCondition = definition.unlockCondition
+      } else {
+        gameState.influenceGenerators.push({
+          ...definition,
+          baseProduction: decimal(definition.baseProduction),
+          baseCost: decimal(definition.baseCost),
+          costMultiplier: decimal(definition.costMultiplier),
+        })
+      }
+    }
+
+    for (const definition of INITIAL_UPGRADES) {
+      const existing = gameState.influenceUpgrades.find(u => u.id === definition.id)
+      if (existing) {
+        existing.unlockCondition = definition.unlockCondition
+        existing.effect.apply = definition.effect.apply
+      } else {
+        gameState.influenceUpgrades.push({
+          ...definition,
+          baseCost: decimal(definition.baseCost),
+          costMultiplier: decimal(definition.costMultiplier),
+          effect: {
+            ...definition.effect,
+            value: decimal(definition.effect.value),
+          },
+        })
+      }
+    }
+  }
+
+  /**
+   * Update Dimension 2 unlock conditions
+   */
+  public updateInfluenceUnlocks(gameState: GameState): void {
+    for (const item of [...gameState.influenceGenerators, ...gameState.influenceUpgrades]) {
+      if (!item.unlocked && item.unlockCondition) {
+        try {
+          if (item.unlockCondition(gameState)) {
+            item.unlocked = true
+          }
+        } catch (error) {
+          console.warn(`Error checking unlock condition for ${item.id}:`, error)
+        }
+      }
+    }
+  }
+
+  /**
+   * Reach earned by one manual click
+   */
+  public calculateReachPerClick(gameState: GameState): import('decimal.js').default {
+    return multiply(
+      multiply(getInfluenceUpgradeMultiplier(gameState, 'clickMultiplier'), getInfluenceMultiplier(gameState)),
+      gameState.engagement
+    )
+  }
+
+  /**
+   * Reach produced per second by all generators
+   */
+  public calculateReachPerSecond(gameState: GameState): import('decimal.js').default {
+    let production = ZERO
+
+    for (const generator of gameState.influenceGenerators) {
+      if (generator.owned > 0) {
+        production = add(production, multiply(decimal(generator.baseProduction), decimal(generator.owned)))
+      }
+    }
+
+    production = multiply(production, getInfluenceUpgradeMultiplier(gameState, 'idleMultiplier'))
+    production = multiply(production, getInfluenceMultiplier(gameState))
+    return multiply(production, gameState.engagement)
+  }
+
+  /**
+   * Calculate the cost of purchasing Dimension 2 generators
+   */
+  public getGeneratorCost(generator: IdleGenerator, amount: number = 1): import('decimal.js').default {
+    return getBulkCost(generator, generator.owned, amount)
+  }
+
+  /**
+   * Check if player can afford a Dimension 2 generator
+   */
+  public canAffordGenerator(generator: IdleGenerator, gameState: GameState, amount: number = 1): boolean {
+    return generator.unlocked && greaterThanOrEqual(gameState.reach, this.getGeneratorCost(generator, amount))
+  }
+
+  /**
+   * Purchase Dimension 2 generators with Reach
+   */
+  public purchaseGenerator(generatorId: string, gameState: GameState, amount: number = 1): boolean {
+    const generator = gameState.influenceGenerators.find(g => g.id === generatorId)
+
+    if (!generator || !this.canAffordGenerator(generator, gameState, amount)) {
+      return false
+    }
+
+    const cost = this.getGeneratorCost(generator, amount)
+    gameState.reach = gameState.reach.minus(cost)
+    generator.owned += amount
+
+    this.events?.emit({ type: 'GENERATOR_PURCHASED', payload: { generatorId, amount, cost } })
+
+    return true
+  }
+
+  /**
+   * Cost of the next level of a Dimension 2 upgrade
+   */
+  public getUpgradeCost(upgrade: Upgrade): import('decimal.js').default {
+    return getBulkCost(upgrade, upgrade.currentPurchases)
+  }
+
+  /**
+   * Check if player can afford the next level of a Dimension 2 upgrade
+   */
+  public canAffordUpgrade(upgrade: Upgrade, gameState: GameState): boolean {
+    if (!upgrade.unlocked || upgrade.currentPurchases >= upgrade.maxPurchases) {
+      return false
+    }
+
+    return greaterThanOrEqual(gameState.reach, this.getUpgradeCost(upgrade))
+  }
+
+  /**
+   * Purchase a level of a Dimension 2 upgrade with Reach
+   */
+  public purchaseUpgrade(upgradeId: string, gameState: GameState, now: number): boolean {
+    const upgrade = gameState.influenceUpgrades.find(u => u.id === upgradeId)
+
+    if (!upgrade || !this.canAffordUpgrade(upgrade, gameState)) {
+      return false
+    }
+
+    const cost = this.getUpgradeCost(upgrade)
+    gameState.reach = gameState.reach.minus(cost)
+    upgrade.currentPurchases++
+    upgrade.effect.apply(gameState, now)
+
+    this.events?.emit({ type: 'UPGRADE_PURCHASED', payload: { upgradeId, cost } })
+
+    return true
+  }
+
+  /**
+   * Reach needed for the next point of Influence
+   */
+  public getInfluenceCost(gameState: GameState): import('decimal.js').default {
+    return decimal(INFLUENCE_BASE_COST).times(decimal(INFLUENCE_COST_MULTIPLIER).pow(decimal(gameState.influence)))
+  }
+
+  /**
+   * Check if player can buy the next point of Influence
+   */
+  public canPurchaseInfluence(gameState: GameState): boolean {
+    return gameState.currentDimension === 2 && greaterThanOrEqual(gameState.reach, this.getInfluenceCost(gameState))
+  }
+
+  /**
+   * Spend Reach on one point of Influence
+   */
+  public purchaseInfluence(gameState: GameState): boolean {
+    if (!this.canPurchaseInfluence(gameState)) {
+      return false
+    }
+
+    const cost = this.getInfluenceCost(gameState)
+    gameState.reach = gameState.reach.minus(cost)
+    gameState.influence = decimal(gameState.influence).plus(1)
+
+    this.events?.emit({ type: 'INFLUENCE_PURCHASED', payload: { influence: gameState.influence, cost } })
+
+    return true
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { getDerivedStat, getGeneratorMultiplier, getGeneratorProduction } from './ModifierPipeline'
+import { getInitialUpgrades } from '../data/upgrades'
+import { getInitialIdleGenerators } from '../data/idleGenerators'
+import { createInitialGameState } from '../engine/gameState'
+import { GameEngine } from '../engine/gameEngine'
+import { createMemoryGameStore } from '../engine/memoryStore'
+import { decimal } from '../utils/decimal'
+import type { GameState } from '../types/gameTypes'
+
+describe('ModifierPipeline', () => {
+  let gameState: GameState
+
+  beforeEach(() => {
+    gameState = createInitialGameState(0)
+    gameState.upgrades = getInitialUpgrades()
+    gameState.idleGenerators = getInitialIdleGenerators()
+  })
+
+  const setPurchases = (id: string, purchases: number) => {
+    gameState.upgrades.find(u => u.id === id)!.currentPurchases = purchases
+  }
+
+  it('should list every source in order with its running total', () => {
+    setPurchases('base-value-1', 2)
+    setPurchases('click-power-1', 1)
+    gameState.engagement = 1.5
+
+    const clickValue = getDerivedStat(gameState, 'clickValue')
+
+    expect(clickValue.base.equals(decimal(1))).toBe(true)
+    expect(clickValue.breakdown.map(modifier => [modifier.label, modifier.total.toNumber()])).toEqual([
+      ['Better Content', 3],
+      ['Double Tap', 6],
+      ['Strategy Points Bonus', 6],
+      ['Engagement Multiplier', 9],
+    ])
+    expect(clickValue.value.equals(decimal(9))).toBe(true)
+  })
+
+  it('should scale generator production by purchased multipliers', () => {
+    gameState.idleGenerators.find(g => g.id === 'bot')!.owned = 5
+    setPurchases('base-value-1', 2)
+
+    const viewsPerSecond = getDerivedStat(gameState, 'viewsPerSecond')
+
+    expect(viewsPerSecond.base.equals(decimal(5))).toBe(true)
+    expect(viewsPerSecond.value.equals(decimal(6.05))).toBe(true)
+  })
+
+  it('should limit targeted upgrades to their generator', () => {
+    const bot = gameState.idleGenerators.find(g => g.id === 'bot')!
+    const scriptFarm = gameState.idleGenerators.find(g => g.id === 'script-farm')!
+    bot.owned = 10
+    scriptFarm.owned = 1
+    setPurchases('script-farm-efficiency-1', 2)
+
+    expect(getGeneratorMultiplier(gameState, scriptFarm).equals(decimal(4))).toBe(true)
+    // Click Bots only have their 10-owned milestone
+    expect(getGeneratorMultiplier(gameState, bot).equals(decimal(2))).toBe(true)
+    expect(getGeneratorProduction(gameState, scriptFarm).value.equals(decimal(80))).toBe(true)
+    // 20 from bots + 80 from the boosted farm, no global multiplier
+    expect(getDerivedStat(gameState, 'viewsPerSecond').value.equals(decimal(100))).toBe(true)
+  })
+
+  it('should multiply a generator by each milestone it has reached', () => {
+    const bot = gameState.idleGenerators.find(g => g.id === 'bot')!
+    bot.owned = 50
+
+    const production = getGeneratorProduction(gameState, bot)
+
+    expect(production.breakdown.map(modifier => modifier.label)).toEqual(['10 Owned', '25 Owned', '50 Owned'])
+    expect(production.value.equals(decimal(400))).toBe(true)
+  })
+
+  it('should boost a generator by the count of its synergy source', () => {
+    const bot = gameState.idleGenerators.find(g => g.id === 'bot')!
+    bot.owned = 1
+    gameState.idleGenerators.find(g => g.id === 'recommendation-engine')!.owned = 4
+
+    // +5% per Recommendation Engine
+    expect(getGeneratorMultiplier(gameState, bot).equals(decimal(1.2))).toBe(true)
+    expect(getGeneratorProduction(gameState, bot).breakdown[0].label).toBe('Recommendation Engine Synergy')
+  })
+
+  it('should derive purchases without changing the stored stats', () => {
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()) })
+    engine.getGameState().currency = decimal(1000)
+    engine.getGameState().totalEarned = decimal(1000)
+    engine.tick(0)
+
+    expect(engine.purchaseUpgrade('base-value-1')).toBe(true)
+
+    const state = engine.getGameState()
+    expect(state.baseClickValue.equals(decimal(1))).toBe(true)
+    expect(state.idleMultiplier.equals(decimal(1))).toBe(true)
+    expect(getDerivedStat(state, 'clickValue').value.equals(decimal(2))).toBe(true)
+  })
+})
@@ -0,0 +1,206 @@
+import type Decimal from 'decimal.js'
+import type {
+  DerivedStat,
+  GameState,
+  IdleGenerator,
+  ModifierSource,
+  StatId,
+  StatModifier,
+  StatModifierDefinition,
+} from '../types/gameTypes'
+import { decimal, add, multiply, calculateStrategyPointsMultiplier, ZERO } from '../utils/decimal'
+import { getInitialUpgrades } from '../data/upgrades'
+import { getInitialPrestigeUpgrades } from '../data/prestigeUpgrades'
+import { GENERATOR_SYNERGIES, getReachedMilestones } from '../data/generatorBonuses'
+import { getMetaPrestigeMultiplier } from './PrestigeManager'
+import { getAchievementMultiplier } from './AchievementManager'
+import { getTemporaryEffectMultiplier } from './TemporaryEffectManager'
+import { calculateAutomationClicksPerSecond } from './AutomationManager'
+
+/**
+ * A modifier definition and the generator it is limited to, if any
+ */
+type ScopedModifierDefinition = StatModifierDefinition & { target?: string }
+
+/**
+ * Per-purchase modifiers of every upgrade, keyed by id
+ * Read from the definitions so saves made before an upgrade listed its modifiers still count it
+ * An upgrade whose effect has a target only modifies that generator's production
+ */
+const UPGRADE_MODIFIERS = new Map<string, ScopedModifierDefinition[]>(
+  getInitialUpgrades().map(upgrade => [
+    upgrade.id,
+    (upgrade.effect.modifiers ?? []).map(modifier => ({ ...modifier, target: upgrade.effect.target })),
+  ])
+)
+const PRESTIGE_UPGRADE_MODIFIERS = new Map<string, ScopedModifierDefinition[]>(
+  getInitialPrestigeUpgrades().map(upgrade => [upgrade.id, upgrade.effect.modifiers ?? []])
+)
+
+type PendingModifier = Omit<StatModifier, 'total'>
+
+/**
+ * Options for stats that depend on more than the game state
+ * - baseClickBoost: flat testing boost added to manual clicks before the strategy bonus
+ */
+export interface DerivedStatOptions {
+  baseClickBoost?: number
+}
+
+/**
+ * Apply modifiers to a base value in order, recording the running total after each one
+ */
+export function applyModifiers(base: Decimal, modifiers: PendingModifier[]): DerivedStat {
+  let value = base
+  const breakdown = modifiers.map(modifier => {
+    value = modifier.operation === 'add' ? add(value, modifier.value) : multiply(value, modifier.value)
+    return { ...modifier, total: value }
+  })
+
+  return { base, value, breakdown }
+}
+
+/**
+ * Modifiers one list of purchased upgrades grants a stat, one entry per upgrade
+ */
+function purchasedModifiers(
+  upgrades: { id: string; name: string; currentPurchases: number }[],
+  definitions: Map<string, ScopedModifierDefinition[]>,
+  source: ModifierSource,
+  stat: StatId,
+  operation: StatModifierDefinition['operation'],
+  target: string | undefined
+): PendingModifier[] {
+  const modifiers: PendingModifier[] = []
+
+  for (const upgrade of upgrades) {
+    if (upgrade.currentPurchases <= 0) continue
+    for (const definition of definitions.get(upgrade.id) ?? []) {
+      if (definition.stat !== stat || definition.operation !== operation || definition.target !== target) continue
+      const value = operation === 'add'
+        ? decimal(definition.value).times(upgrade.currentPurchases)
+        : decimal(definition.value).pow(upgrade.currentPurchases)
+      modifiers.push({ source, label: upgrade.name, operation, value })
+    }
+  }
+
+  return modifiers
+}
+
+/**
+ * Multiplier step that only shows up in breakdowns when it changes something
+ */
+function optionalMultiplier(source: ModifierSource, label: string, value: Decimal): PendingModifier[] {
+  return value.equals(1) ? [] : [{ source, label, operation: 'multiply', value }]
+}
+
+/**
+ * Stat-changing upgrades the player owns, for one kind of operation
+ * Pass a generator id to get only the upgrades targeting that generator
+ */
+function upgradeModifiers(
+  gameState: GameState,
+  stat: StatId,
+  operation: StatModifierDefinition['operation'],
+  target?: string
+): PendingModifier[] {
+  return [
+    ...purchasedModifiers(gameState.upgrades, UPGRADE_MODIFIERS, 'upgrade', stat, operation, target),
+    ...purchasedModifiers(gameState.prestigeUpgrades, PRESTIGE_UPGRADE_MODIFIERS, 'prestige', stat, operation, target),
+  ]
+}
+
+/**
+ * Strategy points and engagement, which scale every Dimension 1 income
+ */
+function runModifiers(gameState: GameState): PendingModifier[] {
+  return [
+    { source: 'strategy', label: 'Strategy Points Bonus', operation: 'multiply', value: calculateStrategyPointsMultiplier(gameState.prestigePoints) },
+    { source: 'engagement', label: 'Engagement Multiplier', operation: 'multiply', value: decimal(gameState.engagement || 1) },
+  ]
+}
+
+/**
+ * Multipliers on one generator's output: upgrades targeting it, its ownership milestones and synergies from other generators
+ */
+function generatorMultipliers(gameState: GameState, generator: IdleGenerator): PendingModifier[] {
+  const milestones = getReachedMilestones(generator.owned).map(milestone => ({
+    source: 'milestone' as const,
+    label: `${milestone.owned} Owned`,
+    operation: 'multiply' as const,
+    value: decimal(milestone.multiplier),
+  }))
+
+  const synergies = GENERATOR_SYNERGIES.filter(synergy => synergy.target === generator.id).flatMap(synergy => {
+    const source = gameState.idleGenerators.find(g => g.id === synergy.source)
+    if (!source || source.owned <= 0) return []
+    return optionalMultiplier('synergy', `${source.name} Synergy`, decimal(synergy.bonusPerSource).times(source.owned).plus(1))
+  })
+
+  return [...upgradeModifiers(gameState, 'viewsPerSecond', 'multiply', generator.id), ...milestones, ...synergies]
+}
+
+/**
+ * Views per second of one generator: its owned production and the bonuses specific to it
+ * Every other views modifier applies to the sum of all generators (see getDerivedStat)
+ */
+export function getGeneratorProduction(gameState: GameState, generator: IdleGenerator): DerivedStat {
+  return applyModifiers(multiply(decimal(generator.baseProduction), decimal(generator.owned)), [
+    ...upgradeModifiers(gameState, 'viewsPerSecond', 'add', generator.id),
+    ...generatorMultipliers(gameState, generator),
+  ])
+}
+
+/**
+ * Combined multiplier on one generator's output from its upgrades, milestones and synergies
+ */
+export function getGeneratorMultiplier(gameState: GameState, generator: IdleGenerator): Decimal {
+  return generatorMultipliers(gameState, generator)
+    .reduce((total, modifier) => multiply(total, modifier.value), decimal(1))
+}
+
+/**
+ * Derive a stat from its base value and every source that modifies it
+ * - clickValue: Clicks earned by one manual click
+ * - viewsPerSecond: Views produced per second by all generators, each already scaled by its own bonuses
+ * - automationClicksPerSecond: automated clicks per second, each worth one click without the testing boost
+ */
+export function getDerivedStat(gameState: GameState, stat: StatId, options: DerivedStatOptions = {}): DerivedStat {
+  switch (stat) {
+    case 'clickValue': {
+      const boost = options.baseClickBoost ?? 0
+      return applyModifiers(decimal(gameState.baseClickValue), [
+        ...upgradeModifiers(gameState, 'clickValue', 'add'),
+        ...optionalMultiplier('base', 'Click Multiplier', decimal(gameState.clickMultiplier)),
+        ...upgradeModifiers(gameState, 'clickValue', 'multiply'),
+        ...(boost > 0 ? [{ source: 'boost' as const, label: 'Base Click Boost', operation: 'add' as const, value: decimal(boost) }] : []),
+        ...runModifiers(gameState),
+        ...optionalMultiplier('metaPrestige', 'Legacy Bonus', getMetaPrestigeMultiplier(gameState, 'globalMultiplier')),
+        ...optionalMultiplier('achievement', 'Achievements', getAchievementMultiplier(gameState, 'clickMultiplier')),
+        ...optionalMultiplier('effect', 'Temporary Effects', getTemporaryEffectMultiplier(gameState, 'clickMultiplier')),
+      ])
+    }
+    case 'viewsPerSecond': {
+      let production = ZERO
+      for (const generator of gameState.idleGenerators) {
+        if (generator.owned > 0) {
+          production = add(production, getGeneratorProduction(gameState, generator).value)
+        }
+      }
+      return applyModifiers(production, [
+        ...upgradeModifiers(gameState, 'viewsPerSecond', 'add'),
+        ...optionalMultiplier('base', 'Idle Multiplier', decimal(gameState.idleMultiplier)),
+        ...upgradeModifiers(gameState, 'viewsPerSecond', 'multiply'),
+        ...runModifiers(gameState),
+        ...optionalMultiplier('metaPrestige', 'Legacy Bonus', getMetaPrestigeMultiplier(gameState, 'globalMultiplier')),
+        ...optionalMultiplier('achievement', 'Achievements', getAchievementMultiplier(gameState, 'idleMultiplier')),
+        ...optionalMultiplier('effect', 'Temporary Effects', getTemporaryEffectMultiplier(gameState, 'idleMultiplier')),
+      ])
+    }
+    case 'automationClicksPerSecond':
+      return applyModifiers(calculateAutomationClicksPerSecond(gameState), [
+        ...upgradeModifiers(gameState, 'automationClicksPerSecond', 'add'),
+        ...upgradeModifiers(gameState, 'automationClicksPerSecond', 'multiply'),
+      ])
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PrestigeManager, getMetaPrestigeMultiplier } from './PrestigeManager'
+import { createInitialGameState } from '../engine/gameState'
+import { serializeGameState, deserializeGameState } from '../engine/serialization'
+import { GameEngine } from '../engine/gameEngine'
+import { createMemoryGameStore } from '../engine/memoryStore'
+import { getDerivedStat } from './ModifierPipeline'
+import { decimal } from '../utils/decimal'
+import type { GameState, StatId } from '../types/gameTypes'
+
+describe('PrestigeManager', () => {
+  let prestigeManager: PrestigeManager
+  let gameState: GameState
+
+  beforeEach(() => {
+    prestigeManager = new PrestigeManager()
+    gameState = createInitialGameState(0)
+    prestigeManager.initializePrestigeUpgrades(gameState)
+  })
+
+  it('should add every prestige upgrade to a fresh game', () => {
+    expect(gameState.prestigeUpgrades.map(u => u.id)).toEqual(['offline-rate', 'offline-time', 'global-multiplier'])
+  })
+
+  it('should scale cost with each purchase', () => {
+    const upgrade = gameState.prestigeUpgrades.find(u => u.id === 'offline-rate')!
+
+    expect(prestigeManager.getPrestigeUpgradeCost(upgrade).equals(decimal(5))).toBe(true)
+    upgrade.currentPurchases = 2
+    // 5 * 1.5^2 = 11.25, rounded up
+    expect(prestigeManager.getPrestigeUpgradeCost(upgrade).equals(decimal(12))).toBe(true)
+  })
+
+  it('should spend Strategy Points to unlock offline progress', () => {
+    gameState.prestigePoints = decimal(20)
+
+    expect(prestigeManager.purchasePrestigeUpgrade('offline-rate', gameState)).toBe(true)
+
+    expect(gameState.prestigePoints.equals(decimal(15))).toBe(true)
+    expect(gameState.offlineProgressRate).toBeCloseTo(0.1)
+    expect(gameState.purchasedPrestigeUpgrades.has('offline-rate')).toBe(true)
+  })
+
+  it('should reach exactly full offline efficiency at the last purchase', () => {
+    gameState.prestigePoints = decimal(1000)
+
+    for (let i = 0; i < 10; i++) {
+      expect(prestigeManager.purchasePrestigeUpgrade('offline-rate', gameState)).toBe(true)
+    }
+
+    expect(gameState.offlineProgressRate).toBe(1)
+  })
+
+  it('should refuse purchases the player cannot afford', () => {
+    gameState.prestigePoints = decimal(4)
+
+    expect(prestigeManager.purchasePrestigeUpgrade('offline-rate', gameState)).toBe(false)
+    expect(gameState.offlineProgressRate).toBe(0)
+  })
+
+  it('should restore effect functions after loading a save', () => {
+    gameState.prestigePoints = decimal(100)
+    prestigeManager.purchasePrestigeUpgrade('offline-time', gameState)
+
+    const loaded = deserializeGameState(JSON.parse(JSON.stringify(serializeGameState(gameState))))
+    prestigeManager.purchasePrestigeUpgrade('offline-time', loaded)
+
+    expect(loaded.maxOfflineHours).toBe(3)
+    expect(loaded.prestigeUpgrades.find(u => u.id === 'offline-time')!.currentPurchases).toBe(2)
+  })
+
+  it('should keep global multipliers through a prestige reset', () => {
+    const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()) })
+    const state = engine.getGameState()
+    state.prestigePoints = decimal(100)
+
+    const prestigeBonus = (stat: StatId) => getDerivedStat(engine.getGameState(), stat).breakdown
+      .filter(modifier => modifier.source === 'prestige')
+      .map(modifier => modifier.value.toNumber())
+
+    expect(engine.purchasePrestigeUpgrade('global-multiplier')).toBe(true)
+    expect(prestigeBonus('clickValue')).toEqual([1.25])
+
+    engine.getGameState().totalEarned = decimal(100000)
+    engine.performPrestige()
+
+    expect(prestigeBonus('clickValue')).toEqual([1.25])
+    expect(prestigeBonus('viewsPerSecond')).toEqual([1.25])
+    expect(engine.getGameState().clickMultiplier.equals(decimal(1))).toBe(true)
+  })
+
+  describe('Meta prestige upgrades', () => {
+    beforeEach(() => {
+      prestigeManager.initializeMetaPrestigeUpgrades(gameState)
+    })
+
+    it('should spend Legacy Points and stack the multiplier', () => {
+      gameState.metaPrestigePoints = decimal(10)
+
+      expect(prestigeManager.purchaseMetaPrestigeUpgrade('global-multiplier', gameState)).toBe(true)
+      expect(prestigeManager.purchaseMetaPrestigeUpgrade('global-multiplier', gameState)).toBe(true)
+
+      // 2 + ceil(2 * 2.5) = 7
+      expect(gameState.metaPrestigePoints.equals(decimal(3))).toBe(true)
+      expect(getMetaPrestigeMultiplier(gameState, 'globalMultiplier').equals(decimal(4))).toBe(true)
+      expect(getMetaPrestigeMultiplier(gameState, 'prestigeMultiplier').equals(decimal(1))).toBe(true)
+    })
+
+    it('should flow into prestige gain, clicks and production', () => {
+      const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()) })
+      engine.tick(0)
+      const state = engine.getGameState()
+      state.totalEarned = decimal(50000 * 32) // 32^0.6 = 8 Strategy Points
+      state.idleGenerators.find(g => g.id === 'bot')!.owned = 1
+      const baseGain = engine.calculatePrestigeGain()
+      const baseClick = engine.performClick()
+      const baseProduction = engine.calculateTotalIdleProduction()
+
+      state.metaPrestigeUpgrades.find(u => u.id === 'prestige-multiplier')!.currentPurchases = 1
+      state.metaPrestigeUpgrades.find(u => u.id === 'global-multiplier')!.currentPurchases = 1
+
+      expect(engine.calculatePrestigeGain().equals(baseGain.times(1.5).floor())).toBe(true)
+      expect(engine.performClick().equals(baseClick.times(2))).toBe(true)
+      expect(engine.calculateTotalIdleProduction().equals(baseProduction.times(2))).toBe(true)
+    })
+
+    it('should keep engagement and legacy upgrades through a meta prestige', () => {
+      const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState()) })
+      engine.tick(0)
+      const state = engine.getGameState()
+      state.engagement = 3
+      state.views = decimal(5000)
+      state.totalPrestiges = 10
+      state.prestigePoints = decimal(1000)
+      state.metaPrestigeUpgrades.find(u => u.id === 'global-multiplier')!.currentPurchases = 2
+
+      engine.performMetaPrestige()
+
+      const newState = engine.getGameState()
+      expect(newState.engagement).toBe(3)
+      expect(newState.views.equals(decimal(0))).toBe(true)
+      expect(newState.prestigePoints.equals(decimal(0))).toBe(true)
+      expect(newState.totalMetaPrestiges).toBe(1)
+      expect(getMetaPrestigeMultiplier(newState, 'globalMultiplier').equals(decimal(4))).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import type { PrestigeUpgrade, MetaPrestigeUpgrade, MetaPrestigeEffect, GameState, GameEventEmitter } from '../types/gameTypes'
+import { decimal, greaterThanOrEqual, ONE } from '../utils/decimal'
+import { getInitialPrestigeUpgrades } from '../data/prestigeUpgrades'
+import { getBulkCost } from '../utils/cost'
+import { getInitialMetaPrestigeUpgrades } from '../data/metaPrestigeUpgrades'
+
+/**
+ * Combined multiplier from purchased meta prestige upgrades of one effect type
+ * Derived from purchase counts, so it holds through every reset and after loading a save
+ */
+export function getMetaPrestigeMultiplier(gameState: GameState, type: MetaPrestigeEffect['type']): import('decimal.js').default {
+  let total = ONE
+
+  for (const upgrade of gameState.metaPrestigeUpgrades) {
+    if (upgrade.effect.type === type && upgrade.currentPurchases > 0) {
+      total = total.times(decimal(upgrade.effect.value).pow(upgrade.currentPurchases))
+    }
+  }
+
+  return total
+}
+
+/**
+ * Fresh copy of an upgrade definition with proper Decimal objects
+ */
+function createUpgrade<T extends PrestigeUpgrade | MetaPrestigeUpgrade>(definition: T): T {
+  return {
+    ...definition,
+    baseCost: decimal(definition.baseCost),
+    costMultiplier: decimal(definition.costMultiplier),
+    effect: {
+      ...definition.effect,
+      value: decimal(definition.effect.value),
+    }
+  }
+}
+
+/**
+ * Keep saved upgrades that still exist (with functions restored) and add new definitions
+ * Returns the ids that were dropped
+ */
+function restoreUpgrades<T extends PrestigeUpgrade | MetaPrestigeUpgrade>(saved: T[], definitions: T[]): { upgrades: T[]; removed: string[] } {
+  const upgrades: T[] = []
+  const removed: string[] = []
+
+  for (const upgrade of saved) {
+    const originalUpgrade = definitions.find(orig => orig.id === upgrade.id)
+    if (originalUpgrade) {
+      upgrade.effect.apply = originalUpgrade.effect.apply
+      upgrades.push(upgrade)
+    } else {
+      console.warn(`Upgrade ${upgrade.id} no longer exists in current definitions, removing from save data`)
+      removed.push(upgrade.id)
+    }
+  }
+
+  // Add any new upgrades that weren't in the save data
+  for (const definition of definitions) {
+    if (!upgrades.some(u => u.id === definition.id)) {
+      upgrades.push(createUpgrade(definition))
+    }
+  }
+
+  return { upgrades, removed }
+}
+
+/**
+ * Manages the prestige upgrade shop (bought with Strategy Points)
+ * and the meta prestige upgrade tree (bought with Legacy Points)
+ */
+export class PrestigeManager {
+  private events?: GameEventEmitter
+
+  constructor(events?: GameEventEmitter) {
+    this.events = events
+  }
+
+  /**
+   * Initialize prestige upgrades in the game state if not already present
+   * Also restores effect functions from the original definitions when loading from save
+   */
+  public initializePrestigeUpgrades(gameState: GameState): void {
+    const { upgrades, removed } = restoreUpgrades(gameState.prestigeUpgrades, getInitialPrestigeUpgrades())
+    removed.forEach(id => gameState.purchasedPrestigeUpgrades.delete(id))
+    gameState.prestigeUpgrades = upgrades
+  }
+
+  /**
+   * Initialize meta prestige upgrades in the game state if not already present
+   * Also restores effect functions from the original definitions when loading from save
+   */
+  public initializeMetaPrestigeUpgrades(gameState: GameState): void {
+    const { upgrades, removed } = restoreUpgrades(gameState.metaPrestigeUpgrades, getInitialMetaPrestigeUpgrades())
+    removed.forEach(id => gameState.purchasedMetaPrestigeUpgrades.delete(id))
+    gameState.metaPrestigeUpgrades = upgrades
+  }
+
+  /**
+   * Calculate the current cost of a prestige or meta prestige upgrade
+   */
+  public getPrestigeUpgradeCost(upgrade: PrestigeUpgrade | MetaPrestigeUpgrade): import('decimal.js').default {
+    return getBulkCost(upgrade, upgrade.currentPurchases)
+  }
+
+  /**
+   * Check if player can afford a prestige upgrade
+   */
+  public canAffordPrestigeUpgrade(upgrade: PrestigeUpgrade, gameState: GameState): boolean {
+    if (!upgrade.unlocked || upgrade.currentPurchases >= upgrade.maxPurchases) {
+      return false
+    }
+
+    return greaterThanOrEqual(gameState.prestigePoints, this.getPrestigeUpgradeCost(upgrade))
+  }
+
+  /**
+   * Purchase a prestige upgrade with Strategy Points
+   */
+  public purchasePrestigeUpgrade(upgradeId: string, gameState: GameState): boolean {
+    const upgrade = gameState.prestigeUpgrades.find(u => u.id === upgradeId)
+
+    if (!upgrade) {
+      console.warn(`Prestige upgrade not found: ${upgradeId}`)
+      return false
+    }
+
+    if (!this.canAffordPrestigeUpgrade(upgrade, gameState)) {
+      return false
+    }
+
+    const cost = this.getPrestigeUpgradeCost(upgrade)
+
+    try {
+      // Deduct Strategy Points
+      gameState.prestigePoints = gameState.prestigePoints.minus(cost)
+
+      // Count the purchase first so effects can read the new level
+      upgrade.currentPurchases++
+      upgrade.effect.apply(gameState)
+      gameState.purchasedPrestigeUpgrades.add(upgradeId)
+
+      this.events?.emit({ type: 'PRESTIGE_UPGRADE_PURCHASED', payload: { upgradeId, cost } })
+
+      return true
+    } catch (error) {
+      console.error(`Error purchasing prestige upgrade ${upgradeId}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Check if player can afford a meta prestige upgrade
+   */
+  public canAffordMetaPrestigeUpgrade(upgrade: MetaPrestigeUpgrade, gameState: GameState): boolean {
+    if (!upgrade.unlocked || upgrade.currentPurchases >= upgrade.maxPurchases) {
+      return false
+    }
+
+    return greaterThanOrEqual(gameState.metaPrestigePoints, this.getPrestigeUpgradeCost(upgrade))
+  }
+
+  /**
+   * Purchase a meta prestige upgrade with Legacy Points
+   */
+  public purchaseMetaPrestigeUpgrade(upgradeId: string, gameState: GameState): boolean {
+    const upgrade = gameState.metaPrestigeUpgrades.find(u => u.id === upgradeId)
+
+    if (!upgrade) {
+      console.warn(`Meta prestige upgrade not found: ${upgradeId}`)
+      return false
+    }
+
+    if (!this.canAffordMetaPrestigeUpgrade(upgrade, gameState)) {
+      return false
+    }
+
+    const cost = this.getPrestigeUpgradeCost(upgrade)
+
+    try {
+      // Deduct Legacy Points
+      gameState.metaPrestigePoints = gameState.metaPrestigePoints.minus(cost)
+
+      upgrade.currentPurchases++
+      upgrade.effect.apply(gameState)
+      gameState.purchasedMetaPrestigeUpgrades.add(upgradeId)
+
+      this.events?.emit({ type: 'META_PRESTIGE_UPGRADE_PURCHASED', payload: { upgradeId, cost } })
+
+      return true
+    } catch (error) {
+      console.error(`Error purchasing meta prestige upgrade ${upgradeId}:`, error)
+      return false
+    }
+  }
+}
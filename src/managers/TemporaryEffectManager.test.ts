@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { addTemporaryEffect, advanceTemporaryEffects, getTemporaryEffectMultiplier } from './TemporaryEffectManager'
+import { TEMPORARY_EFFECTS } from '../data/temporaryEffects'
+import { createInitialGameState } from '../engine/gameState'
+import { serializeGameState, deserializeGameState } from '../engine/serialization'
+import { GameEngine } from '../engine/gameEngine'
+import { createMemoryGameStore } from '../engine/memoryStore'
+import { createManualClock, createManualScheduler } from '../engine/scheduler'
+import { decimal } from '../utils/decimal'
+import type { GameState, StackingPolicy } from '../types/gameTypes'
+
+describe('TemporaryEffectManager', () => {
+  let gameState: GameState
+
+  beforeEach(() => {
+    gameState = createInitialGameState(0)
+  })
+
+  /**
+   * Add two Viral Moments with the registry's stacking policy swapped out
+   */
+  const addTwice = (stacking: StackingPolicy) => {
+    const definition = TEMPORARY_EFFECTS['viral-moment']
+    const original = definition.stacking
+    definition.stacking = stacking
+    try {
+      addTemporaryEffect(gameState, 'viral-moment', { multiplier: 5 }, 10000, 0)
+      gameState.temporaryEffects = advanceTemporaryEffects(gameState.temporaryEffects, 4000)
+      addTemporaryEffect(gameState, 'viral-moment', { multiplier: 3 }, 10000, 4000)
+    } finally {
+      definition.stacking = original
+    }
+  }
+
+  it('should compute the multiplier from active effects without touching clickMultiplier', () => {
+    addTemporaryEffect(gameState, 'viral-moment', { multiplier: 5 }, 10000, 0)
+
+    expect(gameState.clickMultiplier.equals(decimal(1))).toBe(true)
+    expect(getTemporaryEffectMultiplier(gameState, 'clickMultiplier').equals(decimal(5))).toBe(true)
+    expect(getTemporaryEffectMultiplier(gameState, 'idleMultiplier').equals(decimal(1))).toBe(true)
+
+    gameState.temporaryEffects = advanceTemporaryEffects(gameState.temporaryEffects, 10000)
+    expect(gameState.temporaryEffects).toHaveLength(0)
+    expect(getTemporaryEffectMultiplier(gameState, 'clickMultiplier').equals(decimal(1))).toBe(true)
+  })
+
+  it('should follow the stacking policy', () => {
+    addTwice('stack')
+    expect(gameState.temporaryEffects.map(e => e.remaining)).toEqual([6000, 10000])
+    expect(getTemporaryEffectMultiplier(gameState, 'clickMultiplier').equals(decimal(15))).toBe(true)
+
+    gameState = createInitialGameState(0)
+    addTwice('refresh')
+    expect(gameState.temporaryEffects).toHaveLength(1)
+    expect(gameState.temporaryEffects[0]).toMatchObject({ remaining: 10000, duration: 10000, params: { multiplier: 3 } })
+
+    gameState = createInitialGameState(0)
+    addTwice('extend')
+    expect(gameState.temporaryEffects).toHaveLength(1)
+    expect(gameState.temporaryEffects[0]).toMatchObject({ remaining: 16000, duration: 20000, params: { multiplier: 5 } })
+  })
+
+  it('should keep an active effect through a reload and expire it on game time', () => {
+    const START = 1_000_000
+    const state = createInitialGameState(START)
+    state.simulationSpeed = 100
+    addTemporaryEffect(state, 'viral-moment', { multiplier: 5 }, 10000, START)
+
+    const restored = deserializeGameState(JSON.parse(JSON.stringify(serializeGameState(state))))
+    const clock = createManualClock(START)
+    const engine = new GameEngine({ store: createMemoryGameStore(restored), clock, scheduler: createManualScheduler() })
+
+    expect(engine.performClick().equals(decimal(5))).toBe(true)
+
+    // Durations are game time, not divided by the simulation speed
+    clock.advance(9900)
+    engine.advance(9900)
+    expect(engine.getGameState().temporaryEffects).toHaveLength(1)
+
+    clock.advance(100)
+    engine.advance(100)
+    expect(engine.getGameState().temporaryEffects).toHaveLength(0)
+    expect(engine.getGameState().clickMultiplier.equals(decimal(1))).toBe(true)
+    expect(engine.performClick().equals(decimal(1))).toBe(true)
+  })
+})
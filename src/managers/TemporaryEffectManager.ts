@@ -0,0 +1,61 @@
+import type Decimal from 'decimal.js'
+import type { GameState, TemporaryEffect, TemporaryEffectDefinition, TemporaryEffectKind } from '../types/gameTypes'
+import { ONE } from '../utils/decimal'
+import { TEMPORARY_EFFECTS } from '../data/temporaryEffects'
+
+/**
+ * Combined multiplier from active temporary effects of one type
+ * Computed from the effects' data each time, so nothing is left behind when they expire or are reloaded
+ */
+export function getTemporaryEffectMultiplier(gameState: GameState, type: TemporaryEffectDefinition['type']): Decimal {
+  let total = ONE
+
+  for (const effect of gameState.temporaryEffects) {
+    const definition = TEMPORARY_EFFECTS[effect.kind]
+    if (definition?.type === type && effect.remaining > 0) {
+      total = total.times(definition.multiplier(effect.params))
+    }
+  }
+
+  return total
+}
+
+/**
+ * Start a temporary effect lasting durationMs of game time, following its kind's stacking policy
+ */
+export function addTemporaryEffect(
+  gameState: GameState,
+  kind: TemporaryEffectKind,
+  params: Record<string, number>,
+  durationMs: number,
+  now: number
+): void {
+  const stacking = TEMPORARY_EFFECTS[kind].stacking
+  const active = gameState.temporaryEffects.find(effect => effect.kind === kind)
+
+  if (active && stacking !== 'stack') {
+    const updated: TemporaryEffect = stacking === 'refresh'
+      ? { ...active, params, remaining: durationMs, duration: durationMs }
+      : { ...active, remaining: active.remaining + durationMs, duration: active.duration + durationMs }
+    gameState.temporaryEffects = gameState.temporaryEffects.map(effect => effect === active ? updated : effect)
+    return
+  }
+
+  gameState.temporaryEffects = [...gameState.temporaryEffects, {
+    id: `${kind}-${now}-${gameState.temporaryEffects.length}`,
+    kind,
+    params,
+    remaining: durationMs,
+    duration: durationMs,
+    stacking,
+  }]
+}
+
+/**
+ * Count elapsed game time off every effect and drop the ones that ran out
+ */
+export function advanceTemporaryEffects(effects: TemporaryEffect[], elapsedMs: number): TemporaryEffect[] {
+  return effects
+    .map(effect => ({ ...effect, remaining: effect.remaining - elapsedMs }))
+    .filter(effect => effect.remaining > 0)
+}
@@ -1,11 +1,24 @@
-import type { Upgrade, GameState } from '../types/gameTypes'
-import { decimal, greaterThanOrEqual, multiply } from '../utils/decimal'
+import type { Upgrade, GameState, GameEventEmitter } from '../types/gameTypes'
+import { decimal, greaterThanOrEqual } from '../utils/decimal'
 import { getInitialUpgrades } from '../data/upgrades'
+import { getBulkCost, getMaxAffordable } from '../utils/cost'
+
+/**
+ * Whether an upgrade is bought only once, and so recorded in purchasedUpgrades once bought
+ * Upgrades with several levels are tracked by currentPurchases alone
+ */
+export const isOneTimeUpgrade = (upgrade: Pick<Upgrade, 'maxPurchases'>): boolean => upgrade.maxPurchases === 1
 
 /**
  * Manages upgrade purchases, validation, and effects
  */
 export class UpgradeManager {
+  private events?: GameEventEmitter
+
+  constructor(events?: GameEventEmitter) {
+    this.events = events
+  }
+
   /**
    * Initialize upgrades in the game state if not already present
    * Also restores upgrade functions from original definitions when loading from save
@@ -143,10 +156,10 @@ export class UpgradeManager {
   }
 
   /**
-   * Check if player can afford an upgrade
+   * Check if player can afford `amount` more levels of an upgrade
    */
-  public canAffordUpgrade(upgrade: Upgrade, gameState: GameState): boolean {
-    if (upgrade.currentPurchases >= upgrade.maxPurchases) {
+  public canAffordUpgrade(upgrade: Upgrade, gameState: GameState, amount: number = 1): boolean {
+    if (amount <= 0 || upgrade.currentPurchases + amount > upgrade.maxPurchases) {
       return false
     }
 
@@ -155,32 +168,21 @@ export class UpgradeManager {
       return false
     }
 
-    const cost = this.getUpgradeCost(upgrade)
+    const cost = this.getUpgradeCost(upgrade, amount)
     return greaterThanOrEqual(gameState.currency, cost)
   }
 
   /**
-   * Calculate the current cost of an upgrade
+   * Calculate the cost of the next `amount` levels of an upgrade
    */
-  public getUpgradeCost(upgrade: Upgrade): import('decimal.js').default {
-    let cost: import('decimal.js').default
-    
-    if (upgrade.currentPurchases === 0) {
-      cost = decimal(upgrade.baseCost)
-    } else {
-      // Exponential cost scaling: baseCost * (costMultiplier ^ currentPurchases)
-      const multiplier = decimal(upgrade.costMultiplier).pow(upgrade.currentPurchases)
-      cost = multiply(decimal(upgrade.baseCost), multiplier)
-    }
-    
-    // Round up to nearest integer
-    return cost.ceil()
+  public getUpgradeCost(upgrade: Upgrade, amount: number = 1): import('decimal.js').default {
+    return getBulkCost(upgrade, upgrade.currentPurchases, amount)
   }
 
   /**
-   * Purchase an upgrade
+   * Purchase `amount` levels of an upgrade, all or nothing
    */
-  public purchaseUpgrade(upgradeId: string, gameState: GameState): boolean {
+  public purchaseUpgrade(upgradeId: string, gameState: GameState, now: number = Date.now(), amount: number = 1): boolean {
     const upgrade = gameState.upgrades.find(u => u.id === upgradeId)
     
     if (!upgrade) {
@@ -188,28 +190,30 @@ export class UpgradeManager {
       return false
     }
 
-    if (!this.canAffordUpgrade(upgrade, gameState)) {
-      console.log(`[UpgradeManager] Cannot afford ${upgrade.name} - cost: ${this.getUpgradeCost(upgrade).toFixed(0)}, currency: ${gameState.currency.toFixed(0)}`)
+    if (!this.canAffordUpgrade(upgrade, gameState, amount)) {
+      console.log(`[UpgradeManager] Cannot afford ${amount}x ${upgrade.name} - cost: ${this.getUpgradeCost(upgrade, amount).toFixed(0)}, currency: ${gameState.currency.toFixed(0)}`)
       return false
     }
 
-    const cost = this.getUpgradeCost(upgrade)
+    const cost = this.getUpgradeCost(upgrade, amount)
     const beforePurchases = upgrade.currentPurchases
 
     try {
-      // Deduct cost
+      // Deduct the whole batch at its bulk price
       gameState.currency = gameState.currency.minus(cost)
       
-      // Apply upgrade effect
-      upgrade.effect.apply(gameState)
-      
-      // Update upgrade state
-      upgrade.currentPurchases++
+      for (let i = 0; i < amount; i++) {
+        // Apply upgrade effect
+        upgrade.effect.apply(gameState, now)
+
+        // Update upgrade state
+        upgrade.currentPurchases++
+      }
       
       console.log(`[UpgradeManager] Purchased ${upgrade.name}: ${beforePurchases} → ${upgrade.currentPurchases} (max: ${upgrade.maxPurchases})`)
       
       // Mark as purchased if it's a one-time upgrade
-      if (upgrade.maxPurchases === 1) {
+      if (isOneTimeUpgrade(upgrade)) {
         gameState.purchasedUpgrades.add(upgradeId)
       }
 
@@ -219,6 +223,8 @@ export class UpgradeManager {
       // Check if any other upgrades should be unlocked
       this.updateUpgradeUnlocks(gameState)
 
+      this.events?.emit({ type: 'UPGRADE_PURCHASED', payload: { upgradeId, cost } })
+
       return true
     } catch (error) {
       console.error(`Error purchasing upgrade ${upgradeId}:`, error)
@@ -286,31 +292,13 @@ export class UpgradeManager {
       return 0
     }
 
-    const currency = decimal(gameState.currency)
-    let totalCost = decimal(0)
-    let count = 0
-
-    // Calculate how many we can afford by simulating purchases
-    for (let i = 0; i < remainingPurchases; i++) {
-      const currentPurchases = upgrade.currentPurchases + i
-      const costMultiplier = decimal(upgrade.costMultiplier).pow(currentPurchases)
-      const cost = multiply(decimal(upgrade.baseCost), costMultiplier).ceil()
-      
-      if (totalCost.plus(cost).lessThanOrEqualTo(currency)) {
-        totalCost = totalCost.plus(cost)
-        count++
-      } else {
-        break
-      }
-    }
-
-    return count
+    return getMaxAffordable(upgrade, upgrade.currentPurchases, gameState.currency, remainingPurchases)
   }
 
   /**
-   * Purchase multiple upgrades at once
+   * Purchase as many levels of an upgrade as the player can afford, as one batch
    */
-  public purchaseMaxUpgrades(upgradeId: string, gameState: GameState): number {
+  public purchaseMaxUpgrades(upgradeId: string, gameState: GameState, now: number = Date.now()): number {
     const upgrade = gameState.upgrades.find(u => u.id === upgradeId)
     
     if (!upgrade) {
@@ -323,46 +311,7 @@ export class UpgradeManager {
       return 0
     }
 
-    let totalCost = decimal(0)
-    let purchasesMade = 0
-
-    try {
-      // Purchase as many as we can afford
-      for (let i = 0; i < maxAffordable; i++) {
-        const cost = this.getUpgradeCost(upgrade)
-        
-        if (gameState.currency.greaterThanOrEqualTo(cost)) {
-          // Deduct cost
-          gameState.currency = gameState.currency.minus(cost)
-          totalCost = totalCost.plus(cost)
-          
-          // Apply upgrade effect
-          upgrade.effect.apply(gameState)
-          
-          // Update upgrade state
-          upgrade.currentPurchases++
-          purchasesMade++
-          
-          // Mark as purchased if it's a one-time upgrade
-          if (upgrade.maxPurchases === 1) {
-            gameState.purchasedUpgrades.add(upgradeId)
-          }
-        } else {
-          break
-        }
-      }
-
-      // Update unlock status for this upgrade
-      upgrade.unlocked = true
-
-      // Check if any other upgrades should be unlocked
-      this.updateUpgradeUnlocks(gameState)
-
-      return purchasesMade
-    } catch (error) {
-      console.error(`Error purchasing max upgrades ${upgradeId}:`, error)
-      return purchasesMade
-    }
+    return this.purchaseUpgrade(upgradeId, gameState, now, maxAffordable) ? maxAffordable : 0
   }
 
   /**
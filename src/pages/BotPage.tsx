@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react'
 import { GameBot, type BotConfig, type BotStatus } from '../bot/GameBot'
+import { gameEngine } from '../engine/gameEngineInstance'
 import type { BotSession } from '../bot/BotLogger'
 import './BotPage.css'
 
@@ -8,7 +9,7 @@ let botInstance: GameBot | null = null
 
 function getBot(): GameBot {
   if (!botInstance) {
-    botInstance = new GameBot()
+    botInstance = new GameBot(gameEngine)
   }
   return botInstance
 }
@@ -18,10 +19,11 @@ export function BotPage() {
   const [mode, setMode] = useState<'active' | 'passive'>('active')
   const [speed, setSpeed] = useState<'realtime' | 'simulated'>('simulated')
   const [simulationSpeed, setSimulationSpeed] = useState<number>(10)
-  const [stopCondition, setStopCondition] = useState<'prestiges' | 'duration' | 'sp'>('prestiges')
+  const [stopCondition, setStopCondition] = useState<'prestiges' | 'duration' | 'sp' | 'influence'>('prestiges')
   const [maxPrestiges, setMaxPrestiges] = useState<number>(5)
   const [maxDuration, setMaxDuration] = useState<number>(300) // seconds
   const [maxSP, setMaxSP] = useState<number>(100)
+  const [maxInfluence, setMaxInfluence] = useState<number>(5)
 
   // Bot state
   const [botStatus, setBotStatus] = useState<BotStatus>('idle')
@@ -82,6 +84,7 @@ export function BotPage() {
       maxPrestiges: stopCondition === 'prestiges' ? maxPrestiges : undefined,
       maxDuration: stopCondition === 'duration' ? maxDuration * 1000 : undefined,
       maxSP: stopCondition === 'sp' ? maxSP : undefined,
+      maxInfluence: stopCondition === 'influence' ? maxInfluence : undefined,
     }
 
     const bot = getBot()
@@ -341,6 +344,16 @@ export function BotPage() {
                 />
                 Max SP
               </label>
+              <label>
+                <input
+                  type="radio"
+                  value="influence"
+                  checked={stopCondition === 'influence'}
+                  onChange={(e) => setStopCondition(e.target.value as 'influence')}
+                  disabled={botStatus === 'running'}
+                />
+                Max Influence
+              </label>
             </div>
             
             {stopCondition === 'prestiges' && (
@@ -384,6 +397,20 @@ export function BotPage() {
                 />
               </div>
             )}
+            
+            {stopCondition === 'influence' && (
+              <div className="input-group">
+                <label>Max Influence:</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={maxInfluence}
+                  onChange={(e) => setMaxInfluence(Number(e.target.value))}
+                  disabled={botStatus === 'running'}
+                />
+              </div>
+            )}
           </div>
 
           <div className="control-buttons">
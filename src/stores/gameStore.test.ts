@@ -1,7 +1,14 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { useGameStore } from './gameStore'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import fc from 'fast-check'
+import Decimal from 'decimal.js'
+import { useGameStore, gameStateStore, tabLeader } from './gameStore'
+import { GameEngine } from '../engine/gameEngine'
 import { decimal, ZERO, ONE } from '../utils/decimal'
 import { SaveData } from '../types/gameTypes'
+import type { GameSettings } from '../types/gameTypes'
+import { SAVE_VERSION } from '../engine/migrations'
+import { serializeGameState } from '../engine/serialization'
+import { gameStateArbitrary } from '../test/arbitraries'
 
 // Mock localStorage for testing
 const localStorageMock = {
@@ -106,28 +113,30 @@ describe('Game Store', () => {
     })
   })
 
+  // Saves go through the engine, which backs the game up before an import
   describe('Save/Load System', () => {
+    const engine = new GameEngine({ store: gameStateStore })
+
     it('should export save data correctly', () => {
-      const { updateCurrency, addClicks, exportSave } = useGameStore.getState()
+      const { updateCurrency, addClicks } = useGameStore.getState()
       
       // Set up some game state
       updateCurrency(decimal(1000))
       addClicks(50)
       
-      const saveString = exportSave()
+      const saveString = engine.exportSave()
       const saveData: SaveData = JSON.parse(saveString)
       
-      expect(saveData.version).toBe('1.0.0')
+      expect(saveData.version).toBe(SAVE_VERSION)
       expect(saveData.gameState.currency).toBe('1000')
       expect(saveData.gameState.totalClicks).toBe(50)
       expect(saveData.timestamp).toBeTypeOf('number')
     })
 
     it('should import save data correctly', () => {
-      const { importSave } = useGameStore.getState()
-      
+      // A save from before versioning - no views, engagement or influence fields
       const mockSaveData: SaveData = {
-        version: '1.0.0',
+        version: 1,
         timestamp: Date.now(),
         gameState: {
           currency: '2000',
@@ -163,7 +172,7 @@ describe('Game Store', () => {
             showNotifications: true,
             offlineProgressNotification: true,
             theme: 'dark',
-          },
+          } as GameSettings, // Saved before the buy-amount setting existed
         },
         settings: {
           numberFormat: 'scientific',
@@ -173,11 +182,10 @@ describe('Game Store', () => {
           showNotifications: true,
           offlineProgressNotification: true,
           theme: 'dark',
-        },
+        } as GameSettings,
       }
       
-      const success = importSave(JSON.stringify(mockSaveData))
-      expect(success).toBe(true)
+      expect(engine.importSave(JSON.stringify(mockSaveData)).status).toBe('ok')
       
       const state = useGameStore.getState().gameState
       expect(state.currency.equals(decimal(2000))).toBe(true)
@@ -186,22 +194,20 @@ describe('Game Store', () => {
       expect(state.offlineProgressRate).toBe(0.5)
       expect(state.prestigePoints.equals(decimal(100))).toBe(true)
       expect(state.totalPrestiges).toBe(1)
+      expect(state.views.equals(ZERO)).toBe(true)
+      expect(state.engagement).toBe(1)
       expect(state.settings.numberFormat).toBe('scientific')
       expect(state.settings.theme).toBe('dark')
+      expect(state.settings.buyAmount).toBe('x1')
     })
 
     it('should handle invalid save data', () => {
-      const { importSave } = useGameStore.getState()
-      
-      const success1 = importSave('invalid json')
-      expect(success1).toBe(false)
-      
-      const success2 = importSave('{"invalid": "structure"}')
-      expect(success2).toBe(false)
+      expect(engine.importSave('invalid json').status).toBe('corrupt')
+      expect(engine.importSave('{"invalid": "structure"}').status).toBe('corrupt')
     })
 
     it('should handle round-trip save/load', () => {
-      const { updateCurrency, addClicks, updateSettings, exportSave, importSave } = useGameStore.getState()
+      const { updateCurrency, addClicks, updateSettings } = useGameStore.getState()
       
       // Set up complex game state
       updateCurrency(decimal(5000))
@@ -209,10 +215,9 @@ describe('Game Store', () => {
       updateSettings({ numberFormat: 'scientific', theme: 'dark' })
       
       // Export and import
-      const saveString = exportSave()
-      const success = importSave(saveString)
-      
-      expect(success).toBe(true)
+      const saveString = engine.exportSave()
+      expect(engine.importSave(saveString).status).toBe('ok')
+      expect(engine.listSaveSlots().some(slot => slot.backupReason === 'import')).toBe(true)
       
       const state = useGameStore.getState().gameState
       expect(state.currency.equals(decimal(5000))).toBe(true)
@@ -222,6 +227,80 @@ describe('Game Store', () => {
     })
   })
 
+  describe('Persistence', () => {
+    // Only the leading tab writes the save
+    beforeEach(() => {
+      tabLeader.start()
+    })
+
+    afterEach(() => {
+      tabLeader.stop()
+    })
+
+    it('should not let a follower tab write its snapshots over the save', () => {
+      tabLeader.stop()
+      localStorageMock.setItem.mockClear()
+
+      useGameStore.getState().setGameState({ ...useGameStore.getState().gameState, currency: decimal(42) })
+
+      expect(tabLeader.getRole()).toBe('follower')
+      expect(localStorageMock.setItem).not.toHaveBeenCalled()
+    })
+
+    it('should rehydrate exactly the state it persisted', async () => {
+      const storage = new Map<string, string>()
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => storage.set(key, value))
+      localStorageMock.getItem.mockImplementation((key: string) => storage.get(key) ?? null)
+
+      await fc.assert(
+        fc.asyncProperty(gameStateArbitrary, async state => {
+          // Every store update is written to storage; rehydrating replaces the live state with what was read back
+          useGameStore.getState().setGameState(state)
+          await useGameStore.persist.rehydrate()
+
+          const restored = useGameStore.getState().gameState
+          expect(restored).not.toBe(state)
+          expect(serializeGameState(restored)).toEqual(serializeGameState(state))
+          expect(restored.purchasedPrestigeUpgrades).toBeInstanceOf(Set)
+          expect(restored.idleGenerators[0].baseCost).toBeInstanceOf(Decimal)
+        }),
+        { numRuns: 25 }
+      )
+
+      localStorageMock.setItem.mockReset()
+      localStorageMock.getItem.mockReset()
+    })
+
+    it('should keep a save from a newer version until the player continues', async () => {
+      const newerSave = JSON.stringify({
+        state: { gameState: { ...serializeGameState(useGameStore.getState().gameState), currency: '12345' } },
+        version: SAVE_VERSION + 1,
+      })
+      const storage = new Map<string, string>([['idle-clicker-game-storage', newerSave]])
+      localStorageMock.setItem.mockImplementation((key: string, value: string) => storage.set(key, value))
+      localStorageMock.getItem.mockImplementation((key: string) => storage.get(key) ?? null)
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      await useGameStore.persist.rehydrate()
+      useGameStore.getState().updateCurrency(decimal(1))
+
+      expect(useGameStore.getState().restoreError).toMatch(/newer version/)
+      expect(storage.get('idle-clicker-game-storage')).toBe(newerSave)
+      expect(storage.get('idle-clicker-game-storage-unreadable')).toBe(newerSave)
+
+      // Continuing releases the hold and saves the new game in its place
+      useGameStore.getState().dismissRestoreError()
+
+      expect(useGameStore.getState().restoreError).toBeNull()
+      expect(JSON.parse(storage.get('idle-clicker-game-storage')!).version).toBe(SAVE_VERSION)
+      expect(storage.get('idle-clicker-game-storage-unreadable')).toBe(newerSave)
+
+      vi.mocked(console.error).mockRestore()
+      localStorageMock.setItem.mockReset()
+      localStorageMock.getItem.mockReset()
+    })
+  })
+
   describe('Game Reset', () => {
     it('should reset game to initial state', () => {
       const { updateCurrency, addClicks, updateSettings, resetGame } = useGameStore.getState()
@@ -1,371 +1,61 @@
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
 import Decimal from 'decimal.js'
-import type { GameState, GameSettings, SerializableGameState, SaveData } from '../types/gameTypes'
-import { decimal, ZERO, ONE, calculateViewToClickEfficiency, calculateStrategyPointsMultiplier } from '../utils/decimal'
-import { getInitialUpgrades } from '../data/upgrades'
-import { getInitialIdleGenerators } from '../data/idleGenerators'
+import type { GameState, GameSettings, GameStateStore, SerializableGameState } from '../types/gameTypes'
+import { decimal, calculateViewToClickEfficiency, calculateStrategyPointsMultiplier } from '../utils/decimal'
+import { createInitialGameState, applyCurrencyChange, recordManualClick } from '../engine/gameState'
+import { serializeGameState, deserializeGameState } from '../engine/serialization'
+import { SAVE_VERSION, SaveVersionError, migrateGameState } from '../engine/migrations'
+import type { RawGameState } from '../engine/migrations'
+import { validateGameState, formatValidationIssues } from '../engine/validation'
+import { GameEventBus } from '../engine/eventBus'
+import { TabLeaderElection } from '../engine/tabLeader'
+import { getDerivedStat } from '../managers/ModifierPipeline'
 
 /**
- * Default game settings
+ * localStorage key holding the live game
  */
-const DEFAULT_SETTINGS: GameSettings = {
-  numberFormat: 'suffix',
-  autoSave: true,
-  autoSaveInterval: 30,
-  showTooltips: true,
-  showNotifications: true,
-  offlineProgressNotification: true,
-  theme: 'auto',
-}
-
-/**
- * Base click boost for testing/debugging
- */
-export type BaseClickMode = 0 | 10 | 100 | 1000 | 10000
-
-/**
- * Current base click boost - starts at 0 for normal gameplay
- */
-let currentBaseClickBoost: BaseClickMode = 0
+export const PERSIST_KEY = 'idle-clicker-game-storage'
 
 /**
- * Get current base click boost
+ * Set while a saved game that could not be restored is still in localStorage
+ * Writes are held so the fresh game does not replace it until the player acts
  */
-export const getBaseClickBoost = (): BaseClickMode => currentBaseClickBoost
+let persistenceHeld = false
 
 /**
- * Set base click boost
+ * Keep a saved game that could not be restored under a separate key and stop writing over it
  */
-export const setBaseClickBoost = (boost: BaseClickMode): void => {
-  currentBaseClickBoost = boost
-}
-
-/**
- * Cycle to next base click boost mode
- */
-export const cycleBaseClickBoost = (): BaseClickMode => {
-  switch (currentBaseClickBoost) {
-    case 0: currentBaseClickBoost = 10; break
-    case 10: currentBaseClickBoost = 100; break
-    case 100: currentBaseClickBoost = 1000; break
-    case 1000: currentBaseClickBoost = 10000; break
-    case 10000: currentBaseClickBoost = 0; break
+function keepUnreadableSave(): void {
+  persistenceHeld = true
+  const stored = localStorage.getItem(PERSIST_KEY)
+  if (stored !== null) {
+    localStorage.setItem(`${PERSIST_KEY}-unreadable`, stored)
   }
-  return currentBaseClickBoost
 }
 
 /**
- * Create initial game state
+ * Decides which open tab runs the game loop and writes the save
+ * The others show a takeover screen instead of a second, competing game
  */
-function createInitialGameState(): GameState {
-  const now = Date.now()
-  
-  return {
-    // Current dimension
-    currentDimension: 1,
-    
-    // Dimension 1: Content (YouTube Creator)
-    currency: ZERO, // Clicks - starts at 0
-    views: ZERO, // Views - starts at 0
-    engagement: 1, // Engagement level - starts at 1 (x1 multiplier)
-    
-    // Dimension 2: Influence (Corporate) - placeholder
-    influence: ZERO, // Influence - not yet implemented
-    
-    // Basic game data
-    totalClicks: 0,
-    totalEarned: ZERO,
-    gameStartTime: now,
-    lastSaveTime: now,
-    lastActiveTime: now,
-    
-    // Manual click rate tracking
-    recentClicks: [], // Array of timestamps for recent clicks
-    
-    // Click system
-    clickMultiplier: ONE,
-    baseClickValue: ONE,
-    
-    // Idle system
-    idleGenerators: [],
-    idleMultiplier: ONE,
-    offlineProgressRate: 0, // Starts at 0%, unlocked via prestige
-    maxOfflineHours: 1,
-    
-    // Upgrades
-    upgrades: [],
-    purchasedUpgrades: new Set<string>(),
-    
-    // Prestige system
-    prestigePoints: ZERO,
-    prestigeUpgrades: [],
-    purchasedPrestigeUpgrades: new Set<string>(),
-    totalPrestiges: 0,
-    
-    // Meta prestige system
-    metaPrestigePoints: ZERO,
-    metaPrestigeUpgrades: [],
-    purchasedMetaPrestigeUpgrades: new Set<string>(),
-    totalMetaPrestiges: 0,
-    
-    // Automation
-    automationSystems: [],
-    
-    // Achievements
-    achievements: [],
-    unlockedAchievements: new Set<string>(),
-    
-    // Temporary effects
-    temporaryEffects: [],
-    
-    // Bot simulation speed (1 = normal speed)
-    simulationSpeed: 1,
-    
-    // Settings
-    settings: { ...DEFAULT_SETTINGS },
-  }
-}
+export const tabLeader = new TabLeaderElection({ storage: localStorage })
 
 /**
- * Convert GameState to SerializableGameState for persistence
+ * localStorage, except that only the leading tab writes, and not while persistence is held
+ * Other tabs still receive snapshots from their engine, which may be older than the leader's save
  */
-function serializeGameState(state: GameState): SerializableGameState {
-  return {
-    currentDimension: state.currentDimension || 1, // Default to Dim 1
-    currency: state.currency.toString(),
-    views: state.views.toString(),
-    engagement: state.engagement,
-    influence: state.influence.toString(),
-    
-    totalClicks: state.totalClicks,
-    totalEarned: state.totalEarned.toString(),
-    gameStartTime: state.gameStartTime,
-    lastSaveTime: state.lastSaveTime,
-    lastActiveTime: state.lastActiveTime,
-    
-    recentClicks: state.recentClicks,
-    
-    clickMultiplier: state.clickMultiplier.toString(),
-    baseClickValue: state.baseClickValue.toString(),
-    
-    idleGenerators: state.idleGenerators.map(gen => ({
-      ...gen,
-      baseProduction: gen.baseProduction.toString(),
-      baseCost: gen.baseCost.toString(),
-      costMultiplier: gen.costMultiplier.toString(),
-    })),
-    idleMultiplier: state.idleMultiplier.toString(),
-    offlineProgressRate: state.offlineProgressRate,
-    maxOfflineHours: state.maxOfflineHours,
-    
-    upgrades: state.upgrades.map(upgrade => ({
-      ...upgrade,
-      baseCost: upgrade.baseCost.toString(),
-      costMultiplier: upgrade.costMultiplier.toString(),
-      effect: {
-        ...upgrade.effect,
-        value: upgrade.effect.value.toString(),
-      },
-    })),
-    purchasedUpgrades: Array.from(state.purchasedUpgrades),
-    
-    prestigePoints: state.prestigePoints.toString(),
-    prestigeUpgrades: state.prestigeUpgrades.map(upgrade => ({
-      ...upgrade,
-      baseCost: upgrade.baseCost.toString(),
-      costMultiplier: upgrade.costMultiplier.toString(),
-      effect: {
-        ...upgrade.effect,
-        value: upgrade.effect.value.toString(),
-      },
-    })),
-    purchasedPrestigeUpgrades: Array.from(state.purchasedPrestigeUpgrades),
-    totalPrestiges: state.totalPrestiges,
-    
-    metaPrestigePoints: state.metaPrestigePoints.toString(),
-    metaPrestigeUpgrades: state.metaPrestigeUpgrades.map(upgrade => ({
-      ...upgrade,
-      baseCost: upgrade.baseCost.toString(),
-      costMultiplier: upgrade.costMultiplier.toString(),
-      effect: {
-        ...upgrade.effect,
-        value: upgrade.effect.value.toString(),
-      },
-    })),
-    purchasedMetaPrestigeUpgrades: Array.from(state.purchasedMetaPrestigeUpgrades),
-    totalMetaPrestiges: state.totalMetaPrestiges,
-    
-    automationSystems: state.automationSystems.map(auto => ({
-      ...auto,
-      baseCost: auto.baseCost.toString(),
-      costMultiplier: auto.costMultiplier.toString(),
-      clicksPerSecond: auto.clicksPerSecond.toString(),
-      efficiency: auto.efficiency.toString(),
-    })),
-    
-    achievements: state.achievements.map(achievement => ({
-      ...achievement,
-      reward: achievement.reward ? {
-        ...achievement.reward,
-        value: achievement.reward.value.toString(),
-      } : undefined,
-    })),
-    unlockedAchievements: Array.from(state.unlockedAchievements),
-    
-    temporaryEffects: state.temporaryEffects.map(effect => ({
-      ...effect,
-      value: effect.value.toString(),
-    })),
-    
-    simulationSpeed: state.simulationSpeed,
-    
-    settings: state.settings,
-  }
+const guardedLocalStorage = {
+  getItem: (name: string) => localStorage.getItem(name),
+  setItem: (name: string, value: string) => {
+    if (!persistenceHeld && tabLeader.getRole() === 'leader') localStorage.setItem(name, value)
+  },
+  removeItem: (name: string) => localStorage.removeItem(name),
 }
 
 /**
- * Convert SerializableGameState back to GameState
+ * Event bus shared by the store and the browser game engine
  */
-function deserializeGameState(serialized: SerializableGameState): GameState {
-  return {
-    currentDimension: serialized.currentDimension || 1, // Default to Dim 1 for old saves
-    currency: decimal(serialized.currency),
-    views: decimal(serialized.views || '0'), // Default to 0 for backward compatibility
-    engagement: serialized.engagement || 1, // Default to 1 for backward compatibility
-    influence: decimal(serialized.influence || '0'), // Default to 0 for backward compatibility
-    
-    totalClicks: serialized.totalClicks,
-    totalEarned: decimal(serialized.totalEarned),
-    gameStartTime: serialized.gameStartTime,
-    lastSaveTime: serialized.lastSaveTime,
-    lastActiveTime: serialized.lastActiveTime,
-    
-    recentClicks: serialized.recentClicks || [],
-    
-    clickMultiplier: decimal(serialized.clickMultiplier),
-    baseClickValue: decimal(serialized.baseClickValue),
-    
-    idleGenerators: serialized.idleGenerators.map(gen => {
-      // Find the original generator definition to restore functions
-      const INITIAL_IDLE_GENERATORS = getInitialIdleGenerators()
-      const originalGenerator = INITIAL_IDLE_GENERATORS.find(orig => orig.id === gen.id)
-      if (!originalGenerator) {
-        console.warn(`Original generator definition not found for ${gen.id}`)
-        return {
-          ...gen,
-          baseProduction: decimal(gen.baseProduction),
-          baseCost: decimal(gen.baseCost),
-          costMultiplier: decimal(gen.costMultiplier),
-          unlockCondition: () => true, // Fallback always unlocked
-        }
-      }
-      
-      return {
-        ...gen,
-        baseProduction: decimal(gen.baseProduction),
-        baseCost: decimal(gen.baseCost),
-        costMultiplier: decimal(gen.costMultiplier),
-        unlockCondition: originalGenerator.unlockCondition, // Restore original function
-      }
-    }),
-    idleMultiplier: decimal(serialized.idleMultiplier),
-    offlineProgressRate: serialized.offlineProgressRate,
-    maxOfflineHours: serialized.maxOfflineHours,
-    
-    upgrades: serialized.upgrades.map(upgrade => {
-      // Find the original upgrade definition to restore functions
-      const INITIAL_UPGRADES = getInitialUpgrades()
-      const originalUpgrade = INITIAL_UPGRADES.find(orig => orig.id === upgrade.id)
-      if (!originalUpgrade) {
-        console.warn(`Original upgrade definition not found for ${upgrade.id}`)
-        return {
-          ...upgrade,
-          baseCost: decimal(upgrade.baseCost),
-          costMultiplier: decimal(upgrade.costMultiplier),
-          effect: {
-            ...upgrade.effect,
-            value: decimal(upgrade.effect.value),
-            apply: () => {}, // Fallback empty function
-          },
-          unlockCondition: () => true, // Fallback always unlocked
-        }
-      }
-      
-      return {
-        ...upgrade,
-        baseCost: decimal(upgrade.baseCost),
-        costMultiplier: decimal(upgrade.costMultiplier),
-        effect: {
-          ...upgrade.effect,
-          value: decimal(upgrade.effect.value),
-          apply: originalUpgrade.effect.apply, // Restore original function
-        },
-        unlockCondition: originalUpgrade.unlockCondition, // Restore original function
-      }
-    }),
-    purchasedUpgrades: new Set(serialized.purchasedUpgrades),
-    
-    prestigePoints: decimal(serialized.prestigePoints),
-    prestigeUpgrades: serialized.prestigeUpgrades.map(upgrade => ({
-      ...upgrade,
-      baseCost: decimal(upgrade.baseCost),
-      costMultiplier: decimal(upgrade.costMultiplier),
-      effect: {
-        ...upgrade.effect,
-        value: decimal(upgrade.effect.value),
-        apply: () => {}, // Will be restored by game engine
-      },
-    })),
-    purchasedPrestigeUpgrades: new Set(serialized.purchasedPrestigeUpgrades),
-    totalPrestiges: serialized.totalPrestiges,
-    
-    metaPrestigePoints: decimal(serialized.metaPrestigePoints),
-    metaPrestigeUpgrades: serialized.metaPrestigeUpgrades.map(upgrade => ({
-      ...upgrade,
-      baseCost: decimal(upgrade.baseCost),
-      costMultiplier: decimal(upgrade.costMultiplier),
-      effect: {
-        ...upgrade.effect,
-        value: decimal(upgrade.effect.value),
-        apply: () => {}, // Will be restored by game engine
-      },
-    })),
-    purchasedMetaPrestigeUpgrades: new Set(serialized.purchasedMetaPrestigeUpgrades),
-    totalMetaPrestiges: serialized.totalMetaPrestiges,
-    
-    automationSystems: serialized.automationSystems.map(auto => ({
-      ...auto,
-      baseCost: decimal(auto.baseCost),
-      costMultiplier: decimal(auto.costMultiplier),
-      clicksPerSecond: decimal(auto.clicksPerSecond),
-      efficiency: decimal(auto.efficiency),
-    })),
-    
-    achievements: serialized.achievements.map(achievement => ({
-      ...achievement,
-      unlockCondition: () => false, // Will be restored by game engine
-      reward: achievement.reward ? {
-        ...achievement.reward,
-        value: decimal(achievement.reward.value),
-        apply: () => {}, // Will be restored by game engine
-      } : undefined,
-    })),
-    unlockedAchievements: new Set(serialized.unlockedAchievements),
-    
-    // Ensure temporaryEffects is always an array, even if not in save data
-    temporaryEffects: (serialized.temporaryEffects || []).map(effect => ({
-      ...effect,
-      value: decimal(effect.value),
-      apply: () => {}, // Will be restored by game engine
-      remove: () => {}, // Will be restored by game engine
-    })),
-    
-    simulationSpeed: serialized.simulationSpeed || 1, // Default to normal speed
-    
-    settings: serialized.settings,
-  }
-}
+export const gameEvents = new GameEventBus()
 
 /**
  * Game store interface
@@ -373,6 +63,7 @@ function deserializeGameState(serialized: SerializableGameState): GameState {
 interface GameStore {
   // Game state
   gameState: GameState
+  restoreError: string | null // Why the saved game could not be restored; saving is held until dismissed
   
   // Actions
   updateCurrency: (amount: Decimal) => void
@@ -385,12 +76,7 @@ interface GameStore {
   updateLastActiveTime: () => void
   updateSettings: (settings: Partial<GameSettings>) => void
   resetGame: () => void
-  
-  // Save/Load
-  saveGame: () => void
-  loadGame: (saveData: SaveData) => void
-  exportSave: () => string
-  importSave: (saveString: string) => boolean
+  dismissRestoreError: () => void
   
   // Utility
   getGameState: () => GameState
@@ -405,16 +91,12 @@ export const useGameStore = create<GameStore>()(
     (set, get) => ({
       // Initial state
       gameState: createInitialGameState(),
+      restoreError: null,
       
       // Currency actions
       updateCurrency: (amount: Decimal) => {
         set((state) => ({
-          gameState: {
-            ...state.gameState,
-            currency: decimal(state.gameState.currency).plus(amount),
-            totalEarned: decimal(state.gameState.totalEarned).plus(amount.isPositive() ? amount : ZERO),
-            lastActiveTime: Date.now(),
-          },
+          gameState: applyCurrencyChange(state.gameState, amount, Date.now()),
         }))
       },
       
@@ -469,21 +151,9 @@ export const useGameStore = create<GameStore>()(
       },
       
       addManualClick: () => {
-        const now = Date.now()
-        set((state) => {
-          // Add current timestamp and filter out clicks older than 2 seconds
-          const recentClicks = [...state.gameState.recentClicks, now]
-            .filter(timestamp => now - timestamp <= 2000)
-          
-          return {
-            gameState: {
-              ...state.gameState,
-              recentClicks,
-              totalClicks: state.gameState.totalClicks + 1,
-              lastActiveTime: now,
-            },
-          }
-        })
+        set((state) => ({
+          gameState: recordManualClick(state.gameState, Date.now()),
+        }))
       },
       
       updateLastActiveTime: () => {
@@ -508,59 +178,14 @@ export const useGameStore = create<GameStore>()(
       },
       
       resetGame: () => {
-        set({ gameState: createInitialGameState() })
+        persistenceHeld = false
+        set({ gameState: createInitialGameState(), restoreError: null })
       },
       
-      // Save/Load
-      saveGame: () => {
-        const gameState = get().gameState
-        const now = Date.now()
-        
-        set((currentState) => ({
-          gameState: {
-            ...currentState.gameState,
-            lastSaveTime: now,
-          },
-        }))
-      },
-      
-      loadGame: (saveData: SaveData) => {
-        try {
-          const gameState = deserializeGameState(saveData.gameState)
-          set({ gameState })
-        } catch (error) {
-          console.error('Failed to load game:', error)
-          throw new Error('Invalid save data')
-        }
-      },
-      
-      exportSave: () => {
-        const gameState = get().gameState
-        const saveData: SaveData = {
-          version: '1.0.0',
-          timestamp: Date.now(),
-          gameState: serializeGameState(gameState),
-          settings: gameState.settings,
-        }
-        
-        return JSON.stringify(saveData)
-      },
-      
-      importSave: (saveString: string) => {
-        try {
-          const saveData: SaveData = JSON.parse(saveString)
-          
-          // Validate save data structure
-          if (!saveData.version || !saveData.gameState || !saveData.settings) {
-            throw new Error('Invalid save data structure')
-          }
-          
-          get().loadGame(saveData)
-          return true
-        } catch (error) {
-          console.error('Failed to import save:', error)
-          return false
-        }
+      // The player chose to go on with the current game; the unreadable save stays under its own key
+      dismissRestoreError: () => {
+        persistenceHeld = false
+        set({ restoreError: null })
       },
       
       // Utility
@@ -573,23 +198,7 @@ export const useGameStore = create<GameStore>()(
           return createInitialGameState()
         }
         
-        // Ensure all Decimal fields are proper Decimal objects and temporaryEffects exists
-        return {
-          ...gameState,
-          currentDimension: gameState.currentDimension || 1, // Default to Dim 1
-          currency: decimal(gameState.currency || 0),
-          views: decimal(gameState.views || 0),
-          engagement: gameState.engagement || 1,
-          influence: decimal(gameState.influence || 0),
-          totalEarned: decimal(gameState.totalEarned || 0),
-          baseClickValue: decimal(gameState.baseClickValue || 1),
-          clickMultiplier: decimal(gameState.clickMultiplier || 1),
-          idleMultiplier: decimal(gameState.idleMultiplier || 1),
-          prestigePoints: decimal(gameState.prestigePoints || 0),
-          metaPrestigePoints: decimal(gameState.metaPrestigePoints || 0),
-          temporaryEffects: gameState.temporaryEffects || [], // Ensure temporaryEffects exists
-          recentClicks: gameState.recentClicks || [], // Ensure recentClicks exists
-        }
+        return gameState
       },
       
       setGameState: (gameState: GameState) => {
@@ -599,6 +208,8 @@ export const useGameStore = create<GameStore>()(
             ...gameState,
             upgrades: [...gameState.upgrades],
             idleGenerators: [...gameState.idleGenerators],
+            influenceGenerators: [...gameState.influenceGenerators],
+            influenceUpgrades: [...gameState.influenceUpgrades],
           }
         })
       },
@@ -613,44 +224,73 @@ export const useGameStore = create<GameStore>()(
       },
     }),
     {
-      name: 'idle-clicker-game-storage',
-      storage: createJSONStorage(() => localStorage),
+      name: PERSIST_KEY,
+      storage: createJSONStorage(() => guardedLocalStorage),
+      version: SAVE_VERSION,
       
-      // Merge function for handling state updates
-      merge: (persistedState: any, currentState: GameStore) => {
-        // If persisted state exists, use it; otherwise use current state
-        if (persistedState && persistedState.gameState) {
-          // Ensure the persisted state has proper Decimal objects
-          const safeGameState = {
-            ...persistedState.gameState,
-            currentDimension: persistedState.gameState.currentDimension || 1, // Default to Dim 1
-            currency: decimal(persistedState.gameState.currency || 0),
-            views: decimal(persistedState.gameState.views || 0),
-            engagement: persistedState.gameState.engagement || 1,
-            influence: decimal(persistedState.gameState.influence || 0),
-            totalEarned: decimal(persistedState.gameState.totalEarned || 0),
-            baseClickValue: decimal(persistedState.gameState.baseClickValue || 1),
-            clickMultiplier: decimal(persistedState.gameState.clickMultiplier || 1),
-            idleMultiplier: decimal(persistedState.gameState.idleMultiplier || 1),
-            prestigePoints: decimal(persistedState.gameState.prestigePoints || 0),
-            metaPrestigePoints: decimal(persistedState.gameState.metaPrestigePoints || 0),
-            recentClicks: persistedState.gameState.recentClicks || [], // Ensure recentClicks exists
-            temporaryEffects: persistedState.gameState.temporaryEffects || [], // Ensure temporaryEffects exists
-            simulationSpeed: persistedState.gameState.simulationSpeed || 1, // Default to normal speed
-          }
-          
+      // Persist through the save serializer, so Decimals and Sets survive a reload exactly as they survive an export
+      partialize: (state) => ({ gameState: serializeGameState(state.gameState) }),
+      
+      // Bring state persisted by an older version up to date (unversioned state is stored as version 0)
+      // State from a newer version is kept aside, and merge reports it
+      migrate: (persistedState, version) => {
+        const persisted = persistedState as { gameState: RawGameState }
+        try {
           return {
-            ...currentState,
-            ...persistedState,
-            gameState: safeGameState,
+            gameState: migrateGameState(persisted.gameState, Math.max(1, version)) as unknown as SerializableGameState,
           }
+        } catch (error) {
+          if (!(error instanceof SaveVersionError)) throw error
+          console.error('Saved game could not be restored:', error)
+          keepUnreadableSave()
+          return { restoreError: error.message }
+        }
+      },
+      
+      // Report state that could not be restored for any other reason
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) console.error('Failed to restore saved game:', error)
+      },
+      
+      // Merge function for handling state updates
+      // Persisted state is validated and repaired like an imported save, then rebuilt by the deserializer
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as { gameState?: unknown; restoreError?: string } | undefined
+        if (persisted?.restoreError) {
+          return { ...currentState, restoreError: persisted.restoreError }
+        }
+        if (!persisted?.gameState) {
+          return currentState
+        }
+        
+        const validation = validateGameState(persisted.gameState)
+        if (!validation.repaired) {
+          // Keep the unreadable state around rather than letting the next write replace it
+          console.error(`Saved game could not be restored:\n${formatValidationIssues(validation.issues)}`)
+          keepUnreadableSave()
+          return { ...currentState, restoreError: 'The saved game is damaged and could not be restored.' }
+        }
+        if (validation.issues.length > 0) {
+          console.warn(`Repaired saved game:\n${formatValidationIssues(validation.issues)}`)
+        }
+        
+        return {
+          ...currentState,
+          gameState: deserializeGameState(validation.repaired),
         }
-        return currentState
       },
     }
   )
 )
 
+/**
+ * Adapter that lets the game engine read from and commit to the Zustand store
+ */
+export const gameStateStore: GameStateStore = {
+  getGameState: () => useGameStore.getState().getGameState(),
+  setGameState: (state: GameState) => useGameStore.getState().setGameState(state),
+}
+
 /**
  * Selector hooks for specific parts of the game state
  */
@@ -658,13 +298,20 @@ export const useCurrency = () => useGameStore((state) => state.gameState.currenc
 export const useViews = () => useGameStore((state) => state.gameState.views)
 export const useEngagement = () => useGameStore((state) => state.gameState.engagement)
 export const useInfluence = () => useGameStore((state) => state.gameState.influence)
+export const useReach = () => useGameStore((state) => state.gameState.reach)
+export const useInfluenceGenerators = () => useGameStore((state) => state.gameState.influenceGenerators)
+export const useInfluenceUpgrades = () => useGameStore((state) => state.gameState.influenceUpgrades)
 export const useClicks = () => useGameStore((state) => state.gameState.totalClicks)
 export const useSettings = () => useGameStore((state) => state.gameState.settings)
+export const useRestoreError = () => useGameStore((state) => state.restoreError)
+export const useBuyAmount = () => useGameStore((state) => state.gameState.settings.buyAmount)
 export const useUpgrades = () => useGameStore((state) => state.gameState.upgrades)
 export const useGenerators = () => useGameStore((state) => state.gameState.idleGenerators)
 export const usePrestigePoints = () => useGameStore((state) => state.gameState.prestigePoints)
+export const usePrestigeUpgrades = () => useGameStore((state) => state.gameState.prestigeUpgrades)
 export const useTotalEarned = () => useGameStore((state) => state.gameState.totalEarned)
 export const useMetaPrestigePoints = () => useGameStore((state) => state.gameState.metaPrestigePoints)
+export const useMetaPrestigeUpgrades = () => useGameStore((state) => state.gameState.metaPrestigeUpgrades)
 export const useAchievements = () => useGameStore((state) => state.gameState.achievements)
 export const useAutomation = () => useGameStore((state) => state.gameState.automationSystems)
 export const useGameState = () => useGameStore((state) => state.gameState)
@@ -694,20 +341,8 @@ export const useVisibleUpgrades = () => {
 export const useViewsPerSecond = () => {
   const gameState = useGameStore((state) => state.gameState)
   
-  // Calculate total Views production per second from idle generators
-  let totalProduction = decimal(0)
-  
-  for (const generator of gameState.idleGenerators) {
-    if (generator.owned > 0) {
-      const generatorProduction = decimal(generator.baseProduction).times(generator.owned)
-      totalProduction = totalProduction.plus(generatorProduction)
-    }
-  }
-  
-  // Apply global idle multiplier
-  totalProduction = totalProduction.times(gameState.idleMultiplier)
-  
-  return totalProduction
+  // Views production per second from idle generators, with every modifier applied
+  return getDerivedStat(gameState, 'viewsPerSecond').value
 }
 
 export const useClicksPerSecondFromViews = () => {
@@ -736,10 +371,7 @@ export const useTotalClicksPerSecond = () => {
   const rawManualClickRate = decimal(recentClicksInWindow.length).dividedBy(2) // raw clicks per second
   
   // Calculate the actual currency value per manual click (including all multipliers)
-  const baseClickValue = gameState.baseClickValue
-  const clickMultiplier = gameState.clickMultiplier
-  const strategyBonus = calculateStrategyPointsMultiplier(gameState.prestigePoints)
-  const valuePerClick = baseClickValue.times(clickMultiplier).times(strategyBonus)
+  const valuePerClick = getDerivedStat(gameState, 'clickValue').value
   
   // Manual click rate in currency per second
   const manualClickRate = rawManualClickRate.times(valuePerClick)
@@ -747,14 +379,9 @@ export const useTotalClicksPerSecond = () => {
   // Combine manual clicks with passive sources
   let totalClickRate = clicksFromViews.plus(manualClickRate)
   
-  // Add automation systems if any (they also need to use the multiplied value)
-  for (const automation of gameState.automationSystems) {
-    if (automation.owned > 0) {
-      const rawAutomationRate = decimal(automation.clicksPerSecond).times(automation.owned)
-      const automationRate = rawAutomationRate.times(valuePerClick) // Apply same multipliers
-      totalClickRate = totalClickRate.plus(automationRate)
-    }
-  }
+  // Add automation systems (each automated click is worth a manual click, like the engine)
+  const automationRate = getDerivedStat(gameState, 'automationClicksPerSecond').value.times(valuePerClick)
+  totalClickRate = totalClickRate.plus(automationRate)
   
   return totalClickRate
 }
@@ -773,10 +400,6 @@ export const useGameActions = () => {
     updateSettings: store.updateSettings,
     updateInfluence: store.updateInfluence,
     resetGame: store.resetGame,
-    saveGame: store.saveGame,
-    loadGame: store.loadGame,
-    exportSave: store.exportSave,
-    importSave: store.importSave,
     getGameState: store.getGameState,
     setGameState: store.setGameState,
   }
@@ -0,0 +1,97 @@
+import fc from 'fast-check'
+import type { GameState } from '../types/gameTypes'
+import { GameEngine } from '../engine/gameEngine'
+import { createMemoryGameStore } from '../engine/memoryStore'
+import { createInitialGameState } from '../engine/gameState'
+import { decimal } from '../utils/decimal'
+import { isOneTimeUpgrade } from '../managers/UpgradeManager'
+
+/**
+ * Non-negative Decimals from small integers up to far beyond the range of a double
+ */
+export const decimalArbitrary = fc.oneof(
+  fc.nat().map(n => decimal(n)),
+  fc.double({ min: 0, max: 1e300, noNaN: true, noDefaultInfinity: true }).map(n => decimal(n)),
+  fc.tuple(fc.integer({ min: 1, max: 9 }), fc.integer({ min: 300, max: 100000 })).map(([mantissa, exponent]) => decimal(`${mantissa}e+${exponent}`))
+)
+
+/**
+ * Fully initialised game state with every list populated, as the engine holds it after its first tick
+ */
+function createPopulatedGameState(): GameState {
+  const engine = new GameEngine({ store: createMemoryGameStore(createInitialGameState(0)) })
+  engine.tick(0)
+  return engine.getGameState()
+}
+
+/**
+ * Consistent game states: random currencies, counts and purchases, with purchase and unlock sets matching
+ */
+export const gameStateArbitrary = fc.record({
+  currentDimension: fc.constantFrom(1 as const, 2 as const),
+  currency: decimalArbitrary,
+  views: decimalArbitrary,
+  reach: decimalArbitrary,
+  influence: decimalArbitrary,
+  totalEarned: decimalArbitrary,
+  prestigePoints: decimalArbitrary,
+  metaPrestigePoints: decimalArbitrary,
+  clickMultiplier: decimalArbitrary,
+  engagement: fc.integer({ min: 1, max: 50 }),
+  totalClicks: fc.nat(),
+  totalPrestiges: fc.nat({ max: 1000 }),
+  lastActiveTime: fc.nat(),
+  offlineProgressRate: fc.double({ min: 0, max: 1, noNaN: true }),
+  owned: fc.array(fc.nat({ max: 5000 }), { minLength: 16, maxLength: 16 }),
+  purchases: fc.array(fc.nat({ max: 25 }), { minLength: 16, maxLength: 16 }),
+  unlocked: fc.array(fc.boolean(), { minLength: 16, maxLength: 16 }),
+  numberFormat: fc.constantFrom('suffix' as const, 'scientific' as const),
+}).map(values => {
+  const state = createPopulatedGameState()
+  const { owned, purchases, unlocked } = values
+
+  Object.assign(state, {
+    currentDimension: values.currentDimension,
+    currency: values.currency,
+    views: values.views,
+    reach: values.reach,
+    totalReach: values.reach,
+    influence: values.influence,
+    totalEarned: values.totalEarned,
+    prestigePoints: values.prestigePoints,
+    metaPrestigePoints: values.metaPrestigePoints,
+    clickMultiplier: values.clickMultiplier,
+    engagement: values.engagement,
+    totalClicks: values.totalClicks,
+    totalPrestiges: values.totalPrestiges,
+    lastActiveTime: values.lastActiveTime,
+    offlineProgressRate: values.offlineProgressRate,
+    settings: { ...state.settings, numberFormat: values.numberFormat },
+  })
+
+  state.idleGenerators.forEach((gen, i) => { gen.owned = owned[i] })
+  state.influenceGenerators.forEach((gen, i) => { gen.owned = owned[i + 4] })
+  state.automationSystems.forEach((auto, i) => { auto.owned = owned[i + 8] })
+
+  // Sets record what the managers record: every purchased prestige upgrade, but only one-time regular upgrades
+  const always = () => true
+  for (const [list, set, offset, recorded] of [
+    [state.upgrades, state.purchasedUpgrades, 0, isOneTimeUpgrade],
+    [state.influenceUpgrades, null, 4, always],
+    [state.prestigeUpgrades, state.purchasedPrestigeUpgrades, 8, always],
+    [state.metaPrestigeUpgrades, state.purchasedMetaPrestigeUpgrades, 12, always],
+  ] as const) {
+    list.forEach((upgrade, i) => {
+      upgrade.currentPurchases = Math.min(upgrade.maxPurchases, purchases[i + offset])
+      upgrade.unlocked = upgrade.unlocked || unlocked[i + offset]
+      if (set && upgrade.currentPurchases > 0 && recorded(upgrade)) set.add(upgrade.id)
+    })
+  }
+
+  state.achievements.forEach((achievement, i) => {
+    achievement.unlocked = unlocked[i]
+    if (achievement.unlocked) state.unlockedAchievements.add(achievement.id)
+  })
+
+  return state
+})
@@ -12,8 +12,12 @@ export interface GameState {
   views: Decimal // Tier 2: Views - passive resource from generators
   engagement: number // Permanent multiplier level for Dim 1 only (purchased with SP, starts at 1)
   
-  // Dimension 2: Influence (Corporate) - placeholder for future
-  influence: Decimal // Dim 2 prestige currency (not yet implemented)
+  // Dimension 2: Influence (Corporate)
+  reach: Decimal // Tier 1: Reach - from manual clicks and influence generators
+  totalReach: Decimal // Reach earned since entering Dimension 2
+  influence: Decimal // Tier 2: Influence - bought with Reach, multiplies all Reach
+  influenceGenerators: IdleGenerator[] // Produce Reach per second
+  influenceUpgrades: Upgrade[] // Bought with Reach
   
   // Basic game data
   totalClicks: number
@@ -68,6 +72,14 @@ export interface GameState {
   settings: GameSettings
 }
 
+/**
+ * Anything bought repeatedly whose price grows geometrically: baseCost * costMultiplier ^ owned
+ */
+export interface ScalingCost {
+  baseCost: Decimal
+  costMultiplier: Decimal
+}
+
 /**
  * Idle generator interface
  */
@@ -83,6 +95,24 @@ export interface IdleGenerator {
   unlockCondition?: (gameState: GameState) => boolean
 }
 
+/**
+ * Bonus for owning at least `owned` of a generator, multiplying that generator's output
+ */
+export interface GeneratorMilestone {
+  owned: number
+  multiplier: number
+}
+
+/**
+ * Rule where owning one generator boosts another
+ * The target's output is multiplied by 1 + bonusPerSource for each source generator owned
+ */
+export interface GeneratorSynergy {
+  source: string
+  target: string
+  bonusPerSource: number
+}
+
 /**
  * Upgrade interface
  */
@@ -100,17 +130,39 @@ export interface Upgrade {
 }
 
 /**
- * Temporary effect interface
+ * Kinds of temporary effect, each described by an entry in the TEMPORARY_EFFECTS registry
+ */
+export type TemporaryEffectKind = 'viral-moment'
+
+/**
+ * What happens when an effect is added while another of the same kind is active
+ * - stack: both run side by side and their contributions multiply
+ * - refresh: the active one restarts with the new parameters and duration
+ * - extend: the new duration is added to the active one
+ */
+export type StackingPolicy = 'stack' | 'refresh' | 'extend'
+
+/**
+ * Active temporary effect - plain data, so it survives a save and reload
+ * Its contribution is computed from the registry each time it is read
  */
 export interface TemporaryEffect {
   id: string
+  kind: TemporaryEffectKind
+  params: Record<string, number>
+  remaining: number // game time left, in milliseconds
+  duration: number // full length in milliseconds, for progress bars
+  stacking: StackingPolicy
+}
+
+/**
+ * Registry entry for a kind of temporary effect
+ */
+export interface TemporaryEffectDefinition {
   name: string
-  type: 'clickMultiplier' | 'idleMultiplier' | 'special'
-  value: Decimal
-  startTime: number
-  duration: number // in milliseconds
-  apply: (gameState: GameState) => void
-  remove: (gameState: GameState) => void
+  type: 'clickMultiplier' | 'idleMultiplier'
+  stacking: StackingPolicy
+  multiplier: (params: Record<string, number>) => Decimal
 }
 
 /**
@@ -120,7 +172,59 @@ export interface UpgradeEffect {
   type: 'clickMultiplier' | 'idleMultiplier' | 'automation' | 'special'
   value: Decimal
   target?: string // For targeted effects
-  apply: (gameState: GameState) => void
+  modifiers?: StatModifierDefinition[] // Stat changes per purchase, read by the modifier pipeline
+  apply: (gameState: GameState, now: number) => void // now: current game time in ms
+}
+
+/**
+ * Stats derived by the modifier pipeline from base values and their sources
+ */
+export type StatId = 'clickValue' | 'viewsPerSecond' | 'automationClicksPerSecond'
+
+/**
+ * Where a modifier comes from, for grouping breakdowns
+ */
+export type ModifierSource =
+  | 'base'
+  | 'upgrade'
+  | 'prestige'
+  | 'metaPrestige'
+  | 'strategy'
+  | 'engagement'
+  | 'achievement'
+  | 'effect'
+  | 'boost'
+  | 'milestone'
+  | 'synergy'
+
+/**
+ * A stat change granted by each purchase of an upgrade
+ * Additions add `value` per purchase, multipliers multiply by `value` per purchase
+ */
+export interface StatModifierDefinition {
+  stat: StatId
+  operation: 'add' | 'multiply'
+  value: number
+}
+
+/**
+ * One step of a derived stat: the modifier and the stat's value once it is applied
+ */
+export interface StatModifier {
+  source: ModifierSource
+  label: string
+  operation: 'add' | 'multiply'
+  value: Decimal
+  total: Decimal
+}
+
+/**
+ * Final value of a stat with the per-source breakdown that produced it, in order
+ */
+export interface DerivedStat {
+  base: Decimal
+  value: Decimal
+  breakdown: StatModifier[]
 }
 
 /**
@@ -146,6 +250,7 @@ export interface PrestigeEffect {
   type: 'offlineRate' | 'offlineTime' | 'globalMultiplier' | 'automation' | 'special'
   value: Decimal
   target?: string
+  modifiers?: StatModifierDefinition[] // Stat changes per purchase, read by the modifier pipeline
   apply: (gameState: GameState) => void
 }
 
@@ -186,7 +291,7 @@ export interface AutomationSystem {
   costMultiplier: Decimal
   owned: number
   unlocked: boolean
-  unlockCondition?: () => boolean
+  unlockCondition?: (gameState: GameState) => boolean
   clicksPerSecond: Decimal
   efficiency: Decimal // Multiplier for automation effectiveness
 }
@@ -200,6 +305,7 @@ export interface Achievement {
   description: string
   unlocked: boolean
   unlockCondition: (gameState: GameState) => boolean
+  progress?: (gameState: GameState) => number // 0-1 completion, shown while locked
   reward?: AchievementReward
   category: 'clicking' | 'idle' | 'prestige' | 'meta' | 'special'
 }
@@ -216,6 +322,11 @@ export interface AchievementReward {
 /**
  * Game settings interface
  */
+/**
+ * How many items a shop button buys: a fixed amount, up to the next milestone, or as many as affordable
+ */
+export type BuyAmountMode = 'x1' | 'x10' | 'x100' | 'milestone' | 'max'
+
 export interface GameSettings {
   numberFormat: 'suffix' | 'scientific'
   autoSave: boolean
@@ -224,18 +335,93 @@ export interface GameSettings {
   showNotifications: boolean
   offlineProgressNotification: boolean
   theme: 'light' | 'dark' | 'auto'
+  buyAmount: BuyAmountMode // Shared by the generator, upgrade and automation shops
 }
 
 /**
  * Save data interface
  */
 export interface SaveData {
-  version: string
+  version: number // Save schema version, see SAVE_VERSION
   timestamp: number
   gameState: SerializableGameState
   settings: GameSettings
 }
 
+/**
+ * How exported save strings are written: readable JSON, or compressed and checksummed
+ */
+export type SaveStringFormat = 'json' | 'encoded'
+
+/**
+ * A field-level problem found while validating a saved game state
+ */
+export interface ValidationIssue {
+  path: string // e.g. 'idleGenerators[2].owned'
+  message: string
+  repairable: boolean
+}
+
+/**
+ * Why a save string could not be imported
+ * 'invalid' saves list their issues; when every issue is repairable the import can be retried with repair
+ */
+export interface SaveImportFailure {
+  status: 'corrupt' | 'wrong-version' | 'tampered' | 'invalid'
+  error: string
+  issues?: ValidationIssue[]
+}
+
+/**
+ * Outcome of importing a save string - the current game is untouched unless ok
+ * repairs lists the issues fixed when importing with repair
+ */
+export type SaveImportResult = { status: 'ok'; repairs?: ValidationIssue[] } | SaveImportFailure
+
+/**
+ * Options for importing a save string
+ */
+export interface SaveImportOptions {
+  repair?: boolean // Fix repairable validation issues instead of refusing the save
+}
+
+/**
+ * Destructive operations that take an automatic backup first
+ */
+export type BackupReason = 'prestige' | 'meta-prestige' | 'dimension-shift' | 'reset' | 'bot-start' | 'import' | 'restore'
+
+/**
+ * Headline numbers shown for a save slot
+ */
+export interface SaveSlotStats {
+  currentDimension: 1 | 2 | 3
+  currency: string
+  totalEarned: string
+  prestigePoints: string
+  totalPrestiges: number
+}
+
+/**
+ * A named save or an automatic backup, kept alongside the live game
+ */
+export interface SaveSlot {
+  id: string
+  name: string
+  backupReason?: BackupReason // Only set for automatic backups
+  savedAt: number
+  stats: SaveSlotStats
+  saveString: string // Encoded save string
+}
+
+/**
+ * Synchronous key-value storage for save slots - localStorage in the browser
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+  removeItem(key: string): void
+}
+
 /**
  * Serializable game state (for save/load)
  */
@@ -247,7 +433,11 @@ export interface SerializableGameState {
   currency: string // Clicks
   views: string // Views
   engagement: number // Engagement level
+  reach: string // Reach
+  totalReach: string
   influence: string // Influence
+  influenceGenerators: SerializableIdleGenerator[]
+  influenceUpgrades: SerializableUpgrade[]
   
   totalClicks: number
   totalEarned: string
@@ -336,7 +526,7 @@ export interface SerializableAutomationSystem extends Omit<AutomationSystem, 'ba
   efficiency: string
 }
 
-export interface SerializableAchievement extends Omit<Achievement, 'unlockCondition' | 'reward'> {
+export interface SerializableAchievement extends Omit<Achievement, 'unlockCondition' | 'progress' | 'reward'> {
   reward?: SerializableAchievementReward
 }
 
@@ -344,23 +534,30 @@ export interface SerializableAchievementReward extends Omit<AchievementReward, '
   value: string
 }
 
-export interface SerializableTemporaryEffect extends Omit<TemporaryEffect, 'value' | 'apply' | 'remove'> {
-  value: string
-}
+// Temporary effects are already plain data
+export type SerializableTemporaryEffect = TemporaryEffect
 
 /**
  * Offline progress calculation result
  */
 export interface OfflineProgress {
   timeOffline: number // in seconds
-  currencyEarned: Decimal
+  currencyEarned: Decimal // Total Clicks gained
   clicksSimulated: number
-  idleEarnings: Decimal
-  automationEarnings: Decimal
+  idleEarnings: Decimal // Views produced by generators
+  automationEarnings: Decimal // Clicks from automation
   cappedByTime: boolean
   cappedByEfficiency: boolean
 }
 
+/**
+ * Overrides for how much of an absence counts, instead of the player's offline upgrades
+ */
+export interface OfflineProgressOptions {
+  rate?: number // Share of full production, 0 to 1
+  maxHours?: number
+}
+
 /**
  * Game engine interface
  */
@@ -371,9 +568,9 @@ export interface GameEngine {
   calculateOfflineProgress(offlineTime: number): OfflineProgress
   
   // Upgrade system
-  purchaseUpgrade(upgradeId: string): boolean
-  canAffordUpgrade(upgrade: Upgrade): boolean
-  getUpgradeCost(upgrade: Upgrade): Decimal
+  purchaseUpgrade(upgradeId: string, amount?: number): boolean
+  canAffordUpgrade(upgrade: Upgrade, amount?: number): boolean
+  getUpgradeCost(upgrade: Upgrade, amount?: number): Decimal
   
   // Idle generator system
   purchaseGenerator(generatorId: string, amount?: number): boolean
@@ -398,6 +595,13 @@ export interface GameEngine {
   canAffordAutomation(automation: AutomationSystem, amount?: number): boolean
   getAutomationCost(automation: AutomationSystem, amount?: number): Decimal
   
+  // Dimension 2 influence system
+  purchaseInfluenceGenerator(generatorId: string): boolean
+  purchaseInfluenceUpgrade(upgradeId: string): boolean
+  purchaseInfluence(): boolean
+  canPurchaseInfluence(): boolean
+  getInfluenceCost(): Decimal
+  
   // Achievement system
   checkAchievements(): Achievement[]
   unlockAchievement(achievementId: string): boolean
@@ -406,7 +610,15 @@ export interface GameEngine {
   saveGame(): void
   loadGame(saveData: SaveData): boolean
   exportSave(): string
-  importSave(saveString: string): boolean
+  importSave(saveString: string, options?: SaveImportOptions): SaveImportResult
+  
+  // Save slots and backups
+  listSaveSlots(): SaveSlot[]
+  saveToSlot(name: string, slotId?: string): SaveSlot
+  backupGame(reason: BackupReason): SaveSlot
+  restoreSaveSlot(slotId: string): SaveImportResult
+  duplicateSaveSlot(slotId: string): SaveSlot | null
+  deleteSaveSlot(slotId: string): boolean
   
   // Utility methods
   getGameState(): GameState
@@ -414,6 +626,34 @@ export interface GameEngine {
   resetGame(): void
 }
 
+/**
+ * Source of the current time in milliseconds
+ */
+export interface Clock {
+  now(): number
+}
+
+/**
+ * Schedules the repeating game loop callback
+ */
+export interface Scheduler {
+  setInterval(callback: () => void, intervalMs: number): unknown
+  clearInterval(handle: unknown): void
+}
+
+/**
+ * Storage the engine reads game state from and commits game state to
+ */
+export interface GameStateStore {
+  getGameState(): GameState
+  setGameState(state: GameState): void
+}
+
+/**
+ * Base click boost for testing/debugging
+ */
+export type BaseClickMode = 0 | 10 | 100 | 1000 | 10000
+
 /**
  * Click handler interface
  */
@@ -453,9 +693,29 @@ export type GameEvent =
   | { type: 'UPGRADE_PURCHASED'; payload: { upgradeId: string; cost: Decimal } }
   | { type: 'GENERATOR_PURCHASED'; payload: { generatorId: string; amount: number; cost: Decimal } }
   | { type: 'PRESTIGE_PERFORMED'; payload: { prestigePoints: Decimal } }
+  | { type: 'PRESTIGE_UPGRADE_PURCHASED'; payload: { upgradeId: string; cost: Decimal } }
   | { type: 'META_PRESTIGE_PERFORMED'; payload: { metaPrestigePoints: Decimal } }
+  | { type: 'META_PRESTIGE_UPGRADE_PURCHASED'; payload: { upgradeId: string; cost: Decimal } }
   | { type: 'ACHIEVEMENT_UNLOCKED'; payload: { achievementId: string } }
   | { type: 'AUTOMATION_PURCHASED'; payload: { automationId: string; amount: number; cost: Decimal } }
+  | { type: 'INFLUENCE_PURCHASED'; payload: { influence: Decimal; cost: Decimal } }
   | { type: 'OFFLINE_PROGRESS'; payload: OfflineProgress }
   | { type: 'GAME_SAVED'; payload: { timestamp: number } }
-  | { type: 'GAME_LOADED'; payload: { timestamp: number } }
\ No newline at end of file
+  | { type: 'GAME_LOADED'; payload: { timestamp: number } }
+
+export type GameEventType = GameEvent['type']
+
+/**
+ * The event variant for a given event type
+ */
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>
+
+export type GameEventHandler<T extends GameEventType> = (event: GameEventOf<T>) => void
+
+/**
+ * Anything game events can be published into
+ * Managers only need this side of the event bus
+ */
+export interface GameEventEmitter {
+  emit(event: GameEvent): void
+}
@@ -0,0 +1,155 @@
+/**
+ * Byte-level helpers for compact save strings: LZW compression, base64 and CRC-32
+ */
+
+const MAX_DICTIONARY_SIZE = 1 << 16
+
+/**
+ * Bits needed to write any code below dictionarySize (at least 9, so every byte fits)
+ */
+function codeWidth(dictionarySize: number): number {
+  return Math.max(9, Math.ceil(Math.log2(dictionarySize)))
+}
+
+/**
+ * Compress bytes with variable-width LZW (9 to 16 bit codes)
+ */
+export function lzwCompress(input: Uint8Array): Uint8Array {
+  const output: number[] = []
+  let buffer = 0
+  let bufferBits = 0
+
+  const writeCode = (code: number, width: number) => {
+    buffer |= code << bufferBits
+    bufferBits += width
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff)
+      buffer >>>= 8
+      bufferBits -= 8
+    }
+  }
+
+  if (input.length === 0) return new Uint8Array(0)
+
+  // Sequences are keyed by (prefix code, next byte)
+  const dictionary = new Map<number, number>()
+  let nextCode = 256
+  let current = input[0]
+
+  for (let i = 1; i < input.length; i++) {
+    const key = current * 256 + input[i]
+    const existing = dictionary.get(key)
+
+    if (existing !== undefined) {
+      current = existing
+      continue
+    }
+
+    writeCode(current, codeWidth(nextCode))
+    if (nextCode < MAX_DICTIONARY_SIZE) {
+      dictionary.set(key, nextCode++)
+    }
+    current = input[i]
+  }
+
+  writeCode(current, codeWidth(nextCode))
+  if (bufferBits > 0) output.push(buffer & 0xff)
+
+  return Uint8Array.from(output)
+}
+
+/**
+ * Reverse lzwCompress
+ * Throws if the data is not a valid code stream
+ */
+export function lzwDecompress(input: Uint8Array): Uint8Array {
+  const output: number[] = []
+  let byteIndex = 0
+  let buffer = 0
+  let bufferBits = 0
+
+  const readCode = (width: number): number | null => {
+    while (bufferBits < width) {
+      if (byteIndex >= input.length) return null
+      buffer |= input[byteIndex++] << bufferBits
+      bufferBits += 8
+    }
+    const code = buffer & ((1 << width) - 1)
+    buffer >>>= width
+    bufferBits -= width
+    return code
+  }
+
+  const first = readCode(codeWidth(256))
+  if (first === null) return new Uint8Array(0)
+  if (first > 255) throw new Error('Invalid compressed data')
+
+  const dictionary: number[][] = []
+  for (let i = 0; i < 256; i++) dictionary.push([i])
+
+  let previous = dictionary[first]
+  output.push(...previous)
+
+  // The compressor's dictionary is one entry ahead of ours when each code is written
+  for (let emitted = 1; ; emitted++) {
+    const code = readCode(codeWidth(Math.min(256 + emitted, MAX_DICTIONARY_SIZE)))
+    if (code === null) break
+
+    let entry: number[]
+    if (code < dictionary.length) {
+      entry = dictionary[code]
+    } else if (code === dictionary.length) {
+      entry = [...previous, previous[0]]
+    } else {
+      throw new Error('Invalid compressed data')
+    }
+
+    output.push(...entry)
+    if (dictionary.length < MAX_DICTIONARY_SIZE) {
+      dictionary.push([...previous, entry[0]])
+    }
+    previous = entry
+  }
+
+  return Uint8Array.from(output)
+}
+
+/**
+ * Encode bytes as base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 into bytes
+ * Throws if the string is not valid base64
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+let crcTable: Uint32Array | null = null
+
+/**
+ * CRC-32 (IEEE) checksum of some bytes
+ */
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import fc from 'fast-check'
+import Decimal from 'decimal.js'
+import { getBulkCost, getBuyAmount, getCostToReach, getMaxAffordable } from './cost'
+import { decimal } from './decimal'
+import type { ScalingCost } from '../types/gameTypes'
+
+/**
+ * Price of `amount` items after `owned`, one item at a time
+ */
+function naiveBulkCost(item: ScalingCost, owned: number, amount: number): Decimal {
+  let total = decimal(0)
+  for (let i = 0; i < amount; i++) {
+    total = total.plus(item.baseCost.times(item.costMultiplier.pow(owned + i)))
+  }
+  return total.ceil()
+}
+
+/**
+ * Most items affordable in one batch, adding one item at a time
+ */
+function naiveMaxAffordable(item: ScalingCost, owned: number, budget: Decimal, limit: number): number {
+  let count = 0
+  while (count < limit && naiveBulkCost(item, owned, count + 1).lessThanOrEqualTo(budget)) {
+    count++
+  }
+  return count
+}
+
+/**
+ * The closed form and the loop round differently deep in the digits; allow one unit or 1e-30 relative
+ */
+function closeTo(actual: Decimal, expected: Decimal): boolean {
+  return actual.minus(expected).abs().lessThanOrEqualTo(Decimal.max(1, expected.times(1e-30)))
+}
+
+const itemArbitrary: fc.Arbitrary<ScalingCost> = fc.record({
+  baseCost: fc.integer({ min: 1, max: 1_000_000 }).map(n => decimal(n)),
+  costMultiplier: fc.oneof(
+    fc.integer({ min: 100, max: 300 }).map(n => decimal(n).div(100)),
+    fc.constant(decimal(1))
+  ),
+})
+
+describe('Scaling costs', () => {
+  it('should match the one-at-a-time sum', () => {
+    fc.assert(
+      fc.property(itemArbitrary, fc.nat({ max: 200 }), fc.integer({ min: 0, max: 200 }), (item, owned, amount) => {
+        expect(closeTo(getBulkCost(item, owned, amount), naiveBulkCost(item, owned, amount))).toBe(true)
+      })
+    )
+  })
+
+  it('should price a single item exactly', () => {
+    fc.assert(
+      fc.property(itemArbitrary, fc.nat({ max: 500 }), (item, owned) => {
+        expect(getBulkCost(item, owned).equals(naiveBulkCost(item, owned, 1))).toBe(true)
+      })
+    )
+  })
+
+  it('should find the same max affordable as buying one more at a time', () => {
+    fc.assert(
+      fc.property(
+        itemArbitrary,
+        fc.nat({ max: 100 }),
+        fc.double({ min: 0, max: 1e12, noNaN: true }).map(n => decimal(Math.floor(n))),
+        fc.integer({ min: 0, max: 150 }),
+        (item, owned, budget, limit) => {
+          const count = getMaxAffordable(item, owned, budget, limit)
+
+          expect(count).toBe(naiveMaxAffordable(item, owned, budget, limit))
+          expect(getBulkCost(item, owned, count).lessThanOrEqualTo(budget)).toBe(true)
+        }
+      )
+    )
+  })
+
+  it('should price reaching a target as the items in between', () => {
+    fc.assert(
+      fc.property(itemArbitrary, fc.nat({ max: 200 }), fc.nat({ max: 200 }), (item, owned, extra) => {
+        expect(getCostToReach(item, owned, owned + extra).equals(getBulkCost(item, owned, extra))).toBe(true)
+      })
+    )
+  })
+
+  it('should stay fast for huge budgets', () => {
+    const item = { baseCost: decimal(15), costMultiplier: decimal(1.15) }
+    const count = getMaxAffordable(item, 0, decimal('1e3000'))
+
+    expect(count).toBeGreaterThan(49_000)
+    expect(getBulkCost(item, 0, count).lessThanOrEqualTo('1e3000')).toBe(true)
+    expect(getBulkCost(item, 0, count + 1).greaterThan('1e3000')).toBe(true)
+  })
+
+  it('should turn buy-amount modes into batch sizes', () => {
+    const item = { baseCost: decimal(10), costMultiplier: decimal(1) }
+
+    expect(getBuyAmount('x10', item, 3, 0)).toBe(10)
+    expect(getBuyAmount('x100', item, 3, 0, { limit: 7 })).toBe(7)
+    expect(getBuyAmount('milestone', item, 3, 0, { milestone: 10 })).toBe(7)
+    expect(getBuyAmount('milestone', item, 3, 0, { limit: 4 })).toBe(4)
+    expect(getBuyAmount('max', item, 3, 55)).toBe(5)
+    // Nothing affordable still prices one
+    expect(getBuyAmount('max', item, 3, 5)).toBe(1)
+    expect(getBuyAmount('x1', item, 3, 100, { limit: 0 })).toBe(0)
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Closed-form prices for geometrically scaling purchases
+ * The n items after `owned` cost baseCost * r^owned * (r^n - 1) / (r - 1), rounded up once for the whole batch
+ */
+
+import Decimal from 'decimal.js'
+import type { BuyAmountMode, ScalingCost } from '../types/gameTypes'
+import { decimal, ZERO, ONE } from './decimal'
+
+/**
+ * Exact (unrounded) price of `amount` items bought after `owned`
+ */
+function geometricSum(item: ScalingCost, owned: number, amount: number): Decimal {
+  const base = decimal(item.baseCost)
+  const ratio = decimal(item.costMultiplier)
+  const first = base.times(ratio.pow(owned))
+
+  if (amount === 1) {
+    return first
+  }
+  if (ratio.equals(ONE)) {
+    return first.times(amount)
+  }
+  return first.times(ratio.pow(amount).minus(1)).div(ratio.minus(1))
+}
+
+/**
+ * Price of buying `amount` more when `owned` are already owned
+ */
+export function getBulkCost(item: ScalingCost, owned: number, amount: number = 1): Decimal {
+  if (amount <= 0) {
+    return ZERO
+  }
+  return geometricSum(item, owned, amount).ceil()
+}
+
+/**
+ * Price of going from `owned` up to `target`
+ */
+export function getCostToReach(item: ScalingCost, owned: number, target: number): Decimal {
+  return getBulkCost(item, owned, target - owned)
+}
+
+/**
+ * Most items a budget buys in one batch, optionally capped at `limit`
+ * Solves the geometric series for n, then corrects by one either way for rounding
+ */
+export function getMaxAffordable(item: ScalingCost, owned: number, budget: Decimal.Value, limit: number = Infinity): number {
+  const funds = decimal(budget)
+  if (limit <= 0 || funds.lessThan(getBulkCost(item, owned))) {
+    return 0
+  }
+
+  const ratio = decimal(item.costMultiplier)
+  const first = decimal(item.baseCost).times(ratio.pow(owned))
+  const estimate = ratio.equals(ONE)
+    ? funds.div(first)
+    : funds.times(ratio.minus(1)).div(first).plus(1).ln().div(ratio.ln())
+
+  let count = Math.min(limit, Math.max(1, Math.floor(estimate.toNumber())))
+  while (count > 1 && getBulkCost(item, owned, count).greaterThan(funds)) {
+    count--
+  }
+  while (count < limit && getBulkCost(item, owned, count + 1).lessThanOrEqualTo(funds)) {
+    count++
+  }
+  return count
+}
+
+/**
+ * Every buy-amount mode, in the order the selector shows them
+ */
+export const BUY_AMOUNT_MODES: readonly BuyAmountMode[] = ['x1', 'x10', 'x100', 'milestone', 'max']
+
+/**
+ * How many items a buy-amount mode buys, capped at `limit` (items left to buy)
+ * - x1 / x10 / x100: that many
+ * - milestone: up to the `milestone` count, or every item left when there is no milestone and a limit
+ * - max: as many as the budget covers, or one when none are affordable so its price can still be shown
+ */
+export function getBuyAmount(
+  mode: BuyAmountMode,
+  item: ScalingCost,
+  owned: number,
+  budget: Decimal.Value,
+  options: { limit?: number; milestone?: number } = {}
+): number {
+  const limit = options.limit ?? Infinity
+  if (limit <= 0) {
+    return 0
+  }
+
+  switch (mode) {
+    case 'x1':
+      return 1
+    case 'x10':
+      return Math.min(10, limit)
+    case 'x100':
+      return Math.min(100, limit)
+    case 'milestone':
+      if (options.milestone !== undefined && options.milestone > owned) {
+        return Math.min(options.milestone - owned, limit)
+      }
+      return Number.isFinite(limit) ? limit : 1
+    case 'max':
+      return Math.max(1, getMaxAffordable(item, owned, budget, limit))
+  }
+}
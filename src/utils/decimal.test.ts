@@ -24,6 +24,8 @@ import {
   isValidDecimal,
   toDecimalSafe,
   calculateStrategyPointsMultiplier,
+  calculateViewToClickEfficiency,
+  calculateClicksEarnedOverTime,
   ZERO,
   ONE,
   TEN,
@@ -220,4 +222,47 @@ describe('Decimal Utilities', () => {
       expect(calculateStrategyPointsMultiplier(decimal(5)).equals(decimal(1.5))).toBe(true)
     })
   })
-})
\ No newline at end of file
+
+  describe('calculateClicksEarnedOverTime', () => {
+    /**
+     * Step the same equation with small steps, the way the live loop does
+     */
+    const integrate = (totalEarned: number, views: number, clicks: number, seconds: number, prestige: number, engagement: number) => {
+      let earned = totalEarned
+      const dt = 0.01
+      for (let t = 0; t < seconds; t += dt) {
+        const efficiency = calculateViewToClickEfficiency(earned, prestige, engagement).toNumber()
+        earned += (views * efficiency + clicks) * dt
+      }
+      return earned - totalEarned
+    }
+
+    it('should convert at the base rate while efficiency barely moves', () => {
+      // 10 views/sec for 10 seconds at 10%
+      expect(calculateClicksEarnedOverTime(0, 10, 0, 10, 1).toNumber()).toBeCloseTo(10, 2)
+    })
+
+    it('should only add other clicks when there are no views', () => {
+      expect(calculateClicksEarnedOverTime(500, 0, 3, 60, 1).equals(decimal(180))).toBe(true)
+    })
+
+    it('should earn nothing over no time', () => {
+      expect(calculateClicksEarnedOverTime(500, 100, 3, 0, 1).equals(ZERO)).toBe(true)
+    })
+
+    it('should match stepping through efficiency growth', () => {
+      const cases = [
+        [0, 5000, 0, 60, 1, 1],
+        [100000, 20000, 50, 30, 2.5, 1],
+        [0, 100000, 0, 100, 1, 2], // Reaches the cap part way through
+        [300000, 1000, 10, 50, 1, 3], // Already capped
+      ]
+      
+      for (const [totalEarned, views, clicks, seconds, prestige, engagement] of cases) {
+        const expected = integrate(totalEarned, views, clicks, seconds, prestige, engagement)
+        const actual = calculateClicksEarnedOverTime(totalEarned, views, clicks, seconds, prestige, engagement).toNumber()
+        expect(Math.abs(actual - expected) / expected).toBeLessThan(0.001)
+      }
+    })
+  })
+})
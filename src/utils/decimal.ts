@@ -198,6 +198,19 @@ export function calculateStrategyPointsMultiplier(prestigePoints: Decimal.Value)
   return decimal(1).plus(logBonus)
 }
 
+/**
+ * View-to-click conversion constants
+ */
+const BASE_VIEW_EFFICIENCY = 0.1 // 10% base conversion rate
+const EFFICIENCY_GAIN_PER_CLICK = 0.001 / 1000 // 0.1% per 1000 total earned clicks
+
+/**
+ * Highest conversion rate: 100% cap if engagement > 1, otherwise 50%
+ */
+function getMaxViewEfficiency(engagementLevel: number): number {
+  return engagementLevel > 1 ? 1.0 : 0.5
+}
+
 /**
  * Calculate view-to-click conversion efficiency based on total earned clicks
  * Base: 10% (1 click per 10 views)
@@ -206,21 +219,71 @@ export function calculateStrategyPointsMultiplier(prestigePoints: Decimal.Value)
  * Soft capped at 50% (or 100% if engagement > 1)
  */
 export function calculateViewToClickEfficiency(totalEarned: Decimal.Value, prestigeMultiplier: Decimal.Value, engagementLevel: number = 1): Decimal {
-  const baseEfficiency = 0.1 // 10% base conversion rate
-  const maxEfficiency = engagementLevel > 1 ? 1.0 : 0.5 // 100% cap if engagement > 1, otherwise 50%
+  const maxEfficiency = getMaxViewEfficiency(engagementLevel)
   
   // Calculate efficiency gain: 0.1% per 1000 total earned clicks, affected by prestige multiplier AND engagement
   const prestigeBonus = decimal(prestigeMultiplier)
   const totalEarnedNum = decimal(totalEarned).toNumber()
-  const efficiencyGainPer1000 = 0.001 // 0.1%
-  const efficiencyGain = (totalEarnedNum / 1000) * efficiencyGainPer1000 * prestigeBonus.toNumber() * engagementLevel
+  const efficiencyGain = totalEarnedNum * EFFICIENCY_GAIN_PER_CLICK * prestigeBonus.toNumber() * engagementLevel
   
   // Apply soft cap
-  const totalEfficiency = Math.min(baseEfficiency + efficiencyGain, maxEfficiency)
+  const totalEfficiency = Math.min(BASE_VIEW_EFFICIENCY + efficiencyGain, maxEfficiency)
   
   return decimal(totalEfficiency)
 }
 
+/**
+ * Calculate the Clicks earned over a period of steady production
+ * Views convert at calculateViewToClickEfficiency, which keeps rising as the new Clicks add to totalEarned;
+ * other Clicks per second (automation) also count towards totalEarned
+ * Closed-form solution of dT/dt = viewsPerSecond * efficiency(T) + clicksPerSecond
+ */
+export function calculateClicksEarnedOverTime(
+  totalEarned: Decimal.Value,
+  viewsPerSecond: Decimal.Value,
+  clicksPerSecond: Decimal.Value,
+  seconds: number,
+  prestigeMultiplier: Decimal.Value,
+  engagementLevel: number = 1
+): Decimal {
+  const start = decimal(totalEarned)
+  const views = decimal(viewsPerSecond)
+  const clicks = decimal(clicksPerSecond)
+  let remaining = decimal(seconds)
+  let earned = start
+  
+  if (remaining.lessThanOrEqualTo(0)) {
+    return ZERO
+  }
+  
+  const maxEfficiency = decimal(getMaxViewEfficiency(engagementLevel))
+  const gainRate = decimal(EFFICIENCY_GAIN_PER_CLICK).times(prestigeMultiplier).times(engagementLevel)
+  const efficiency = calculateViewToClickEfficiency(start, prestigeMultiplier, engagementLevel)
+  
+  // Growth phase: efficiency = base + gainRate * T until it reaches the cap
+  if (views.greaterThan(0) && gainRate.greaterThan(0) && efficiency.lessThan(maxEfficiency)) {
+    const b = views.times(BASE_VIEW_EFFICIENCY).plus(clicks)
+    const c = views.times(gainRate)
+    const offset = b.dividedBy(c)
+    const capEarned = maxEfficiency.minus(BASE_VIEW_EFFICIENCY).dividedBy(gainRate)
+    const timeToCap = capEarned.plus(offset).dividedBy(start.plus(offset)).ln().dividedBy(c)
+    
+    if (remaining.lessThanOrEqualTo(timeToCap)) {
+      earned = start.plus(offset).times(c.times(remaining).exp()).minus(offset)
+      return earned.minus(start)
+    }
+    
+    earned = capEarned
+    remaining = remaining.minus(timeToCap)
+  }
+  
+  // Linear phase: efficiency no longer changes
+  const rate = views.times(calculateViewToClickEfficiency(earned, prestigeMultiplier, engagementLevel)).plus(clicks)
+  earned = earned.plus(rate.times(remaining))
+  
+  return earned.minus(start)
+}
+
 /**
  * Common game constants as Decimals
  */